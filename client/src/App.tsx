@@ -11,6 +11,12 @@ import VideoConnectionDialog from './components/VideoConnectionDialog'
 import Chat from './components/Chat'
 import HelperButtonGroup from './components/HelperButtonGroup'
 import MobileVirtualJoystick from './components/MobileVirtualJoystick'
+import RoomLeftDialog from './components/RoomLeftDialog'
+import ReconnectingSnackbar from './components/ReconnectingSnackbar'
+import ZoneBanner from './components/ZoneBanner'
+import KnockPrompt from './components/KnockPrompt'
+import RecordingIndicator from './components/RecordingIndicator'
+import Minimap from './components/Minimap'
 
 const Backdrop = styled.div`
   position: absolute;
@@ -40,6 +46,12 @@ function App() {
           <Chat />
           {/* Render VideoConnectionDialog if user is not connected to a webcam. */}
           {!videoConnected && <VideoConnectionDialog />}
+          {/* Render ZoneBanner while the player is in a private zone. */}
+          <ZoneBanner />
+          {/* Render KnockPrompt while the player is at the door of a locked meeting room. */}
+          <KnockPrompt />
+          {/* Render Minimap to see where everyone is and walk there. */}
+          <Minimap />
           <MobileVirtualJoystick />
         </>
       )
@@ -57,6 +69,12 @@ function App() {
       {ui}
       {/* Render HelperButtonGroup if no dialogs are opened. */}
       {!computerDialogOpen && !whiteboardDialogOpen && <HelperButtonGroup />}
+      {/* Render RecordingIndicator while a call we are in is being recorded. */}
+      {loggedIn && <RecordingIndicator />}
+      {/* Render RoomLeftDialog if the host removed us from the room. */}
+      <RoomLeftDialog />
+      {/* Render ReconnectingSnackbar while the connection to the room is being restored. */}
+      <ReconnectingSnackbar />
     </Backdrop>
   )
 }
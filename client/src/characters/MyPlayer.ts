@@ -15,11 +15,21 @@ import { ItemType } from '../../../types/Items'
 import { NavKeys } from '../../../types/KeyboardState'
 import { JoystickMovement } from '../components/Joystick'
 import { openURL } from '../utils/helpers'
+import { Point } from '../utils/pathfinding'
+
+// a waypoint is reached when the feet are this close to it
+const ARRIVE_DISTANCE = 4
+// the walk is given up after this long without getting closer (ms), something is in the way
+const STUCK_TIMEOUT = 1000
 
 export default class MyPlayer extends Player {
   private playContainerBody: Phaser.Physics.Arcade.Body
   private chairOnSit?: Chair
   public joystickMovement?: JoystickMovement
+  // waypoints for the feet (the body center) when walking to a clicked location
+  private path: Point[] = []
+  private closestDistance = Infinity
+  private lastProgressAt = 0
   constructor(
     scene: Phaser.Scene,
     x: number,
@@ -33,7 +43,7 @@ export default class MyPlayer extends Player {
   }
 
   setPlayerName(name: string) {
-    this.playerName.setText(name)
+    this.setPlayerNameText(name)
     phaserEvents.emit(Event.MY_PLAYER_NAME_CHANGE, name)
     store.dispatch(pushPlayerJoinedMessage(name))
   }
@@ -41,7 +51,61 @@ export default class MyPlayer extends Player {
   setPlayerTexture(texture: string) {
     this.playerTexture = texture
     this.anims.play(`${this.playerTexture}_idle_down`, true)
-    phaserEvents.emit(Event.MY_PLAYER_TEXTURE_CHANGE, this.x, this.y, this.anims.currentAnim.key)
+    phaserEvents.emit(
+      Event.MY_PLAYER_TEXTURE_CHANGE,
+      texture,
+      this.x,
+      this.y,
+      this.anims.currentAnim.key
+    )
+  }
+
+  // move back to the position the server last accepted (the server rejected our movement)
+  resetPosition(x: number, y: number) {
+    this.setVelocity(0, 0)
+    this.setPosition(x, y).setDepth(y)
+    this.playContainerBody.setVelocity(0, 0)
+    this.playerContainer.setPosition(x, y - 30)
+    this.stopWalking()
+  }
+
+  walkPath(path: Point[]) {
+    this.path = path
+    this.closestDistance = Infinity
+    this.lastProgressAt = this.scene.time.now
+  }
+
+  stopWalking() {
+    this.path = []
+  }
+
+  get walking() {
+    return this.path.length > 0
+  }
+
+  // velocity towards the next waypoint, zero once the path is done or blocked
+  private followPath(speed: number) {
+    const { center } = this.body
+    while (this.path.length) {
+      const [next] = this.path
+      const distance = Phaser.Math.Distance.Between(center.x, center.y, next.x, next.y)
+      if (distance < ARRIVE_DISTANCE) {
+        this.path.shift()
+        this.closestDistance = Infinity
+        this.lastProgressAt = this.scene.time.now
+        continue
+      }
+      if (distance < this.closestDistance - 1) {
+        this.closestDistance = distance
+        this.lastProgressAt = this.scene.time.now
+      } else if (this.scene.time.now - this.lastProgressAt > STUCK_TIMEOUT) {
+        break
+      }
+      const angle = Phaser.Math.Angle.Between(center.x, center.y, next.x, next.y)
+      return [Math.cos(angle) * speed, Math.sin(angle) * speed]
+    }
+    this.stopWalking()
+    return [0, 0]
   }
 
   handleJoystickMovement(movement: JoystickMovement) {
@@ -123,6 +187,7 @@ export default class MyPlayer extends Player {
           chairItem.setDialogBox('Press E to leave')
           this.chairOnSit = chairItem
           this.playerBehavior = PlayerBehavior.SITTING
+          this.stopWalking()
           return
         }
 
@@ -144,14 +209,17 @@ export default class MyPlayer extends Player {
 
         if (cursors.left?.isDown || cursors.A?.isDown || joystickLeft) vx -= speed
         if (cursors.right?.isDown || cursors.D?.isDown || joystickRight) vx += speed
-        if (cursors.up?.isDown || cursors.W?.isDown || joystickUp) {
-          vy -= speed
-          this.setDepth(this.y) //change player.depth if player.y changes
-        }
-        if (cursors.down?.isDown || cursors.S?.isDown || joystickDown) {
-          vy += speed
-          this.setDepth(this.y) //change player.depth if player.y changes
+        if (cursors.up?.isDown || cursors.W?.isDown || joystickUp) vy -= speed
+        if (cursors.down?.isDown || cursors.S?.isDown || joystickDown) vy += speed
+
+        // a movement key cancels the walk to a clicked location
+        if (vx !== 0 || vy !== 0) {
+          this.stopWalking()
+        } else if (this.walking) {
+          ;[vx, vy] = this.followPath(speed)
         }
+        if (vy !== 0) this.setDepth(this.y) //change player.depth if player.y changes
+
         // update character velocity
         this.setVelocity(vx, vy)
         this.body.velocity.setLength(speed)
@@ -161,9 +229,11 @@ export default class MyPlayer extends Player {
 
         // update animation according to velocity and send new location and anim to server
         if (vx !== 0 || vy !== 0) network.updatePlayer(this.x, this.y, this.anims.currentAnim.key)
-        if (vx > 0) {
+        // face the main direction when walking a path at an angle
+        const horizontal = Math.abs(vx) >= Math.abs(vy)
+        if (horizontal && vx > 0) {
           this.play(`${this.playerTexture}_run_right`, true)
-        } else if (vx < 0) {
+        } else if (horizontal && vx < 0) {
           this.play(`${this.playerTexture}_run_left`, true)
         } else if (vy > 0) {
           this.play(`${this.playerTexture}_run_down`, true)
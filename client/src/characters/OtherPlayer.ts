@@ -3,6 +3,8 @@ import Player from './Player'
 import MyPlayer from './MyPlayer'
 import { sittingShiftData } from './Player'
 import WebRTC from '../web/WebRTC'
+import { HEARING_DISTANCE } from '../../../types/Limits'
+import { PlayerStatus } from '../../../types/PlayerStatus'
 import { Event, phaserEvents } from '../events/EventCenter'
 
 export default class OtherPlayer extends Player {
@@ -25,7 +27,7 @@ export default class OtherPlayer extends Player {
     super(scene, x, y, texture, id, frame)
     this.targetPosition = [x, y]
 
-    this.playerName.setText(name)
+    this.setPlayerNameText(name)
     this.playContainerBody = this.playerContainer.body as Phaser.Physics.Arcade.Body
   }
 
@@ -38,7 +40,13 @@ export default class OtherPlayer extends Player {
       myPlayer.readyToConnect &&
       this.readyToConnect &&
       myPlayer.videoConnected &&
-      myPlayerId > this.playerId
+      // nobody gets called automatically while in do-not-disturb
+      this.status !== PlayerStatus.DO_NOT_DISTURB &&
+      myPlayer.status !== PlayerStatus.DO_NOT_DISTURB &&
+      // private zones only connect the players inside them
+      this.zone === myPlayer.zone &&
+      // in the mesh mode the player with the greater id calls, with the SFU both subscribe
+      (webRTC.usesSfu || myPlayerId > this.playerId)
     ) {
       webRTC.connectToNewUser(this.playerId)
       this.connected = true
@@ -50,7 +58,7 @@ export default class OtherPlayer extends Player {
     switch (field) {
       case 'name':
         if (typeof value === 'string') {
-          this.playerName.setText(value)
+          this.setPlayerNameText(value)
         }
         break
 
@@ -66,6 +74,12 @@ export default class OtherPlayer extends Player {
         }
         break
 
+      case 'texture':
+        if (typeof value === 'string') {
+          this.playerTexture = value
+        }
+        break
+
       case 'anim':
         if (typeof value === 'string') {
           this.anims.play(value, true)
@@ -83,9 +97,38 @@ export default class OtherPlayer extends Player {
           this.videoConnected = value
         }
         break
+
+      case 'status':
+        if (typeof value === 'string') {
+          this.setStatus(value as PlayerStatus)
+        }
+        break
+
+      case 'zone':
+        if (typeof value === 'string') {
+          this.zone = value
+        }
+        break
     }
   }
 
+  // whether a call with myPlayer should stay up, everyone in the same private zone is in one call
+  private isInReach(myPlayer: MyPlayer) {
+    if (this.zone !== myPlayer.zone) return false
+    if (this.zone) return true
+    return (
+      this.body.embedded ||
+      !this.body.touching.none ||
+      Phaser.Math.Distance.Between(this.x, this.y, myPlayer.x, myPlayer.y) <= HEARING_DISTANCE
+    )
+  }
+
+  // the player reconnected with a new peer connection, call (or wait for) them again
+  resetConnection() {
+    this.connected = false
+    this.connectionBufferTime = 0
+  }
+
   destroy(fromScene?: boolean) {
     this.playerContainer.destroy()
 
@@ -153,15 +196,10 @@ export default class OtherPlayer extends Player {
     this.playContainerBody.velocity.setLength(speed)
 
     // while currently connected with myPlayer
-    // if myPlayer and the otherPlayer stop overlapping, delete video stream
+    // if myPlayer walked out of hearing distance (see spatialAudio.ts) or into another zone,
+    // delete video stream
     this.connectionBufferTime += dt
-    if (
-      this.connected &&
-      !this.body.embedded &&
-      this.body.touching.none &&
-      this.connectionBufferTime >= 750
-    ) {
-      if (this.x < 610 && this.y > 515 && this.myPlayer!.x < 610 && this.myPlayer!.y > 515) return
+    if (this.connected && this.connectionBufferTime >= 750 && !this.isInReach(this.myPlayer!)) {
       phaserEvents.emit(Event.PLAYER_DISCONNECTED, this.playerId)
       this.connectionBufferTime = 0
       this.connected = false
@@ -1,5 +1,7 @@
 import Phaser from 'phaser'
 import { PlayerBehavior } from '../../../types/PlayerBehavior'
+import { PlayerStatus } from '../../../types/PlayerStatus'
+import { statusColors } from '../utils/presence'
 /**
  * shifting distance for sitting animation
  * format: direction: [xShift, yShift, depthShift]
@@ -17,7 +19,11 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
   playerBehavior = PlayerBehavior.IDLE
   readyToConnect = false
   videoConnected = false
+  status = PlayerStatus.AVAILABLE
+  // private zone the player stands in, set by the server from the Zones layer of the map
+  zone = ''
   playerName: Phaser.GameObjects.Text
+  private statusDot: Phaser.GameObjects.Arc
   playerContainer: Phaser.GameObjects.Container
   private playerDialogBubble: Phaser.GameObjects.Container
   private timeoutID?: number
@@ -53,6 +59,11 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
       .setOrigin(0.5)
     this.playerContainer.add(this.playerName)
 
+    // add the presence status dot (left of the name) to playerContainer
+    this.statusDot = this.scene.add.circle(0, 0, 3)
+    this.playerContainer.add(this.statusDot)
+    this.setStatus(this.status)
+
     this.scene.physics.world.enable(this.playerContainer)
     const playContainerBody = this.playerContainer.body as Phaser.Physics.Arcade.Body
     const collisionScale = [0.5, 0.2]
@@ -61,6 +72,16 @@ export default class Player extends Phaser.Physics.Arcade.Sprite {
       .setOffset(-8, this.height * (1 - collisionScale[1]) + 6)
   }
 
+  setPlayerNameText(name: string) {
+    this.playerName.setText(name)
+    this.statusDot.setX(-this.playerName.width / 2 - 6)
+  }
+
+  setStatus(status: PlayerStatus) {
+    this.status = status
+    this.statusDot.setFillStyle(Phaser.Display.Color.HexStringToColor(statusColors[status]).color)
+  }
+
   updateDialogBubble(content: string) {
     this.clearDialogBubble()
 
@@ -0,0 +1,123 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import Button from '@mui/material/Button'
+import Dialog from '@mui/material/Dialog'
+import DialogActions from '@mui/material/DialogActions'
+import DialogContent from '@mui/material/DialogContent'
+import DialogTitle from '@mui/material/DialogTitle'
+import TextField from '@mui/material/TextField'
+import Alert from '@mui/material/Alert'
+
+import { MIN_PASSWORD_LENGTH, MAX_PASSWORD_LENGTH } from '../../../types/Accounts'
+import { useAppSelector } from '../hooks'
+import { login, logout, register } from '../utils/account'
+
+const Wrapper = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 14px;
+  color: #c2c2c2;
+`
+
+const StyledDialog = styled(Dialog)`
+  .MuiDialog-paper {
+    background: #222639;
+    color: #eee;
+  }
+`
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+  width: 300px;
+  padding-top: 8px;
+`
+
+// shows who we are playing as, guests can sign in or register to keep their profile everywhere
+export default function AccountPanel() {
+  const account = useAppSelector((state) => state.user.account)
+  const [mode, setMode] = useState<null | 'login' | 'register'>(null)
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  if (!account) return null
+
+  const closeDialog = () => {
+    setMode(null)
+    setPassword('')
+    setError(null)
+  }
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const submit = mode === 'register' ? register : login
+    submit(username, password)
+      .then(closeDialog)
+      .catch((error) => setError(error.message))
+  }
+
+  return (
+    <>
+      <Wrapper>
+        {account.username ? (
+          <>
+            Signed in as <strong>{account.username}</strong>
+            <Button size="small" color="secondary" onClick={() => logout()}>
+              Sign out
+            </Button>
+          </>
+        ) : (
+          <>
+            Playing as a guest
+            <Button size="small" color="secondary" onClick={() => setMode('login')}>
+              Sign in
+            </Button>
+            <Button size="small" color="secondary" onClick={() => setMode('register')}>
+              Create account
+            </Button>
+          </>
+        )}
+      </Wrapper>
+      <StyledDialog open={!!mode} onClose={closeDialog}>
+        <DialogTitle>{mode === 'register' ? 'Create account' : 'Sign in'}</DialogTitle>
+        <DialogContent>
+          <Form id="account-form" onSubmit={handleSubmit}>
+            {error && <Alert severity="error">{error}</Alert>}
+            <TextField
+              autoFocus
+              label="Username"
+              variant="outlined"
+              color="secondary"
+              value={username}
+              helperText={
+                mode === 'register' && '3 to 24 letters, digits, dots, dashes or underscores'
+              }
+              onChange={(e) => setUsername(e.target.value)}
+            />
+            <TextField
+              label="Password"
+              type="password"
+              variant="outlined"
+              color="secondary"
+              value={password}
+              helperText={mode === 'register' && `At least ${MIN_PASSWORD_LENGTH} characters`}
+              inputProps={{ maxLength: MAX_PASSWORD_LENGTH }}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </Form>
+        </DialogContent>
+        <DialogActions>
+          <Button color="secondary" onClick={closeDialog}>
+            Cancel
+          </Button>
+          <Button variant="contained" color="secondary" type="submit" form="account-form">
+            {mode === 'register' ? 'Create account' : 'Sign in'}
+          </Button>
+        </DialogActions>
+      </StyledDialog>
+    </>
+  )
+}
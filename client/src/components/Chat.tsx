@@ -5,8 +5,16 @@ import Fab from '@mui/material/Fab'
 import Tooltip from '@mui/material/Tooltip'
 import IconButton from '@mui/material/IconButton'
 import InputBase from '@mui/material/InputBase'
+import Tabs from '@mui/material/Tabs'
+import Tab from '@mui/material/Tab'
+import Badge from '@mui/material/Badge'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
 import InsertEmoticonIcon from '@mui/icons-material/InsertEmoticon'
 import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline'
+import AddCommentIcon from '@mui/icons-material/AddComment'
+import PublicIcon from '@mui/icons-material/Public'
+import NearMeIcon from '@mui/icons-material/NearMe'
 import CloseIcon from '@mui/icons-material/Close'
 import 'emoji-mart/css/emoji-mart.css'
 import { Picker } from 'emoji-mart'
@@ -16,7 +24,20 @@ import Game from '../scenes/Game'
 
 import { getColorByString } from '../util'
 import { useAppDispatch, useAppSelector } from '../hooks'
-import { MessageType, setFocused, setShowChat } from '../stores/ChatStore'
+import { IChatMessage } from '../../../types/IOfficeState'
+import { ChatMode } from '../../../types/ChatMode'
+import { MAX_CHAT_MESSAGE_LENGTH } from '../../../types/Limits'
+import {
+  MessageType,
+  setFocused,
+  setShowChat,
+  setChatMode,
+  setLoadingHistory,
+  pushNearbyMessage,
+  pushDirectMessage,
+  openDirectConversation,
+  setActiveConversation,
+} from '../stores/ChatStore'
 
 const Backdrop = styled.div`
   position: fixed;
@@ -60,6 +81,23 @@ const ChatHeader = styled.div`
   }
 `
 
+const ConversationTabs = styled.div`
+  display: flex;
+  align-items: center;
+  background: #000000a7;
+
+  .MuiTabs-root {
+    flex: 1;
+    min-height: 32px;
+  }
+
+  .MuiTab-root {
+    min-height: 32px;
+    padding: 4px 16px;
+    text-transform: none;
+  }
+`
+
 const ChatBox = styled(Box)`
   height: 100%;
   width: 100%;
@@ -92,6 +130,12 @@ const MessageWrapper = styled.div`
     font-weight: normal;
   }
 
+  .nearby {
+    color: grey;
+    font-weight: normal;
+    font-style: italic;
+  }
+
   :hover {
     background: #3a3a3a;
   }
@@ -142,12 +186,16 @@ const Message = ({ chatMessage, messageType }) => {
         placement="right"
         arrow
       >
-        {messageType === MessageType.REGULAR_MESSAGE ? (
+        {messageType === MessageType.REGULAR_MESSAGE ||
+        messageType === MessageType.NEARBY_MESSAGE ? (
           <p
             style={{
               color: getColorByString(chatMessage.author),
             }}
           >
+            {messageType === MessageType.NEARBY_MESSAGE && (
+              <span className="nearby">(nearby) </span>
+            )}
             {chatMessage.author}: <span>{chatMessage.content}</span>
           </p>
         ) : (
@@ -165,13 +213,38 @@ export default function Chat() {
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [readyToSubmit, setReadyToSubmit] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const chatBoxRef = useRef<HTMLDivElement>(null)
+  const scrollHeightBeforeLoad = useRef<number | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const chatMessages = useAppSelector((state) => state.chat.chatMessages)
   const focused = useAppSelector((state) => state.chat.focused)
   const showChat = useAppSelector((state) => state.chat.showChat)
+  const chatMode = useAppSelector((state) => state.chat.chatMode)
+  const hasMoreHistory = useAppSelector((state) => state.chat.hasMoreHistory)
+  const loadingHistory = useAppSelector((state) => state.chat.loadingHistory)
+  const directConversations = useAppSelector((state) => state.chat.directConversations)
+  const activeConversation = useAppSelector((state) => state.chat.activeConversation)
+  const playerNameMap = useAppSelector((state) => state.user.playerNameMap)
+  // the host can mute us, the server drops our messages in that case
+  const muted = useAppSelector(
+    (state) => !!state.room.participants.get(state.user.sessionId)?.muted
+  )
+  const [recipientMenuAnchor, setRecipientMenuAnchor] = useState<null | HTMLElement>(null)
   const dispatch = useAppDispatch()
   const game = phaserGame.scene.keys.game as Game
 
+  const conversation = activeConversation ? directConversations.get(activeConversation) : undefined
+  // a direct conversation can only continue while the other player is still in the room
+  const recipientLeft = !!activeConversation && !playerNameMap.has(activeConversation)
+  const shownMessages = conversation
+    ? conversation.messages.map((chatMessage) => ({
+        messageType: MessageType.REGULAR_MESSAGE,
+        chatMessage,
+      }))
+    : chatMessages
+  let unreadCount = 0
+  directConversations.forEach(({ unread }) => (unreadCount += unread))
+
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(event.target.value)
   }
@@ -200,16 +273,63 @@ export default function Chat() {
 
     const val = inputValue.trim()
     setInputValue('')
-    if (val) {
-      game.network.addChatMessage(val)
+    if (!val || muted) return
+    if (activeConversation && conversation) {
+      if (recipientLeft) return
+      game.network.sendDirectMessage(activeConversation, val)
+      dispatch(
+        pushDirectMessage({
+          playerId: activeConversation,
+          name: conversation.name,
+          chatMessage: {
+            author: game.myPlayer.playerName.text,
+            createdAt: new Date().getTime(),
+            content: val,
+          } as IChatMessage,
+          incoming: false,
+        })
+      )
+    } else {
+      game.network.addChatMessage(val, chatMode)
       game.myPlayer.updateDialogBubble(val)
+      if (chatMode === ChatMode.NEARBY) {
+        dispatch(
+          pushNearbyMessage({
+            author: game.myPlayer.playerName.text,
+            createdAt: new Date().getTime(),
+            content: val,
+          } as IChatMessage)
+        )
+      }
     }
   }
 
+  const handleRecipientSelect = (playerId: string, name: string) => {
+    setRecipientMenuAnchor(null)
+    dispatch(openDirectConversation({ playerId, name }))
+    dispatch(setFocused(true))
+  }
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
+  // load older messages from the server, the room-wide chat only
+  const loadOlderMessages = (chatBox: HTMLDivElement) => {
+    if (conversation || !hasMoreHistory || loadingHistory) return
+    scrollHeightBeforeLoad.current = chatBox.scrollHeight
+    const oldestMessage = chatMessages.find(
+      ({ messageType }) => messageType === MessageType.REGULAR_MESSAGE
+    )
+    dispatch(setLoadingHistory(true))
+    game.network.loadChatHistory(oldestMessage?.chatMessage.seq ?? Number.MAX_SAFE_INTEGER)
+  }
+
+  // when the user scrolls to the top of the chat
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (event.currentTarget.scrollTop === 0) loadOlderMessages(event.currentTarget)
+  }
+
   useEffect(() => {
     if (focused) {
       inputRef.current?.focus()
@@ -217,8 +337,17 @@ export default function Chat() {
   }, [focused])
 
   useEffect(() => {
-    scrollToBottom()
-  }, [chatMessages, showChat])
+    const chatBox = chatBoxRef.current
+    if (chatBox && scrollHeightBeforeLoad.current !== null) {
+      // older messages were added on top, keep showing the messages the user was looking at
+      chatBox.scrollTop = chatBox.scrollHeight - scrollHeightBeforeLoad.current
+      scrollHeightBeforeLoad.current = null
+    } else {
+      scrollToBottom()
+    }
+    // the chat cannot be scrolled up while the messages do not fill it, keep loading instead
+    if (chatBox && chatBox.scrollHeight <= chatBox.clientHeight) loadOlderMessages(chatBox)
+  }, [chatMessages, showChat, activeConversation, conversation?.messages.length, hasMoreHistory])
 
   return (
     <Backdrop>
@@ -236,8 +365,54 @@ export default function Chat() {
                 <CloseIcon />
               </IconButton>
             </ChatHeader>
-            <ChatBox>
-              {chatMessages.map(({ messageType, chatMessage }, index) => (
+            <ConversationTabs>
+              <Tabs
+                value={activeConversation ?? 'room'}
+                onChange={(event, value: string) =>
+                  dispatch(setActiveConversation(value === 'room' ? null : value))
+                }
+                variant="scrollable"
+                scrollButtons="auto"
+                textColor="secondary"
+                indicatorColor="secondary"
+              >
+                <Tab value="room" label="Room" />
+                {[...directConversations.entries()].map(([playerId, { name, unread }]) => (
+                  <Tab
+                    key={playerId}
+                    value={playerId}
+                    label={
+                      <Badge badgeContent={unread} color="secondary">
+                        {name}
+                      </Badge>
+                    }
+                  />
+                ))}
+              </Tabs>
+              <Tooltip title="New direct message">
+                <IconButton
+                  aria-label="new direct message"
+                  size="small"
+                  onClick={(event) => setRecipientMenuAnchor(event.currentTarget)}
+                >
+                  <AddCommentIcon />
+                </IconButton>
+              </Tooltip>
+              <Menu
+                anchorEl={recipientMenuAnchor}
+                open={!!recipientMenuAnchor}
+                onClose={() => setRecipientMenuAnchor(null)}
+              >
+                {playerNameMap.size === 0 && <MenuItem disabled>No one else is here</MenuItem>}
+                {[...playerNameMap.entries()].map(([playerId, name]) => (
+                  <MenuItem key={playerId} onClick={() => handleRecipientSelect(playerId, name)}>
+                    {name}
+                  </MenuItem>
+                ))}
+              </Menu>
+            </ConversationTabs>
+            <ChatBox ref={chatBoxRef} onScroll={handleScroll}>
+              {shownMessages.map(({ messageType, chatMessage }, index) => (
                 <Message chatMessage={chatMessage} messageType={messageType} key={index} />
               ))}
               <div ref={messagesEndRef} />
@@ -258,12 +433,44 @@ export default function Chat() {
               )}
             </ChatBox>
             <InputWrapper onSubmit={handleSubmit}>
+              {!conversation && (
+                <Tooltip
+                  title={
+                    chatMode === ChatMode.NEARBY
+                      ? 'Talking to people nearby (click to talk to the whole room)'
+                      : 'Talking to the whole room (click to talk to people nearby)'
+                  }
+                >
+                  <IconButton
+                    aria-label="chat mode"
+                    onClick={() =>
+                      dispatch(
+                        setChatMode(chatMode === ChatMode.NEARBY ? ChatMode.ROOM : ChatMode.NEARBY)
+                      )
+                    }
+                  >
+                    {chatMode === ChatMode.NEARBY ? <NearMeIcon /> : <PublicIcon />}
+                  </IconButton>
+                </Tooltip>
+              )}
               <InputTextField
                 inputRef={inputRef}
                 autoFocus={focused}
                 fullWidth
-                placeholder="Press Enter to chat"
+                disabled={recipientLeft || muted}
+                placeholder={
+                  muted
+                    ? 'You have been muted by the host'
+                    : !conversation
+                    ? chatMode === ChatMode.NEARBY
+                      ? 'Press Enter to chat with people nearby'
+                      : 'Press Enter to chat'
+                    : recipientLeft
+                    ? `${conversation.name} has left the room`
+                    : `Message ${conversation.name}`
+                }
                 value={inputValue}
+                inputProps={{ maxLength: MAX_CHAT_MESSAGE_LENGTH }}
                 onKeyDown={handleKeyDown}
                 onChange={handleChange}
                 onFocus={() => {
@@ -292,7 +499,9 @@ export default function Chat() {
                 dispatch(setFocused(true))
               }}
             >
-              <ChatBubbleOutlineIcon />
+              <Badge badgeContent={unreadCount} color="primary">
+                <ChatBubbleOutlineIcon />
+              </Badge>
             </Fab>
           </FabWrapper>
         )}
@@ -1,13 +1,22 @@
-import React from 'react'
+import React, { useState } from 'react'
 import styled from 'styled-components'
 import Button from '@mui/material/Button'
 import IconButton from '@mui/material/IconButton'
+import Checkbox from '@mui/material/Checkbox'
+import FormControlLabel from '@mui/material/FormControlLabel'
+import Snackbar from '@mui/material/Snackbar'
+import Alert from '@mui/material/Alert'
 import CloseIcon from '@mui/icons-material/Close'
 
 import { useAppSelector, useAppDispatch } from '../hooks'
-import { closeComputerDialog } from '../stores/ComputerStore'
+import { closeComputerDialog, setPinnedStream, setControlDeclinedBy } from '../stores/ComputerStore'
+import { RecordingScope } from '../../../types/Recordings'
+import { sanitizeId } from '../util'
 
 import Video from './Video'
+import RecordButton from './RecordButton'
+import ScreenStage from './ScreenStage'
+import RemoteControlPanel from './RemoteControlPanel'
 
 const Backdrop = styled.div`
   position: fixed;
@@ -35,37 +44,63 @@ const Wrapper = styled.div`
     top: 0px;
     right: 0px;
   }
+
+  .toolbar {
+    display: flex;
+    align-items: center;
+    gap: 16px;
+  }
 `
 
-const VideoGrid = styled.div`
+const Stage = styled.div`
   flex: 1;
   min-height: 0;
-  display: grid;
-  grid-gap: 10px;
-  grid-template-columns: repeat(auto-fit, minmax(40%, 1fr));
+  margin-top: 10px;
+
+  .placeholder {
+    height: 100%;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    color: #c2c2c2;
+  }
+`
+
+const Thumbnails = styled.div`
+  display: flex;
+  gap: 10px;
+  margin-top: 10px;
+  overflow-x: auto;
 
   .video-container {
     position: relative;
+    flex: none;
+    width: 160px;
+    height: 90px;
+    padding: 0;
     background: black;
+    border: 2px solid transparent;
     border-radius: 8px;
     overflow: hidden;
+    cursor: pointer;
+
+    &.active {
+      border-color: #42eacb;
+    }
 
     video {
-      position: absolute;
-      top: 0;
-      left: 0;
       width: 100%;
       height: 100%;
-      min-width: 0;
-      min-height: 0;
       object-fit: contain;
     }
 
     .player-name {
       position: absolute;
-      bottom: 16px;
-      left: 16px;
+      bottom: 4px;
+      left: 8px;
+      right: 8px;
       color: #fff;
+      font-size: 12px;
       overflow: hidden;
       text-overflow: ellipsis;
       text-shadow: 0 1px 2px rgb(0 0 0 / 60%), 0 0 2px rgb(0 0 0 / 30%);
@@ -74,21 +109,34 @@ const VideoGrid = styled.div`
   }
 `
 
-function VideoContainer({ playerName, stream }) {
-  return (
-    <div className="video-container">
-      <Video srcObject={stream} autoPlay></Video>
-      {playerName && <div className="player-name">{playerName}</div>}
-    </div>
-  )
-}
-
 export default function ComputerDialog() {
   const dispatch = useAppDispatch()
   const playerNameMap = useAppSelector((state) => state.user.playerNameMap)
   const shareScreenManager = useAppSelector((state) => state.computer.shareScreenManager)
   const myStream = useAppSelector((state) => state.computer.myStream)
   const peerStreams = useAppSelector((state) => state.computer.peerStreams)
+  const computerId = useAppSelector((state) => state.computer.computerId)
+  const pinnedStreamId = useAppSelector((state) => state.computer.pinnedStreamId)
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const participants = useAppSelector((state) => state.room.participants)
+  const controlDeclinedBy = useAppSelector((state) => state.computer.controlDeclinedBy)
+  const [includeScreen, setIncludeScreen] = useState(true)
+
+  // streams are keyed like in peerStreams, ours by our sanitized id
+  const myStreamId = sanitizeId(sessionId)
+  const streams = [...peerStreams.entries()].map(([id, { stream }]) => ({
+    id,
+    stream,
+    playerName: playerNameMap.get(id),
+  }))
+  if (myStream) streams.unshift({ id: myStreamId, stream: myStream, playerName: 'You' })
+  // the pinned stream, or the screen shared last
+  const stage = streams.find(({ id }) => id === pinnedStreamId) ?? streams[streams.length - 1]
+  // the session id of whoever shares the stage, to ask them for control
+  const presenterId =
+    stage && stage.id !== myStreamId
+      ? Array.from(participants.keys()).find((id) => sanitizeId(id) === stage.id)
+      : undefined
 
   return (
     <Backdrop>
@@ -115,17 +163,73 @@ export default function ComputerDialog() {
           >
             {shareScreenManager?.myStream ? 'Stop sharing' : 'Share Screen'}
           </Button>
+          {computerId && (
+            <>
+              <RecordButton
+                scope={RecordingScope.COMPUTER}
+                target={computerId}
+                includeScreen={includeScreen}
+              />
+              <FormControlLabel
+                label="Include shared screen"
+                control={
+                  <Checkbox
+                    checked={includeScreen}
+                    onChange={(event) => setIncludeScreen(event.target.checked)}
+                  />
+                }
+              />
+              {myStream && <RemoteControlPanel computerId={computerId} />}
+            </>
+          )}
         </div>
 
-        <VideoGrid>
-          {myStream && <VideoContainer stream={myStream} playerName="You" />}
+        <Stage>
+          {stage ? (
+            <ScreenStage
+              computerId={computerId!}
+              streamId={stage.id}
+              stream={stage.stream}
+              playerName={stage.playerName}
+              presenterId={presenterId}
+              muted={stage.id === myStreamId}
+              pinned={pinnedStreamId === stage.id}
+              onTogglePin={() =>
+                dispatch(setPinnedStream(pinnedStreamId === stage.id ? null : stage.id))
+              }
+            />
+          ) : (
+            <div className="placeholder">Nobody is sharing their screen yet</div>
+          )}
+        </Stage>
 
-          {[...peerStreams.entries()].map(([id, { stream }]) => {
-            const playerName = playerNameMap.get(id)
-            return <VideoContainer key={id} playerName={playerName} stream={stream} />
-          })}
-        </VideoGrid>
+        {streams.length > 1 && (
+          <Thumbnails>
+            {streams.map(({ id, stream, playerName }) => (
+              <button
+                key={id}
+                className={`video-container ${id === stage?.id ? 'active' : ''}`}
+                onClick={() => dispatch(setPinnedStream(id))}
+              >
+                {/* the stage plays the sound */}
+                <Video srcObject={stream} autoPlay muted></Video>
+                {playerName && <div className="player-name">{playerName}</div>}
+              </button>
+            ))}
+          </Thumbnails>
+        )}
       </Wrapper>
+      <Snackbar
+        open={!!controlDeclinedBy}
+        autoHideDuration={4000}
+        onClose={() => dispatch(setControlDeclinedBy(null))}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="info" onClose={() => dispatch(setControlDeclinedBy(null))}>
+          {participants.get(controlDeclinedBy ?? '')?.name ?? 'The presenter'} declined your request
+          for control
+        </Alert>
+      </Snackbar>
     </Backdrop>
   )
 }
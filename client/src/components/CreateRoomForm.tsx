@@ -3,11 +3,14 @@ import styled from 'styled-components'
 import Button from '@mui/material/Button'
 import IconButton from '@mui/material/IconButton'
 import TextField from '@mui/material/TextField'
+import MenuItem from '@mui/material/MenuItem'
 import InputAdornment from '@mui/material/InputAdornment'
 import Visibility from '@mui/icons-material/Visibility'
 import VisibilityOff from '@mui/icons-material/VisibilityOff'
 
 import { IRoomData } from '../../../types/Rooms'
+import { DEFAULT_MAP_ID, mapLayouts } from '../../../types/Maps'
+import { MediaMode } from '../../../types/Media'
 import { useAppSelector } from '../hooks'
 
 import phaserGame from '../PhaserGame'
@@ -26,6 +29,8 @@ export const CreateRoomForm = () => {
     description: '',
     password: null,
     autoDispose: true,
+    mapId: DEFAULT_MAP_ID,
+    mediaMode: MediaMode.MESH,
   })
   const [showPassword, setShowPassword] = useState(false)
   const [nameFieldEmpty, setNameFieldEmpty] = useState(false)
@@ -78,6 +83,34 @@ export const CreateRoomForm = () => {
         onChange={handleChange('description')}
       />
 
+      <TextField
+        select
+        label="Map"
+        variant="outlined"
+        color="secondary"
+        value={values.mapId}
+        onChange={handleChange('mapId')}
+      >
+        {Object.entries(mapLayouts).map(([mapId, { name }]) => (
+          <MenuItem key={mapId} value={mapId}>
+            {name}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <TextField
+        select
+        label="Calls"
+        variant="outlined"
+        color="secondary"
+        value={values.mediaMode}
+        onChange={handleChange('mediaMode')}
+        helperText="Through the server scales better with many players close to each other"
+      >
+        <MenuItem value={MediaMode.MESH}>Peer to peer</MenuItem>
+        <MenuItem value={MediaMode.SFU}>Through the server (SFU)</MenuItem>
+      </TextField>
+
       <TextField
         type={showPassword ? 'text' : 'password'}
         label="Password (optional)"
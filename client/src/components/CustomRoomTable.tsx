@@ -14,11 +14,13 @@ import Dialog from '@mui/material/Dialog'
 import DialogActions from '@mui/material/DialogActions'
 import DialogContent from '@mui/material/DialogContent'
 import Alert from '@mui/material/Alert'
+import Snackbar from '@mui/material/Snackbar'
 import Avatar from '@mui/material/Avatar'
 import PeopleAltIcon from '@mui/icons-material/PeopleAlt'
 import LockIcon from '@mui/icons-material/Lock'
 import { useAppSelector } from '../hooks'
 import { getAvatarString, getColorByString } from '../util'
+import { isMapId, mapLayouts } from '../../../types/Maps'
 
 import phaserGame from '../PhaserGame'
 import Bootstrap from '../scenes/Bootstrap'
@@ -89,7 +91,8 @@ export const CustomRoomTable = () => {
   const [password, setPassword] = useState('')
   const [selectedRoom, setSelectedRoom] = useState('')
   const [showPasswordDialog, setShowPasswordDialog] = useState(false)
-  const [showPasswordError, setShowPasswordError] = useState(false)
+  // why the server refused to let us in (e.g. wrong password or banned)
+  const [joinError, setJoinError] = useState('')
   const [passwordFieldEmpty, setPasswordFieldEmpty] = useState(false)
   const lobbyJoined = useAppSelector((state) => state.room.lobbyJoined)
   const availableRooms = useAppSelector((state) => state.room.availableRooms)
@@ -102,7 +105,7 @@ export const CustomRoomTable = () => {
       .then(() => bootstrap.launchGame())
       .catch((error) => {
         console.error(error)
-        if (password) setShowPasswordError(true)
+        setJoinError(error.message)
       })
   }
 
@@ -118,7 +121,7 @@ export const CustomRoomTable = () => {
     setShowPasswordDialog(false)
     setPassword('')
     setPasswordFieldEmpty(false)
-    setShowPasswordError(false)
+    setJoinError('')
   }
 
   return availableRooms.length === 0 ? (
@@ -132,6 +135,7 @@ export const CustomRoomTable = () => {
               <TableCell></TableCell>
               <TableCell>Name</TableCell>
               <TableCell>Description</TableCell>
+              <TableCell>Map</TableCell>
               <TableCell>ID</TableCell>
               <TableCell align="center">
                 <PeopleAltIcon />
@@ -142,7 +146,7 @@ export const CustomRoomTable = () => {
           <TableBody>
             {availableRooms.map((room) => {
               const { roomId, metadata, clients } = room
-              const { name, description, hasPassword } = metadata
+              const { name, description, hasPassword, mapId } = metadata
               return (
                 <TableRowWrapper key={roomId}>
                   <TableCell>
@@ -156,6 +160,7 @@ export const CustomRoomTable = () => {
                   <TableCell>
                     <div className="description">{description}</div>
                   </TableCell>
+                  <TableCell>{isMapId(mapId) ? mapLayouts[mapId].name : ''}</TableCell>
                   <TableCell>{roomId}</TableCell>
                   <TableCell align="center">{clients}</TableCell>
                   <TableCell align="center">
@@ -203,9 +208,9 @@ export const CustomRoomTable = () => {
                 setPassword((e.target as HTMLInputElement).value)
               }}
             />
-            {showPasswordError && (
+            {joinError && (
               <Alert severity="error" variant="outlined">
-                Incorrect Password!
+                {joinError}
               </Alert>
             )}
           </DialogContent>
@@ -219,6 +224,21 @@ export const CustomRoomTable = () => {
           </DialogActions>
         </form>
       </PasswordDialog>
+      <Snackbar
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        open={!!joinError && !showPasswordDialog}
+        autoHideDuration={3000}
+        onClose={() => setJoinError('')}
+      >
+        <Alert
+          severity="error"
+          variant="outlined"
+          // overwrites the dark theme on render
+          style={{ background: '#fdeded', color: '#7d4747' }}
+        >
+          {joinError}
+        </Alert>
+      </Snackbar>
     </>
   )
 }
@@ -15,12 +15,28 @@ import ArrowRightIcon from '@mui/icons-material/ArrowRight'
 // import TwitterIcon from '@mui/icons-material/Twitter'
 import VideogameAssetIcon from '@mui/icons-material/VideogameAsset'
 import VideogameAssetOffIcon from '@mui/icons-material/VideogameAssetOff'
+import SpeakerNotesIcon from '@mui/icons-material/SpeakerNotes'
+import SpeakerNotesOffIcon from '@mui/icons-material/SpeakerNotesOff'
+import PersonRemoveIcon from '@mui/icons-material/PersonRemove'
+import BlockIcon from '@mui/icons-material/Block'
+import WifiOffIcon from '@mui/icons-material/WifiOff'
+import StarIcon from '@mui/icons-material/Star'
+import VideoLibraryIcon from '@mui/icons-material/VideoLibrary'
+import DirectionsWalkIcon from '@mui/icons-material/DirectionsWalk'
 
 import { BackgroundMode } from '../../../types/BackgroundMode'
+import { PlayerRole } from '../../../types/PlayerRole'
 import { setShowJoystick, toggleBackgroundMode } from '../stores/UserStore'
+import { saveProfile } from '../utils/account'
+import { statusLabels } from '../utils/presence'
+import StatusSelector, { StatusDot } from './StatusSelector'
+import RecordingList from './RecordingList'
 import { useAppSelector, useAppDispatch } from '../hooks'
 import { getAvatarString, getColorByString } from '../util'
 
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
 const Backdrop = styled.div`
   position: fixed;
   display: flex;
@@ -99,6 +115,41 @@ const RoomDescription = styled.div`
   justify-content: center;
 `
 
+const ParticipantList = styled.ul`
+  margin: 10px 0 0;
+  padding: 0;
+  width: 100%;
+  max-height: 200px;
+  overflow-y: auto;
+  list-style: none;
+
+  li {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 4px 0;
+  }
+
+  .name {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .username {
+    color: #888;
+  }
+
+  .host-icon {
+    color: #ffc107;
+  }
+
+  .MuiIconButton-root {
+    color: #c2c2c2;
+  }
+`
+
 const StyledFab = styled(Fab)<{ target?: string }>`
   &:hover {
     color: #1ea2df;
@@ -108,13 +159,20 @@ const StyledFab = styled(Fab)<{ target?: string }>`
 export default function HelperButtonGroup() {
   const [showControlGuide, setShowControlGuide] = useState(false)
   const [showRoomInfo, setShowRoomInfo] = useState(false)
+  const [showRecordings, setShowRecordings] = useState(false)
   const showJoystick = useAppSelector((state) => state.user.showJoystick)
   const backgroundMode = useAppSelector((state) => state.user.backgroundMode)
   const roomJoined = useAppSelector((state) => state.room.roomJoined)
   const roomId = useAppSelector((state) => state.room.roomId)
   const roomName = useAppSelector((state) => state.room.roomName)
   const roomDescription = useAppSelector((state) => state.room.roomDescription)
+  const participants = useAppSelector((state) => state.room.participants)
+  const sessionId = useAppSelector((state) => state.user.sessionId)
   const dispatch = useAppDispatch()
+  const isHost = participants.get(sessionId)?.role === PlayerRole.HOST
+
+  const getGame = () => phaserGame.scene.keys.game as Game
+  const getNetwork = () => getGame().network
 
   return (
     <Backdrop>
@@ -143,12 +201,84 @@ export default function HelperButtonGroup() {
             <RoomDescription>
               <ArrowRightIcon /> Description: {roomDescription}
             </RoomDescription>
+            <ParticipantList>
+              {Array.from(participants).map(([id, { name, role, muted, username, status }]) => (
+                <li key={id}>
+                  <Avatar
+                    style={{ background: getColorByString(name || '?'), width: 28, height: 28 }}
+                  >
+                    {name ? getAvatarString(name) : '?'}
+                  </Avatar>
+                  <Tooltip title={statusLabels[status]}>
+                    <StatusDot $status={status} />
+                  </Tooltip>
+                  <span className="name">
+                    {name}
+                    {id === sessionId && ' (you)'}
+                    {username && <span className="username"> @{username}</span>}
+                  </span>
+                  {role === PlayerRole.HOST && (
+                    <Tooltip title="Host">
+                      <StarIcon className="host-icon" fontSize="small" />
+                    </Tooltip>
+                  )}
+                  {id !== sessionId && (
+                    <Tooltip title="Go to">
+                      <IconButton size="small" onClick={() => getGame().navigateToPlayer(id)}>
+                        <DirectionsWalkIcon />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {isHost && id !== sessionId && (
+                    <>
+                      <Tooltip title={muted ? 'Allow to chat' : 'Mute chat'}>
+                        <IconButton
+                          size="small"
+                          onClick={() => getNetwork().mutePlayer(id, !muted)}
+                        >
+                          {muted ? <SpeakerNotesOffIcon /> : <SpeakerNotesIcon />}
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Make host">
+                        <IconButton size="small" onClick={() => getNetwork().transferHost(id)}>
+                          <StarIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Kick">
+                        <IconButton size="small" onClick={() => getNetwork().kickPlayer(id)}>
+                          <PersonRemoveIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Ban">
+                        <IconButton size="small" onClick={() => getNetwork().banPlayer(id)}>
+                          <BlockIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Ban, along with everyone on the same network">
+                        <IconButton size="small" onClick={() => getNetwork().banPlayer(id, true)}>
+                          <WifiOffIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ParticipantList>
             <p className="tip">
               <LightbulbIcon />
               Shareable link coming up 😄
             </p>
           </Wrapper>
         )}
+        {showRecordings && (
+          <Wrapper>
+            <Title>Recordings</Title>
+            <IconButton className="close" onClick={() => setShowRecordings(false)} size="small">
+              <CloseIcon />
+            </IconButton>
+            <RecordingList />
+          </Wrapper>
+        )}
         {showControlGuide && (
           <Wrapper>
             <Title>Controls</Title>
@@ -182,23 +312,38 @@ export default function HelperButtonGroup() {
       <ButtonGroup>
         {roomJoined && (
           <>
+            <StatusSelector />
             <Tooltip title="Room Info">
               <StyledFab
                 size="small"
                 onClick={() => {
                   setShowRoomInfo(!showRoomInfo)
                   setShowControlGuide(false)
+                  setShowRecordings(false)
                 }}
               >
                 <ShareIcon />
               </StyledFab>
             </Tooltip>
+            <Tooltip title="Recordings">
+              <StyledFab
+                size="small"
+                onClick={() => {
+                  setShowRecordings(!showRecordings)
+                  setShowRoomInfo(false)
+                  setShowControlGuide(false)
+                }}
+              >
+                <VideoLibraryIcon />
+              </StyledFab>
+            </Tooltip>
             <Tooltip title="Control Guide">
               <StyledFab
                 size="small"
                 onClick={() => {
                   setShowControlGuide(!showControlGuide)
                   setShowRoomInfo(false)
+                  setShowRecordings(false)
                 }}
               >
                 <HelpOutlineIcon />
@@ -206,7 +351,7 @@ export default function HelperButtonGroup() {
             </Tooltip>
           </>
         )}
-{/*         <Tooltip title="Visit Our GitHub">
+        {/*         <Tooltip title="Visit Our GitHub">
           <StyledFab
             size="small"
             href="https://github.com/kevinshen56714/SkyOffice"
@@ -221,7 +366,20 @@ export default function HelperButtonGroup() {
           </StyledFab>
         </Tooltip> */}
         <Tooltip title="Switch Background Theme">
-          <StyledFab size="small" onClick={() => dispatch(toggleBackgroundMode())}>
+          <StyledFab
+            size="small"
+            onClick={() => {
+              dispatch(toggleBackgroundMode())
+              saveProfile({
+                preferences: {
+                  backgroundMode:
+                    backgroundMode === BackgroundMode.DAY
+                      ? BackgroundMode.NIGHT
+                      : BackgroundMode.DAY,
+                },
+              }).catch((error) => console.error('failed to save the preferences', error))
+            }}
+          >
             {backgroundMode === BackgroundMode.DAY ? <DarkModeIcon /> : <LightModeIcon />}
           </StyledFab>
         </Tooltip>
@@ -0,0 +1,52 @@
+import React from 'react'
+import Snackbar from '@mui/material/Snackbar'
+import Alert from '@mui/material/Alert'
+import Button from '@mui/material/Button'
+
+import { useAppSelector } from '../hooks'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+// lets players outside of a locked meeting room knock, then tells them how it went
+export default function KnockPrompt() {
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const meetingRooms = useAppSelector((state) => state.room.meetingRooms)
+  const bumpedDoor = useAppSelector((state) => state.room.bumpedDoor)
+
+  const rooms = Array.from(meetingRooms)
+  const admittedTo = rooms.find(([zone, room]) => room.passes.indexOf(sessionId) !== -1)?.[0]
+  const knockingOn = rooms.find(([zone, room]) => room.knocks.indexOf(sessionId) !== -1)?.[0]
+  const lockedDoor = bumpedDoor && meetingRooms.get(bumpedDoor)?.locked ? bumpedDoor : null
+
+  let alert: JSX.Element | null = null
+  if (admittedTo) {
+    alert = <Alert severity="success">You can go into {admittedTo} now</Alert>
+  } else if (knockingOn) {
+    alert = <Alert severity="info">Waiting for someone in {knockingOn} to let you in...</Alert>
+  } else if (lockedDoor) {
+    const game = phaserGame.scene.keys.game as Game
+    alert = (
+      <Alert
+        severity="warning"
+        action={
+          <Button
+            color="inherit"
+            size="small"
+            onClick={() => game.network.knockMeetingRoom(lockedDoor)}
+          >
+            Knock
+          </Button>
+        }
+      >
+        {lockedDoor} is locked
+      </Alert>
+    )
+  }
+
+  return (
+    <Snackbar open={!!alert} anchorOrigin={{ vertical: 'top', horizontal: 'center' }}>
+      {alert ?? <div />}
+    </Snackbar>
+  )
+}
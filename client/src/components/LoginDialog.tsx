@@ -19,6 +19,8 @@ import Nancy from '../images/login/Nancy_login.png'
 import { useAppSelector, useAppDispatch } from '../hooks'
 import { setLoggedIn } from '../stores/UserStore'
 import { getAvatarString, getColorByString } from '../util'
+import { MAX_PLAYER_NAME_LENGTH } from '../../../types/Limits'
+import { saveProfile } from '../utils/account'
 
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
@@ -141,8 +143,15 @@ for (let i = avatars.length - 1; i > 0; i--) {
 }
 
 export default function LoginDialog() {
-  const [name, setName] = useState<string>('')
-  const [avatarIndex, setAvatarIndex] = useState<number>(0)
+  // start from what the player picked last time
+  const profile = useAppSelector((state) => state.user.account?.profile)
+  const [name, setName] = useState<string>(profile?.name ?? '')
+  const [avatarIndex, setAvatarIndex] = useState<number>(() =>
+    Math.max(
+      avatars.findIndex((avatar) => avatar.name === profile?.texture),
+      0
+    )
+  )
   const [nameFieldEmpty, setNameFieldEmpty] = useState<boolean>(false)
   const dispatch = useAppDispatch()
   const videoConnected = useAppSelector((state) => state.user.videoConnected)
@@ -162,6 +171,9 @@ export default function LoginDialog() {
       game.myPlayer.setPlayerTexture(avatars[avatarIndex].name)
       game.network.readyToConnect()
       dispatch(setLoggedIn(true))
+      saveProfile({ name, texture: avatars[avatarIndex].name }).catch((error) =>
+        console.error('failed to save the profile', error)
+      )
     }
   }
 
@@ -185,6 +197,7 @@ export default function LoginDialog() {
             navigation
             spaceBetween={0}
             slidesPerView={1}
+            initialSlide={avatarIndex}
             onSlideChange={(swiper) => {
               setAvatarIndex(swiper.activeIndex)
             }}
@@ -205,6 +218,8 @@ export default function LoginDialog() {
             color="secondary"
             error={nameFieldEmpty}
             helperText={nameFieldEmpty && 'Name is required'}
+            defaultValue={name}
+            inputProps={{ maxLength: MAX_PLAYER_NAME_LENGTH }}
             onInput={(e) => {
               setName((e.target as HTMLInputElement).value)
             }}
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react'
+import styled from 'styled-components'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+import MapIcon from '@mui/icons-material/Map'
+import CloseIcon from '@mui/icons-material/Close'
+
+import { ItemType } from '../../../types/Items'
+import { useAppSelector } from '../hooks'
+import { getColorByString } from '../util'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+// width of the minimap on screen (px), the map is scaled down to fit
+const MINIMAP_WIDTH = 220
+// how often the positions on the minimap are refreshed (ms)
+const REFRESH_INTERVAL = 200
+
+const Wrapper = styled.div`
+  position: fixed;
+  top: 16px;
+  right: 16px;
+  display: flex;
+  flex-direction: column;
+  align-items: flex-end;
+  gap: 8px;
+
+  .MuiIconButton-root {
+    background: #222639;
+    color: #eee;
+    box-shadow: 0px 0px 5px #0000006f;
+
+    &:hover {
+      background: #2d3250;
+    }
+  }
+`
+
+const MapView = styled.div<{ src: string }>`
+  position: relative;
+  border-radius: 8px;
+  border: 2px solid #222639;
+  box-shadow: 0px 0px 5px #0000006f;
+  background: #93cbee url(${({ src }) => src}) 0 0 / 100% 100% no-repeat;
+  overflow: hidden;
+  cursor: pointer;
+
+  .view {
+    position: absolute;
+    border: 1px solid #ffffffaa;
+    pointer-events: none;
+  }
+
+  .item {
+    position: absolute;
+    border-radius: 2px;
+    background: #42eacb88;
+    box-shadow: 0 0 0 1px #42eacb;
+  }
+
+  .dot {
+    position: absolute;
+    width: 8px;
+    height: 8px;
+    margin: -4px 0 0 -4px;
+    border-radius: 50%;
+    border: 1px solid #222639;
+  }
+
+  .me {
+    width: 10px;
+    height: 10px;
+    margin: -5px 0 0 -5px;
+    background: #fff;
+    border: 2px solid #1ea2df;
+  }
+`
+
+const itemLabels: { [type in ItemType]?: string } = {
+  [ItemType.COMPUTER]: 'Computer',
+  [ItemType.WHITEBOARD]: 'Whiteboard',
+}
+
+type MinimapState = ReturnType<Game['getMinimapState']>
+type Area = { x: number; y: number; width?: number; height?: number }
+
+/**
+ * Downscaled map of the office in the corner of the screen with everyone on it, click a location
+ * or a colleague to walk there.
+ */
+export default function Minimap() {
+  const participants = useAppSelector((state) => state.room.participants)
+  const [open, setOpen] = useState(true)
+  const [map, setMap] = useState<{ src: string; width: number; height: number }>()
+  const [state, setState] = useState<MinimapState>()
+
+  const game = phaserGame.scene.keys.game as Game
+
+  useEffect(() => {
+    let cancelled = false
+    game.snapshotMap().then((snapshot) => {
+      if (!cancelled) setMap(snapshot)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setState(game.getMinimapState())
+    const timer = window.setInterval(() => setState(game.getMinimapState()), REFRESH_INTERVAL)
+    return () => window.clearInterval(timer)
+  }, [open])
+
+  if (!open) {
+    return (
+      <Wrapper>
+        <Tooltip title="Show minimap">
+          <IconButton size="small" onClick={() => setOpen(true)}>
+            <MapIcon />
+          </IconButton>
+        </Tooltip>
+      </Wrapper>
+    )
+  }
+  if (!map || !state) return null
+
+  const scale = MINIMAP_WIDTH / map.width
+  const toStyle = ({ x, y, width = 0, height = 0 }: Area) => ({
+    left: x * scale,
+    top: y * scale,
+    width: width * scale || undefined,
+    height: height * scale || undefined,
+  })
+
+  const onClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    game.navigateTo((event.clientX - bounds.left) / scale, (event.clientY - bounds.top) / scale)
+  }
+
+  return (
+    <Wrapper>
+      <Tooltip title="Hide minimap">
+        <IconButton size="small" onClick={() => setOpen(false)}>
+          <CloseIcon />
+        </IconButton>
+      </Tooltip>
+      <MapView
+        src={map.src}
+        style={{ width: MINIMAP_WIDTH, height: map.height * scale }}
+        onClick={onClick}
+      >
+        <div className="view" style={toStyle(state.view)} />
+        {state.occupiedItems.map(({ id, itemType, users, ...bounds }) => (
+          <Tooltip
+            key={`${itemType}-${id}`}
+            title={`${itemLabels[itemType]} · ${users} ${users === 1 ? 'user' : 'users'}`}
+          >
+            <div className="item" style={toStyle(bounds)} />
+          </Tooltip>
+        ))}
+        {state.otherPlayers.map(({ id, x, y }) => {
+          const name = participants.get(id)?.name ?? ''
+          return (
+            <Tooltip key={id} title={name}>
+              <div
+                className="dot"
+                style={{ ...toStyle({ x, y }), background: getColorByString(name || id) }}
+                onClick={(event) => {
+                  event.stopPropagation()
+                  game.navigateToPlayer(id)
+                }}
+              />
+            </Tooltip>
+          )
+        })}
+        <Tooltip title="You">
+          <div className="dot me" style={toStyle(state.myPlayer)} />
+        </Tooltip>
+      </MapView>
+    </Wrapper>
+  )
+}
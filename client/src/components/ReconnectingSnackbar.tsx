@@ -0,0 +1,22 @@
+import React from 'react'
+import Snackbar from '@mui/material/Snackbar'
+import Alert from '@mui/material/Alert'
+import CircularProgress from '@mui/material/CircularProgress'
+
+import { useAppSelector } from '../hooks'
+
+export default function ReconnectingSnackbar() {
+  const reconnecting = useAppSelector((state) => state.room.reconnecting)
+
+  return (
+    <Snackbar open={reconnecting} anchorOrigin={{ vertical: 'top', horizontal: 'center' }}>
+      <Alert
+        severity="warning"
+        variant="filled"
+        icon={<CircularProgress size={20} color="inherit" />}
+      >
+        Connection lost, reconnecting...
+      </Alert>
+    </Snackbar>
+  )
+}
@@ -0,0 +1,50 @@
+import React from 'react'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord'
+import StopCircleIcon from '@mui/icons-material/StopCircle'
+
+import { getRecordingId, RecordingScope } from '../../../types/Recordings'
+import { useAppSelector } from '../hooks'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+interface Props {
+  scope: RecordingScope
+  // computer id or zone name
+  target: string
+  // record the shared screen along with the call (computers only)
+  includeScreen?: boolean
+}
+
+// starts recording the call of a computer or a zone, or stops the recording we started
+export default function RecordButton({ scope, target, includeScreen = false }: Props) {
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const recordingId = getRecordingId(scope, target)
+  const recording = useAppSelector((state) => state.room.recordings.get(recordingId))
+  const network = (phaserGame.scene.keys.game as Game).network
+
+  if (recording) {
+    // someone else records, the RecordingIndicator lets us answer
+    if (recording.recorder !== sessionId) return null
+    return (
+      <Tooltip title="Stop recording">
+        <IconButton aria-label="stop recording" onClick={() => network.stopRecording(recordingId)}>
+          <StopCircleIcon color="error" />
+        </IconButton>
+      </Tooltip>
+    )
+  }
+
+  return (
+    <Tooltip title="Record this call, everyone has to agree first">
+      <IconButton
+        aria-label="record"
+        onClick={() => network.recordings?.start(scope, target, includeScreen)}
+      >
+        <FiberManualRecordIcon />
+      </IconButton>
+    </Tooltip>
+  )
+}
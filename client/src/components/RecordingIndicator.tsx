@@ -0,0 +1,111 @@
+import React from 'react'
+import styled, { keyframes } from 'styled-components'
+import Button from '@mui/material/Button'
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord'
+
+import { getRecordingTitle, RecordingStatus } from '../../../types/Recordings'
+import { useAppSelector } from '../hooks'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+const blink = keyframes`
+  50% {
+    opacity: 0.3;
+  }
+`
+
+const Wrapper = styled.div`
+  position: fixed;
+  top: 16px;
+  left: 16px;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`
+
+const Indicator = styled.div<{ $recording: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 16px;
+  border-radius: 16px;
+  background: #222639;
+  box-shadow: 0px 0px 5px #0000006f;
+  color: #eee;
+
+  svg {
+    font-size: 16px;
+    color: ${({ $recording }) => ($recording ? '#f44336' : '#888')};
+    animation: ${({ $recording }) => ($recording ? blink : 'none')} 1.5s infinite;
+  }
+`
+
+/**
+ * Shown to every participant of a recording: what is being recorded and by whom, and the buttons
+ * to consent, to withdraw the consent (which ends the recording) or to stop it.
+ */
+export default function RecordingIndicator() {
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const recordings = useAppSelector((state) => state.room.recordings)
+  const participants = useAppSelector((state) => state.room.participants)
+  const mine = Array.from(recordings).filter(
+    ([id, { participants }]) => participants.indexOf(sessionId) !== -1
+  )
+  if (mine.length === 0) return null
+
+  const network = (phaserGame.scene.keys.game as Game).network
+
+  return (
+    <Wrapper>
+      {mine.map(([id, { scope, target, recorder, status, participants: members, consents }]) => {
+        const recording = status === RecordingStatus.RECORDING
+        const recorderName = participants.get(recorder)?.name ?? 'Someone'
+        const title = getRecordingTitle(scope, target)
+        let actions: JSX.Element
+        if (recorder === sessionId) {
+          actions = (
+            <Button size="small" color="secondary" onClick={() => network.stopRecording(id)}>
+              Stop
+            </Button>
+          )
+        } else if (consents.indexOf(sessionId) === -1) {
+          actions = (
+            <>
+              <Button size="small" onClick={() => network.answerRecording(id, true)}>
+                Agree
+              </Button>
+              <Button
+                size="small"
+                color="secondary"
+                onClick={() => network.answerRecording(id, false)}
+              >
+                Decline
+              </Button>
+            </>
+          )
+        } else {
+          actions = (
+            <Button
+              size="small"
+              color="secondary"
+              onClick={() => network.answerRecording(id, false)}
+            >
+              Withdraw
+            </Button>
+          )
+        }
+
+        return (
+          <Indicator key={id} $recording={recording}>
+            <FiberManualRecordIcon />
+            {recording
+              ? `${recorder === sessionId ? 'You are' : `${recorderName} is`} recording ${title}`
+              : `${recorderName} wants to record ${title} (${consents.length}/${members.length} agreed)`}
+            {actions}
+          </Indicator>
+        )
+      })}
+    </Wrapper>
+  )
+}
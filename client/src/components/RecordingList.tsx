@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react'
+import styled from 'styled-components'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+import DownloadIcon from '@mui/icons-material/Download'
+
+import { IRecordingInfo } from '../../../types/Recordings'
+import { downloadRecording, listRecordings } from '../utils/recordings'
+
+const List = styled.ul`
+  margin: 10px 0 0;
+  padding: 0;
+  width: 100%;
+  min-width: 300px;
+  max-height: 300px;
+  overflow-y: auto;
+  list-style: none;
+
+  li {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 4px 0;
+  }
+
+  .title {
+    flex: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .details {
+    color: #888;
+    font-size: 14px;
+  }
+
+  .MuiIconButton-root {
+    color: #c2c2c2;
+  }
+`
+
+function formatSize(size: number) {
+  return size < 1024 * 1024
+    ? `${Math.ceil(size / 1024)} KB`
+    : `${(size / 1024 / 1024).toFixed(1)} MB`
+}
+
+// the recordings made in the room, loaded every time the list is opened
+export default function RecordingList() {
+  const [recordings, setRecordings] = useState<IRecordingInfo[] | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    listRecordings()
+      .then(setRecordings)
+      .catch((e) => setError(e.message))
+  }, [])
+
+  if (error) return <p>{error}</p>
+  if (!recordings) return <p>Loading...</p>
+  if (recordings.length === 0) return <p>Nothing has been recorded in this room yet.</p>
+
+  return (
+    <List>
+      {recordings.map((recording) => (
+        <li key={recording.id}>
+          <span className="title">
+            {recording.title}
+            <br />
+            <span className="details">
+              {new Date(recording.createdAt).toLocaleString()} · {formatSize(recording.size)}
+            </span>
+          </span>
+          <Tooltip title="Download">
+            <IconButton
+              size="small"
+              onClick={() => downloadRecording(recording).catch((e) => setError(e.message))}
+            >
+              <DownloadIcon />
+            </IconButton>
+          </Tooltip>
+        </li>
+      ))}
+    </List>
+  )
+}
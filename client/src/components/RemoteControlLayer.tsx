@@ -0,0 +1,137 @@
+import React, { RefObject, useEffect, useRef } from 'react'
+import styled from 'styled-components'
+
+import { IRemoteInputEvent, RemoteInputType } from '../../../types/RemoteControl'
+import { getVideoContentRect } from '../utils/helpers'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+// pointer moves and wheel turns are batched and sent at most this often (ms)
+const INPUT_INTERVAL = 50
+const MAX_WHEEL_DELTA = 10000
+
+const Layer = styled.div`
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  outline: none;
+
+  &:focus {
+    box-shadow: inset 0 0 0 2px #42eacb;
+  }
+`
+
+interface Props {
+  computerId: string
+  presenterId: string
+  video: RefObject<HTMLVideoElement>
+}
+
+const getModifiers = ({
+  altKey,
+  ctrlKey,
+  metaKey,
+  shiftKey,
+}: React.MouseEvent | KeyboardEvent) => ({
+  altKey,
+  ctrlKey,
+  metaKey,
+  shiftKey,
+})
+
+const clampDelta = (delta: number) => Math.min(MAX_WHEEL_DELTA, Math.max(-MAX_WHEEL_DELTA, delta))
+
+/**
+ * Covers the shared screen while we control it and forwards our pointer and keyboard to the
+ * presenter, whose companion agent applies them (see RemoteControlAgent).
+ */
+export default function RemoteControlLayer({ computerId, presenterId, video }: Props) {
+  const layerRef = useRef<HTMLDivElement>(null)
+  const batch = useRef<{ move?: IRemoteInputEvent; wheel?: IRemoteInputEvent }>({})
+  const timer = useRef<number>()
+
+  const network = (phaserGame.scene.keys.game as Game).network
+  const send = (event: IRemoteInputEvent) => network.sendRemoteInput(computerId, presenterId, event)
+
+  // the batched input always goes before the next click or key
+  const flush = () => {
+    window.clearTimeout(timer.current)
+    timer.current = undefined
+    const { move, wheel } = batch.current
+    batch.current = {}
+    if (move) send(move)
+    if (wheel) send(wheel)
+  }
+
+  const schedule = () => {
+    if (!timer.current) timer.current = window.setTimeout(flush, INPUT_INTERVAL)
+  }
+
+  useEffect(() => {
+    // so that the keys go to the presenter right away
+    layerRef.current?.focus()
+    return () => window.clearTimeout(timer.current)
+  }, [])
+
+  // position on the shared screen, from 0 to 1
+  const getPosition = (event: React.MouseEvent) => {
+    const bounds = layerRef.current!.getBoundingClientRect()
+    const rect = getVideoContentRect(video.current!)
+    const clamp = (value: number) => Math.min(1, Math.max(0, value))
+    return {
+      x: clamp((event.clientX - bounds.left - rect.x) / rect.width),
+      y: clamp((event.clientY - bounds.top - rect.y) / rect.height),
+    }
+  }
+
+  const onPointer = (type: RemoteInputType) => (event: React.PointerEvent) => {
+    if (type === RemoteInputType.POINTER_MOVE) {
+      batch.current.move = { type, ...getPosition(event) }
+      return schedule()
+    }
+    if (type === RemoteInputType.POINTER_DOWN) {
+      layerRef.current?.focus()
+      event.currentTarget.setPointerCapture(event.pointerId)
+    }
+    flush()
+    send({ type, ...getPosition(event), button: event.button, ...getModifiers(event) })
+  }
+
+  const onWheel = (event: React.WheelEvent) => {
+    const { wheel } = batch.current
+    batch.current.wheel = {
+      type: RemoteInputType.WHEEL,
+      ...getPosition(event),
+      deltaX: clampDelta((wheel?.deltaX ?? 0) + event.deltaX),
+      deltaY: clampDelta((wheel?.deltaY ?? 0) + event.deltaY),
+    }
+    schedule()
+  }
+
+  const onKey = (type: RemoteInputType) => (event: React.KeyboardEvent) => {
+    // keep the keys from scrolling the page or reaching the game
+    event.preventDefault()
+    event.stopPropagation()
+    flush()
+    const key = event.key.slice(0, 32)
+    const code = event.code.slice(0, 32)
+    send({ type, key, code, ...getModifiers(event.nativeEvent) })
+  }
+
+  return (
+    <Layer
+      ref={layerRef}
+      tabIndex={0}
+      onPointerMove={onPointer(RemoteInputType.POINTER_MOVE)}
+      onPointerDown={onPointer(RemoteInputType.POINTER_DOWN)}
+      onPointerUp={onPointer(RemoteInputType.POINTER_UP)}
+      onWheel={onWheel}
+      onKeyDown={onKey(RemoteInputType.KEY_DOWN)}
+      onKeyUp={onKey(RemoteInputType.KEY_UP)}
+      onContextMenu={(event) => event.preventDefault()}
+    />
+  )
+}
@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import Button from '@mui/material/Button'
+import Checkbox from '@mui/material/Checkbox'
+import FormControlLabel from '@mui/material/FormControlLabel'
+import Tooltip from '@mui/material/Tooltip'
+
+import { useAppSelector, useAppDispatch } from '../hooks'
+import { removeControlRequest } from '../stores/ComputerStore'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+const Wrapper = styled.div`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 8px;
+
+  .request {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 2px 4px 2px 12px;
+    border-radius: 16px;
+    background: #2d3250;
+  }
+
+  .error {
+    color: #f44336;
+  }
+`
+
+// lets the presenter opt into remote control and answer the requests for it
+export default function RemoteControlPanel({ computerId }: { computerId: string }) {
+  const dispatch = useAppDispatch()
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const participants = useAppSelector((state) => state.room.participants)
+  const agentConnected = useAppSelector((state) => state.computer.agentConnected)
+  const controlRequests = useAppSelector((state) => state.computer.controlRequests)
+  const controllerId = useAppSelector((state) => state.computer.remoteControls.get(sessionId))
+  const [error, setError] = useState('')
+
+  const network = (phaserGame.scene.keys.game as Game).network
+  const getName = (id: string) => participants.get(id)?.name ?? 'Someone'
+
+  const answer = (clientId: string, granted: boolean) => {
+    network.answerRemoteControl(computerId, clientId, granted)
+    dispatch(removeControlRequest(clientId))
+  }
+
+  const toggleAgent = (enabled: boolean) => {
+    setError('')
+    if (!enabled) {
+      controlRequests.forEach((clientId) => answer(clientId, false))
+      network.remoteControl?.disable()
+      return
+    }
+    network.remoteControl?.enable().catch((e) => setError(e.message))
+  }
+
+  return (
+    <Wrapper>
+      <Tooltip title="Others can ask to control your screen, the companion agent applies their input">
+        <FormControlLabel
+          label="Allow remote control"
+          control={
+            <Checkbox
+              checked={agentConnected}
+              onChange={(event) => toggleAgent(event.target.checked)}
+            />
+          }
+        />
+      </Tooltip>
+      {error && <span className="error">{error}</span>}
+      {controllerId && (
+        <div className="request">
+          {getName(controllerId)} controls your screen
+          <Button
+            size="small"
+            color="secondary"
+            onClick={() => network.revokeRemoteControl(computerId, sessionId)}
+          >
+            Take back
+          </Button>
+        </div>
+      )}
+      {controlRequests.map((clientId) => (
+        <div className="request" key={clientId}>
+          {getName(clientId)} asks for control
+          <Button size="small" onClick={() => answer(clientId, true)}>
+            Allow
+          </Button>
+          <Button size="small" color="secondary" onClick={() => answer(clientId, false)}>
+            Deny
+          </Button>
+        </div>
+      ))}
+    </Wrapper>
+  )
+}
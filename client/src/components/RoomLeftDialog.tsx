@@ -0,0 +1,39 @@
+import React from 'react'
+import styled from 'styled-components'
+import Button from '@mui/material/Button'
+import Dialog from '@mui/material/Dialog'
+import DialogActions from '@mui/material/DialogActions'
+import DialogContent from '@mui/material/DialogContent'
+
+import { useAppSelector } from '../hooks'
+
+const StyledDialog = styled(Dialog)`
+  .MuiDialog-paper {
+    background: #222639;
+  }
+`
+
+const MessageText = styled.p`
+  margin: 10px;
+  font-size: 18px;
+  color: #eee;
+  text-align: center;
+`
+
+export default function RoomLeftDialog() {
+  const leaveReason = useAppSelector((state) => state.room.leaveReason)
+
+  return (
+    <StyledDialog open={!!leaveReason}>
+      <DialogContent>
+        <MessageText>{leaveReason}</MessageText>
+      </DialogContent>
+      <DialogActions>
+        {/* reloading brings us back to the room selection with a fresh connection */}
+        <Button color="secondary" onClick={() => window.location.reload()}>
+          Back to room selection
+        </Button>
+      </DialogActions>
+    </StyledDialog>
+  )
+}
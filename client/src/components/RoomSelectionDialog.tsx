@@ -12,6 +12,7 @@ import ArrowBackIcon from '@mui/icons-material/ArrowBack'
 
 import { CustomRoomTable } from './CustomRoomTable'
 import { CreateRoomForm } from './CreateRoomForm'
+import AccountPanel from './AccountPanel'
 import { useAppSelector } from '../hooks'
 
 import phaserGame from '../PhaserGame'
@@ -192,6 +193,7 @@ export default function RoomSelectionDialog() {
                 >
                   Create/find custom rooms
                 </Button>
+                <AccountPanel />
               </Content>
             </>
           )}
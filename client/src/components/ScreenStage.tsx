@@ -0,0 +1,374 @@
+import React, { useEffect, useRef, useState } from 'react'
+import styled from 'styled-components'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+import GestureIcon from '@mui/icons-material/Gesture'
+import NearMeIcon from '@mui/icons-material/NearMe'
+import PushPinIcon from '@mui/icons-material/PushPin'
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined'
+import FullscreenIcon from '@mui/icons-material/Fullscreen'
+import FullscreenExitIcon from '@mui/icons-material/FullscreenExit'
+import MouseIcon from '@mui/icons-material/Mouse'
+
+import {
+  ANNOTATION_LIFETIME,
+  annotationColors,
+  IScreenPointer,
+  MAX_ANNOTATION_POINTS,
+} from '../../../types/ScreenAnnotations'
+import { useAppSelector, useAppDispatch } from '../hooks'
+import { addScreenAnnotation } from '../stores/ComputerStore'
+import { getVideoContentRect } from '../utils/helpers'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+import RemoteControlLayer from './RemoteControlLayer'
+
+// the laser pointer is sent at most this often (ms)
+const POINTER_INTERVAL = 50
+const LINE_WIDTH = 4
+const POINTER_RADIUS = 6
+const LASER_COLOR = '#f44336'
+
+enum Tool {
+  NONE,
+  PEN,
+  LASER,
+}
+
+const Wrapper = styled.div`
+  position: relative;
+  width: 100%;
+  height: 100%;
+  background: black;
+  border-radius: 8px;
+  overflow: hidden;
+
+  video,
+  canvas {
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+  }
+
+  video {
+    object-fit: contain;
+  }
+
+  canvas.drawing {
+    cursor: crosshair;
+  }
+
+  canvas.pointing {
+    cursor: none;
+  }
+
+  .player-name {
+    position: absolute;
+    bottom: 16px;
+    left: 16px;
+    color: #fff;
+    text-shadow: 0 1px 2px rgb(0 0 0 / 60%), 0 0 2px rgb(0 0 0 / 30%);
+  }
+`
+
+const Toolbar = styled.div`
+  position: absolute;
+  top: 8px;
+  right: 8px;
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 2px 8px;
+  border-radius: 16px;
+  background: rgb(34 38 57 / 80%);
+
+  .MuiIconButton-root {
+    color: #eee;
+  }
+
+  .MuiIconButton-root.active {
+    color: #42eacb;
+  }
+`
+
+const Swatch = styled.button<{ $color: string; $selected: boolean }>`
+  width: 16px;
+  height: 16px;
+  padding: 0;
+  border-radius: 50%;
+  border: 2px solid ${({ $selected }) => ($selected ? '#eee' : 'transparent')};
+  background: ${({ $color }) => $color};
+  cursor: pointer;
+`
+
+interface Props {
+  computerId: string
+  // key of the stream, see IScreenAnnotation.streamId
+  streamId: string
+  stream: MediaStream
+  playerName?: string
+  // session id of the player sharing the screen, unset for our own screen
+  presenterId?: string
+  // our own screen is not played back to avoid hearing it twice
+  muted: boolean
+  pinned: boolean
+  onTogglePin: () => void
+}
+
+/**
+ * The shared screen on the stage of the computer dialog. Every user of the computer can draw on it
+ * or point at it with a laser pointer, the others see the strokes for a few seconds.
+ */
+export default function ScreenStage(props: Props) {
+  const { computerId, streamId, stream, playerName, presenterId, muted, pinned, onTogglePin } =
+    props
+  const dispatch = useAppDispatch()
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const annotations = useAppSelector((state) => state.computer.annotations)
+  const pointers = useAppSelector((state) => state.computer.pointers)
+  const controllerId = useAppSelector((state) =>
+    presenterId ? state.computer.remoteControls.get(presenterId) : undefined
+  )
+  const controlling = !!presenterId && controllerId === sessionId
+  const [tool, setTool] = useState(Tool.NONE)
+  const [color, setColor] = useState(annotationColors[0])
+  const [fullscreen, setFullscreen] = useState(false)
+
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // the stroke being drawn and our own laser pointer, only drawn locally until sent
+  const strokeRef = useRef<number[] | null>(null)
+  const pointerRef = useRef<IScreenPointer | null>(null)
+  const pendingPointer = useRef<IScreenPointer | null>(null)
+  const pointerTimer = useRef<number>()
+  // the drawing loop reads the latest props through this ref
+  const latest = useRef({ annotations, pointers, streamId, color })
+  latest.current = { annotations, pointers, streamId, color }
+
+  const network = (phaserGame.scene.keys.game as Game).network
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream
+  }, [stream])
+
+  useEffect(() => {
+    const onChange = () => setFullscreen(document.fullscreenElement === wrapperRef.current)
+    document.addEventListener('fullscreenchange', onChange)
+    return () => document.removeEventListener('fullscreenchange', onChange)
+  }, [])
+
+  // send the laser pointer, throttled, the last position is always sent
+  const sendPointer = (pointer: IScreenPointer | null) => {
+    pendingPointer.current = pointer
+    if (pointerTimer.current) return
+    network.moveScreenPointer(computerId, pointer)
+    pointerTimer.current = window.setTimeout(() => {
+      pointerTimer.current = undefined
+      if (pendingPointer.current !== pointer) sendPointer(pendingPointer.current)
+    }, POINTER_INTERVAL)
+  }
+
+  // hide our pointer when switching tools or streams and when the dialog closes
+  useEffect(() => {
+    if (tool !== Tool.LASER) return
+    return () => {
+      window.clearTimeout(pointerTimer.current)
+      pointerTimer.current = undefined
+      pointerRef.current = null
+      network.moveScreenPointer(computerId, null)
+    }
+  }, [tool, streamId, computerId])
+
+  useEffect(() => {
+    let frame: number
+    const draw = () => {
+      frame = requestAnimationFrame(draw)
+      const canvas = canvasRef.current
+      const video = videoRef.current
+      const ctx = canvas?.getContext('2d')
+      if (!canvas || !video || !ctx) return
+
+      const ratio = window.devicePixelRatio
+      const width = canvas.clientWidth * ratio
+      const height = canvas.clientHeight * ratio
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width
+        canvas.height = height
+      }
+      ctx.clearRect(0, 0, width, height)
+
+      const rect = getVideoContentRect(video)
+      const toCanvas = (x: number, y: number): [number, number] => [
+        (rect.x + x * rect.width) * ratio,
+        (rect.y + y * rect.height) * ratio,
+      ]
+      const drawStroke = (points: number[], strokeColor: string, alpha: number) => {
+        ctx.globalAlpha = alpha
+        ctx.strokeStyle = strokeColor
+        ctx.fillStyle = strokeColor
+        ctx.lineWidth = LINE_WIDTH * ratio
+        ctx.lineCap = 'round'
+        ctx.lineJoin = 'round'
+        ctx.beginPath()
+        ctx.moveTo(...toCanvas(points[0], points[1]))
+        for (let i = 2; i < points.length; i += 2) ctx.lineTo(...toCanvas(points[i], points[i + 1]))
+        if (points.length === 2) ctx.lineTo(...toCanvas(points[0], points[1]))
+        ctx.stroke()
+      }
+      const drawPointer = ({ x, y }: IScreenPointer) => {
+        ctx.globalAlpha = 1
+        ctx.fillStyle = LASER_COLOR
+        ctx.shadowColor = LASER_COLOR
+        ctx.shadowBlur = 12 * ratio
+        ctx.beginPath()
+        ctx.arc(...toCanvas(x, y), POINTER_RADIUS * ratio, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.shadowBlur = 0
+      }
+
+      const now = Date.now()
+      const { annotations, pointers, streamId, color } = latest.current
+      annotations.forEach((annotation) => {
+        const alpha = 1 - (now - annotation.receivedAt) / ANNOTATION_LIFETIME
+        if (annotation.streamId === streamId && alpha > 0) {
+          drawStroke(annotation.points, annotation.color, alpha)
+        }
+      })
+      if (strokeRef.current) drawStroke(strokeRef.current, color, 1)
+      pointers.forEach((pointer) => {
+        if (pointer.streamId === streamId) drawPointer(pointer)
+      })
+      if (pointerRef.current) drawPointer(pointerRef.current)
+    }
+    draw()
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  // position of the pointer on the shared screen, from 0 to 1
+  const getPosition = (event: React.PointerEvent) => {
+    const bounds = canvasRef.current!.getBoundingClientRect()
+    const rect = getVideoContentRect(videoRef.current!)
+    const clamp = (value: number) => Math.min(1, Math.max(0, value))
+    return {
+      x: clamp((event.clientX - bounds.left - rect.x) / rect.width),
+      y: clamp((event.clientY - bounds.top - rect.y) / rect.height),
+    }
+  }
+
+  const onPointerDown = (event: React.PointerEvent) => {
+    if (tool !== Tool.PEN) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const { x, y } = getPosition(event)
+    strokeRef.current = [x, y]
+  }
+
+  const onPointerMove = (event: React.PointerEvent) => {
+    const { x, y } = getPosition(event)
+    if (tool === Tool.LASER) {
+      pointerRef.current = { streamId, x, y }
+      sendPointer(pointerRef.current)
+    } else if (strokeRef.current && strokeRef.current.length < MAX_ANNOTATION_POINTS * 2) {
+      strokeRef.current.push(x, y)
+    }
+  }
+
+  const onPointerUp = () => {
+    const points = strokeRef.current
+    strokeRef.current = null
+    if (!points) return
+    const annotation = { streamId, color, points }
+    dispatch(addScreenAnnotation({ author: sessionId, annotation }))
+    network.annotateScreen(computerId, annotation)
+  }
+
+  const onPointerLeave = () => {
+    if (tool !== Tool.LASER) return
+    pointerRef.current = null
+    sendPointer(null)
+  }
+
+  const toggleFullscreen = () => {
+    if (fullscreen) document.exitFullscreen()
+    else wrapperRef.current?.requestFullscreen()
+  }
+
+  return (
+    <Wrapper ref={wrapperRef}>
+      <video ref={videoRef} autoPlay playsInline muted={muted} />
+      <canvas
+        ref={canvasRef}
+        className={tool === Tool.PEN ? 'drawing' : tool === Tool.LASER ? 'pointing' : ''}
+        style={{ pointerEvents: tool === Tool.NONE ? 'none' : 'auto' }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={onPointerLeave}
+      />
+      {/* our input goes to the presenter unless we are annotating */}
+      {controlling && tool === Tool.NONE && (
+        <RemoteControlLayer computerId={computerId} presenterId={presenterId!} video={videoRef} />
+      )}
+      {playerName && <div className="player-name">{playerName}</div>}
+      <Toolbar>
+        <Tooltip title="Draw">
+          <IconButton
+            size="small"
+            className={tool === Tool.PEN ? 'active' : ''}
+            onClick={() => setTool(tool === Tool.PEN ? Tool.NONE : Tool.PEN)}
+          >
+            <GestureIcon />
+          </IconButton>
+        </Tooltip>
+        {tool === Tool.PEN &&
+          annotationColors.map((swatch) => (
+            <Swatch
+              key={swatch}
+              aria-label={swatch}
+              $color={swatch}
+              $selected={swatch === color}
+              onClick={() => setColor(swatch)}
+            />
+          ))}
+        <Tooltip title="Laser pointer">
+          <IconButton
+            size="small"
+            className={tool === Tool.LASER ? 'active' : ''}
+            onClick={() => setTool(tool === Tool.LASER ? Tool.NONE : Tool.LASER)}
+          >
+            <NearMeIcon />
+          </IconButton>
+        </Tooltip>
+        {presenterId && (
+          <Tooltip title={controlling ? 'Give control back' : 'Request control'}>
+            <IconButton
+              size="small"
+              className={controlling ? 'active' : ''}
+              onClick={() =>
+                controlling
+                  ? network.revokeRemoteControl(computerId, presenterId)
+                  : network.requestRemoteControl(computerId, presenterId)
+              }
+            >
+              <MouseIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+        <Tooltip title={pinned ? 'Unpin' : 'Keep on the stage'}>
+          <IconButton size="small" onClick={onTogglePin}>
+            {pinned ? <PushPinIcon /> : <PushPinOutlinedIcon />}
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={fullscreen ? 'Exit fullscreen' : 'Fullscreen'}>
+          <IconButton size="small" onClick={toggleFullscreen}>
+            {fullscreen ? <FullscreenExitIcon /> : <FullscreenIcon />}
+          </IconButton>
+        </Tooltip>
+      </Toolbar>
+    </Wrapper>
+  )
+}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react'
+import styled from 'styled-components'
+import Fab from '@mui/material/Fab'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
+import Tooltip from '@mui/material/Tooltip'
+
+import { PlayerStatus, playerStatuses } from '../../../types/PlayerStatus'
+import { useAppSelector } from '../hooks'
+import { statusColors, statusLabels } from '../utils/presence'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+export const StatusDot = styled.span<{ $status: PlayerStatus }>`
+  display: inline-block;
+  flex-shrink: 0;
+  width: 10px;
+  height: 10px;
+  border-radius: 50%;
+  background: ${({ $status }) => statusColors[$status]};
+`
+
+const StyledFab = styled(Fab)`
+  ${StatusDot} {
+    width: 16px;
+    height: 16px;
+  }
+`
+
+const StatusItem = styled(MenuItem)`
+  gap: 10px;
+`
+
+export default function StatusSelector() {
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const status = useAppSelector(
+    (state) => state.room.participants.get(sessionId)?.status ?? PlayerStatus.AVAILABLE
+  )
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+
+  const selectStatus = (status: PlayerStatus) => {
+    const game = phaserGame.scene.keys.game as Game
+    game.network.presence?.setStatus(status)
+    setAnchorEl(null)
+  }
+
+  return (
+    <>
+      <Tooltip title={`Status: ${statusLabels[status]}`}>
+        <StyledFab size="small" onClick={(event) => setAnchorEl(event.currentTarget)}>
+          <StatusDot $status={status} />
+        </StyledFab>
+      </Tooltip>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        {playerStatuses.map((option) => (
+          <StatusItem
+            key={option}
+            selected={option === status}
+            onClick={() => selectStatus(option)}
+          >
+            <StatusDot $status={option} />
+            {statusLabels[option]}
+          </StatusItem>
+        ))}
+      </Menu>
+    </>
+  )
+}
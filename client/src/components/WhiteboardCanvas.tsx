@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react'
+import styled from 'styled-components'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+import ToggleButton from '@mui/material/ToggleButton'
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup'
+import BrushIcon from '@mui/icons-material/Brush'
+import HorizontalRuleIcon from '@mui/icons-material/HorizontalRule'
+import CropSquareIcon from '@mui/icons-material/CropSquare'
+import PanoramaFishEyeIcon from '@mui/icons-material/PanoramaFishEye'
+import TextFieldsIcon from '@mui/icons-material/TextFields'
+import AutoFixNormalIcon from '@mui/icons-material/AutoFixNormal'
+import UndoIcon from '@mui/icons-material/Undo'
+
+import {
+  IWhiteboardStroke,
+  WhiteboardTool,
+  WHITEBOARD_WIDTH,
+  WHITEBOARD_HEIGHT,
+} from '../../../types/Whiteboard'
+import { useAppSelector, useAppDispatch } from '../hooks'
+import { addWhiteboardStroke } from '../stores/WhiteboardStore'
+import { drawStroke } from '../utils/whiteboard'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+const colors = ['#000000', '#e53935', '#1e88e5', '#43a047', '#fb8c00', '#8e24aa']
+const sizes = [2, 4, 8, 16]
+
+const tools = [
+  { tool: WhiteboardTool.PEN, title: 'Pen', icon: <BrushIcon /> },
+  { tool: WhiteboardTool.LINE, title: 'Line', icon: <HorizontalRuleIcon /> },
+  { tool: WhiteboardTool.RECTANGLE, title: 'Rectangle', icon: <CropSquareIcon /> },
+  { tool: WhiteboardTool.ELLIPSE, title: 'Ellipse', icon: <PanoramaFishEyeIcon /> },
+  { tool: WhiteboardTool.TEXT, title: 'Text', icon: <TextFieldsIcon /> },
+  { tool: WhiteboardTool.ERASER, title: 'Eraser', icon: <AutoFixNormalIcon /> },
+]
+
+const Wrapper = styled.div`
+  flex: 1;
+  min-height: 0;
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  margin-right: 25px;
+`
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 16px;
+
+  .MuiToggleButton-root {
+    color: #eee;
+    border-color: #42eacb40;
+  }
+
+  .MuiToggleButton-root.Mui-selected {
+    color: #42eacb;
+    background: #42eacb20;
+  }
+
+  .MuiIconButton-root {
+    color: #eee;
+  }
+`
+
+const ColorButton = styled.button<{ $color: string; $selected: boolean }>`
+  width: 24px;
+  height: 24px;
+  border-radius: 50%;
+  background: ${({ $color }) => $color};
+  border: 2px solid ${({ $selected }) => ($selected ? '#42eacb' : '#eee')};
+  cursor: pointer;
+`
+
+const SizeDot = styled.div<{ $size: number }>`
+  width: ${({ $size }) => $size}px;
+  height: ${({ $size }) => $size}px;
+  border-radius: 50%;
+  background: currentColor;
+`
+
+const Board = styled.div`
+  flex: 1;
+  min-height: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+
+  canvas {
+    max-width: 100%;
+    max-height: 100%;
+    background: #fff;
+    border-radius: 25px;
+    touch-action: none;
+  }
+`
+
+const TextInput = styled.input`
+  position: fixed;
+  min-width: 200px;
+  padding: 4px;
+  border: 1px dashed #42eacb;
+  background: #ffffffcc;
+  outline: none;
+`
+
+function createStrokeId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export default function WhiteboardCanvas() {
+  const whiteboardId = useAppSelector((state) => state.whiteboard.whiteboardId)
+  const strokes = useAppSelector((state) => state.whiteboard.strokes)
+  const sessionId = useAppSelector((state) => state.user.sessionId)
+  const dispatch = useAppDispatch()
+  const [tool, setTool] = useState(WhiteboardTool.PEN)
+  const [color, setColor] = useState(colors[0])
+  const [size, setSize] = useState(sizes[1])
+  // where the text being typed will be placed, both on the board and on the screen
+  const [textPosition, setTextPosition] = useState<{
+    x: number
+    y: number
+    clientX: number
+    clientY: number
+  } | null>(null)
+  const [text, setText] = useState('')
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // stroke being drawn, only sent once the pointer is released
+  const currentStroke = useRef<IWhiteboardStroke | null>(null)
+
+  const game = phaserGame.scene.keys.game as Game
+
+  const redraw = () => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    ctx.clearRect(0, 0, WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT)
+    strokes.forEach((stroke) => drawStroke(ctx, stroke))
+    if (currentStroke.current) drawStroke(ctx, currentStroke.current)
+  }
+
+  useEffect(redraw, [strokes])
+
+  const undo = () => {
+    if (whiteboardId) game.network.undoWhiteboardStroke(whiteboardId)
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return
+      if ((event.ctrlKey || event.metaKey) && event.key === 'z') {
+        event.preventDefault()
+        undo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  // drawn right away, the server sends the stroke back once accepted or removes it if rejected
+  const addStroke = (stroke: IWhiteboardStroke) => {
+    if (!whiteboardId) return
+    dispatch(addWhiteboardStroke({ whiteboardId, stroke }))
+    game.network.addWhiteboardStroke(whiteboardId, stroke)
+  }
+
+  // convert the pointer position to board coordinates
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.round(((event.clientX - rect.left) / rect.width) * WHITEBOARD_WIDTH),
+      y: Math.round(((event.clientY - rect.top) / rect.height) * WHITEBOARD_HEIGHT),
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = getPoint(event)
+    if (tool === WhiteboardTool.TEXT) {
+      // a click outside of the open text input only submits it (on blur)
+      if (textPosition) return
+      setTextPosition({ x, y, clientX: event.clientX, clientY: event.clientY })
+      return
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    currentStroke.current = {
+      id: createStrokeId(),
+      author: sessionId,
+      tool,
+      color,
+      // erase with a wider brush than the pen so that mistakes are quick to clean up
+      size: tool === WhiteboardTool.ERASER ? size * 4 : size,
+      points: [x, y],
+    }
+    redraw()
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStroke.current
+    if (!stroke) return
+    const { x, y } = getPoint(event)
+    const { points } = stroke
+
+    if (stroke.tool === WhiteboardTool.PEN || stroke.tool === WhiteboardTool.ERASER) {
+      const lastX = points[points.length - 2]
+      const lastY = points[points.length - 1]
+      if (lastX === x && lastY === y) return
+      points.push(x, y)
+    } else {
+      stroke.points = [points[0], points[1], x, y]
+    }
+    redraw()
+  }
+
+  const handlePointerUp = () => {
+    const stroke = currentStroke.current
+    if (!stroke) return
+    currentStroke.current = null
+    addStroke(stroke)
+  }
+
+  const submitText = () => {
+    if (textPosition && text.trim()) {
+      addStroke({
+        id: createStrokeId(),
+        author: sessionId,
+        tool: WhiteboardTool.TEXT,
+        color,
+        size,
+        points: [textPosition.x, textPosition.y],
+        text: text.trim(),
+      })
+    }
+    setTextPosition(null)
+    setText('')
+  }
+
+  return (
+    <Wrapper>
+      <Toolbar>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={tool}
+          onChange={(event, value) => value !== null && setTool(value)}
+        >
+          {tools.map(({ tool, title, icon }) => (
+            <ToggleButton key={tool} value={tool} aria-label={title}>
+              <Tooltip title={title}>{icon}</Tooltip>
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        {colors.map((c) => (
+          <ColorButton
+            key={c}
+            $color={c}
+            $selected={c === color}
+            aria-label={`color ${c}`}
+            onClick={() => setColor(c)}
+          />
+        ))}
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={size}
+          onChange={(event, value) => value !== null && setSize(value)}
+        >
+          {sizes.map((s) => (
+            <ToggleButton key={s} value={s} aria-label={`size ${s}`}>
+              <SizeDot $size={s + 2} />
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Tooltip title="Undo (Ctrl+Z)">
+          <IconButton aria-label="undo" onClick={undo}>
+            <UndoIcon />
+          </IconButton>
+        </Tooltip>
+      </Toolbar>
+      <Board>
+        <canvas
+          ref={canvasRef}
+          width={WHITEBOARD_WIDTH}
+          height={WHITEBOARD_HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </Board>
+      {textPosition && (
+        <TextInput
+          autoFocus
+          value={text}
+          placeholder="Type and press Enter"
+          style={{ left: textPosition.clientX, top: textPosition.clientY, color }}
+          onChange={(event) => setText(event.target.value)}
+          onBlur={submitText}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') submitText()
+            if (event.key === 'Escape') {
+              setTextPosition(null)
+              setText('')
+            }
+          }}
+        />
+      )}
+    </Wrapper>
+  )
+}
@@ -1,10 +1,25 @@
-import React from 'react'
+import React, { useRef, useState } from 'react'
 import styled from 'styled-components'
+import Alert from '@mui/material/Alert'
+import Button from '@mui/material/Button'
 import IconButton from '@mui/material/IconButton'
+import Menu from '@mui/material/Menu'
+import MenuItem from '@mui/material/MenuItem'
+import Snackbar from '@mui/material/Snackbar'
 import CloseIcon from '@mui/icons-material/Close'
+import FileDownloadIcon from '@mui/icons-material/FileDownload'
+import FileUploadIcon from '@mui/icons-material/FileUpload'
 
+import { IWhiteboardDocument } from '../../../types/Whiteboard'
 import { useAppSelector, useAppDispatch } from '../hooks'
-import { closeWhiteboardDialog } from '../stores/WhiteboardStore'
+import { closeWhiteboardDialog, setWhiteboardImportError } from '../stores/WhiteboardStore'
+import { toDocument, toPng, toSvg } from '../utils/whiteboard'
+import { downloadFile } from '../utils/helpers'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+import WhiteboardCanvas from './WhiteboardCanvas'
 
 const Backdrop = styled.div`
   position: fixed;
@@ -27,6 +42,7 @@ const Wrapper = styled.div`
   position: relative;
   display: flex;
   flex-direction: column;
+  gap: 10px;
   min-width: max-content;
 
   .close {
@@ -36,25 +52,75 @@ const Wrapper = styled.div`
   }
 `
 
-const WhiteboardWrapper = styled.div`
-  flex: 1;
-  border-radius: 25px;
-  overflow: hidden;
+const Actions = styled.div`
+  display: flex;
+  gap: 10px;
   margin-right: 25px;
-
-  iframe {
-    width: 100%;
-    height: 100%;
-    background: #fff;
-  }
 `
 
 export default function WhiteboardDialog() {
-  const whiteboardUrl = useAppSelector((state) => state.whiteboard.whiteboardUrl)
+  const whiteboardId = useAppSelector((state) => state.whiteboard.whiteboardId)
+  const strokes = useAppSelector((state) => state.whiteboard.strokes)
+  const importError = useAppSelector((state) => state.whiteboard.importError)
   const dispatch = useAppDispatch()
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<null | HTMLElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const exportBoard = (format: 'svg' | 'png' | 'json') => {
+    setExportMenuAnchor(null)
+    const fileName = `whiteboard-${whiteboardId}.${format}`
+    switch (format) {
+      case 'svg':
+        downloadFile(toSvg(strokes), fileName, 'image/svg+xml')
+        break
+      case 'png':
+        toPng(strokes)
+          .then((blob) => downloadFile(blob, fileName, 'image/png'))
+          .catch((error) => console.error(error))
+        break
+      case 'json':
+        downloadFile(JSON.stringify(toDocument(strokes)), fileName, 'application/json')
+        break
+    }
+  }
+
+  // the document is only parsed here, the server validates it before adding it to the board
+  const importBoard = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !whiteboardId) return
+
+    file
+      .text()
+      .then((content) => {
+        const whiteboardDocument: IWhiteboardDocument = JSON.parse(content)
+        const game = phaserGame.scene.keys.game as Game
+        game.network.importWhiteboard(whiteboardId, whiteboardDocument)
+      })
+      .catch(() => {
+        dispatch(setWhiteboardImportError({ whiteboardId, error: 'The file is not valid JSON' }))
+      })
+  }
 
   return (
     <Backdrop>
+      <Snackbar
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        open={!!importError}
+        autoHideDuration={3000}
+        onClose={() => {
+          if (whiteboardId) dispatch(setWhiteboardImportError({ whiteboardId, error: null }))
+        }}
+      >
+        <Alert
+          severity="error"
+          variant="outlined"
+          // overwrites the dark theme on render
+          style={{ background: '#fdeded', color: '#7d4747' }}
+        >
+          {importError}
+        </Alert>
+      </Snackbar>
       <Wrapper>
         <IconButton
           aria-label="close dialog"
@@ -63,11 +129,41 @@ export default function WhiteboardDialog() {
         >
           <CloseIcon />
         </IconButton>
-        {whiteboardUrl && (
-          <WhiteboardWrapper>
-            <iframe title="white board" src={whiteboardUrl} />
-          </WhiteboardWrapper>
-        )}
+        <Actions>
+          <Button
+            variant="outlined"
+            color="secondary"
+            startIcon={<FileDownloadIcon />}
+            onClick={(event) => setExportMenuAnchor(event.currentTarget)}
+          >
+            Export
+          </Button>
+          <Menu
+            anchorEl={exportMenuAnchor}
+            open={!!exportMenuAnchor}
+            onClose={() => setExportMenuAnchor(null)}
+          >
+            <MenuItem onClick={() => exportBoard('svg')}>SVG image</MenuItem>
+            <MenuItem onClick={() => exportBoard('png')}>PNG image</MenuItem>
+            <MenuItem onClick={() => exportBoard('json')}>JSON document</MenuItem>
+          </Menu>
+          <Button
+            variant="outlined"
+            color="secondary"
+            startIcon={<FileUploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={importBoard}
+          />
+        </Actions>
+        {whiteboardId && <WhiteboardCanvas />}
       </Wrapper>
     </Backdrop>
   )
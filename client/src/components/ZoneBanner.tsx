@@ -0,0 +1,92 @@
+import React from 'react'
+import styled from 'styled-components'
+import Button from '@mui/material/Button'
+import IconButton from '@mui/material/IconButton'
+import Tooltip from '@mui/material/Tooltip'
+import LockIcon from '@mui/icons-material/Lock'
+import LockOpenIcon from '@mui/icons-material/LockOpen'
+
+import { RecordingScope } from '../../../types/Recordings'
+import { useAppSelector } from '../hooks'
+
+import phaserGame from '../PhaserGame'
+import Game from '../scenes/Game'
+
+import RecordButton from './RecordButton'
+
+const Wrapper = styled.div`
+  position: fixed;
+  top: 16px;
+  left: 50%;
+  transform: translateX(-50%);
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 8px;
+`
+
+const Banner = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 16px;
+  border-radius: 16px;
+  background: #222639;
+  box-shadow: 0px 0px 5px #0000006f;
+  color: #eee;
+
+  svg {
+    font-size: 18px;
+    color: #42eacb;
+  }
+
+  .MuiIconButton-root {
+    padding: 2px;
+  }
+`
+
+// shown while our player is in a private zone, where only the players inside can be heard
+export default function ZoneBanner() {
+  const zone = useAppSelector((state) => state.user.zone)
+  const meetingRoom = useAppSelector((state) => state.room.meetingRooms.get(state.user.zone))
+  const participants = useAppSelector((state) => state.room.participants)
+  if (!zone) return null
+
+  const game = phaserGame.scene.keys.game as Game
+
+  return (
+    <Wrapper>
+      <Banner>
+        {meetingRoom?.locked ? <LockIcon /> : <LockOpenIcon />}
+        {zone}
+        {/* only the zones with doors are meeting rooms that can be locked */}
+        {meetingRoom && (
+          <Tooltip title={meetingRoom.locked ? 'Unlock the room' : 'Lock the room'}>
+            <IconButton
+              aria-label={meetingRoom.locked ? 'unlock' : 'lock'}
+              onClick={() => game.network.lockMeetingRoom(zone, !meetingRoom.locked)}
+            >
+              {meetingRoom.locked ? <LockOpenIcon /> : <LockIcon />}
+            </IconButton>
+          </Tooltip>
+        )}
+        <RecordButton scope={RecordingScope.ZONE} target={zone} />
+      </Banner>
+      {meetingRoom?.knocks.map((id) => (
+        <Banner key={id}>
+          {participants.get(id)?.name ?? 'Someone'} is knocking
+          <Button size="small" onClick={() => game.network.answerKnock(zone, id, true)}>
+            Let in
+          </Button>
+          <Button
+            size="small"
+            color="secondary"
+            onClick={() => game.network.answerKnock(zone, id, false)}
+          >
+            Ignore
+          </Button>
+        </Banner>
+      ))}
+    </Wrapper>
+  )
+}
@@ -7,11 +7,17 @@ export enum Event {
   PLAYER_UPDATED = 'player-updated',
   PLAYER_LEFT = 'player-left',
   PLAYER_DISCONNECTED = 'player-disconnected',
+  PLAYER_RECONNECTED = 'player-reconnected',
   MY_PLAYER_READY = 'my-player-ready',
   MY_PLAYER_NAME_CHANGE = 'my-player-name-change',
   MY_PLAYER_TEXTURE_CHANGE = 'my-player-texture-change',
   MY_PLAYER_VIDEO_CONNECTED = 'my-player-video-connected',
+  MY_PLAYER_POSITION_RESET = 'my-player-position-reset',
+  MY_PLAYER_STATUS_CHANGE = 'my-player-status-change',
+  MY_PLAYER_ZONE_CHANGE = 'my-player-zone-change',
   ITEM_USER_ADDED = 'item-user-added',
   ITEM_USER_REMOVED = 'item-user-removed',
   UPDATE_DIALOG_BUBBLE = 'update-dialog-bubble',
+  RECONNECTED = 'reconnected',
+  MEDIA_MODE_CHANGED = 'media-mode-changed',
 }
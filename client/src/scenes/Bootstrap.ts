@@ -1,6 +1,8 @@
 import Phaser from 'phaser'
 import Network from '../services/Network'
 import { BackgroundMode } from '../../../types/BackgroundMode'
+import { mapLayouts } from '../../../types/Maps'
+import { playerTextures } from '../../../types/Characters'
 import store from '../stores'
 import { setRoomJoined } from '../stores/RoomStore'
 
@@ -27,7 +29,10 @@ export default class Bootstrap extends Phaser.Scene {
     this.load.image('backdrop_night', 'assets/background/backdrop_night.png')
     this.load.image('sun_moon', 'assets/background/sun_moon.png')
 
-    this.load.tilemapTiledJSON('tilemap', 'assets/map/map.json')
+    // load every map layout, the one to render is only known after joining a room
+    Object.entries(mapLayouts).forEach(([mapId, { file }]) => {
+      this.load.tilemapTiledJSON(`tilemap_${mapId}`, `assets/map/${file}`)
+    })
     this.load.spritesheet('tiles_wall', 'assets/map/FloorAndGround.png', {
       frameWidth: 32,
       frameHeight: 32,
@@ -60,21 +65,12 @@ export default class Bootstrap extends Phaser.Scene {
       frameWidth: 32,
       frameHeight: 32,
     })
-    this.load.spritesheet('adam', 'assets/character/adam.png', {
-      frameWidth: 32,
-      frameHeight: 48,
-    })
-    this.load.spritesheet('ash', 'assets/character/ash.png', {
-      frameWidth: 32,
-      frameHeight: 48,
-    })
-    this.load.spritesheet('lucy', 'assets/character/lucy.png', {
-      frameWidth: 32,
-      frameHeight: 48,
-    })
-    this.load.spritesheet('nancy', 'assets/character/nancy.png', {
-      frameWidth: 32,
-      frameHeight: 48,
+    // the server only accepts these textures (see Message.UPDATE_PLAYER_TEXTURE)
+    playerTextures.forEach((texture) => {
+      this.load.spritesheet(texture, `assets/character/${texture}.png`, {
+        frameWidth: 32,
+        frameHeight: 48,
+      })
     })
 
     this.load.on('complete', () => {
@@ -96,6 +92,7 @@ export default class Bootstrap extends Phaser.Scene {
     this.network.webRTC?.checkPreviousPermission()
     this.scene.launch('game', {
       network: this.network,
+      mapId: store.getState().room.mapId,
     })
 
     // update Redux state
@@ -103,6 +100,8 @@ export default class Bootstrap extends Phaser.Scene {
   }
 
   changeBackgroundMode(backgroundMode: BackgroundMode) {
+    // the background is launched with the mode in the store once everything is loaded
+    if (!this.preloadComplete) return
     this.scene.stop('background')
     this.launchBackground(backgroundMode)
   }
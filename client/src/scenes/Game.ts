@@ -12,15 +12,23 @@ import '../characters/MyPlayer'
 import '../characters/OtherPlayer'
 import MyPlayer from '../characters/MyPlayer'
 import OtherPlayer from '../characters/OtherPlayer'
+import Player from '../characters/Player'
 import PlayerSelector from '../characters/PlayerSelector'
 import Network from '../services/Network'
 import { IPlayer } from '../../../types/IOfficeState'
 import { PlayerBehavior } from '../../../types/PlayerBehavior'
+import { PlayerStatus } from '../../../types/PlayerStatus'
 import { ItemType } from '../../../types/Items'
+import { MapId, mapLayouts } from '../../../types/Maps'
 
 import store from '../stores'
 import { setFocused, setShowChat } from '../stores/ChatStore'
+import { setBumpedDoor } from '../stores/RoomStore'
 import { NavKeys, Keyboard } from '../../../types/KeyboardState'
+import { NavGrid } from '../utils/pathfinding'
+
+// size of the pathfinding cells, half a tile so that the paths fit in narrow corridors
+const NAV_CELL_SIZE = 16
 
 export default class Game extends Phaser.Scene {
   network!: Network
@@ -28,12 +36,19 @@ export default class Game extends Phaser.Scene {
   private keyE!: Phaser.Input.Keyboard.Key
   private keyR!: Phaser.Input.Keyboard.Key
   private map!: Phaser.Tilemaps.Tilemap
+  private groundLayer!: Phaser.Tilemaps.TilemapLayer
+  private doors!: Phaser.Physics.Arcade.StaticGroup
+  // the static groups myPlayer collides with, the paths go around them
+  private obstacles: Phaser.Physics.Arcade.StaticGroup[] = []
+  private mapSnapshot?: Promise<{ src: string; width: number; height: number }>
   myPlayer!: MyPlayer
   private playerSelector!: Phaser.GameObjects.Zone
   private otherPlayers!: Phaser.Physics.Arcade.Group
   private otherPlayerMap = new Map<string, OtherPlayer>()
   computerMap = new Map<string, Computer>()
   private whiteboardMap = new Map<string, Whiteboard>()
+  // when myPlayer last walked into a locked door, see handleDoorBump
+  private lastDoorBumpAt = 0
 
   constructor() {
     super('game')
@@ -66,7 +81,7 @@ export default class Game extends Phaser.Scene {
     this.input.keyboard.enabled = true
   }
 
-  create(data: { network: Network }) {
+  create(data: { network: Network; mapId: MapId }) {
     if (!data.network) {
       throw new Error('server instance missing')
     } else {
@@ -75,15 +90,17 @@ export default class Game extends Phaser.Scene {
 
     createCharacterAnims(this.anims)
 
-    this.map = this.make.tilemap({ key: 'tilemap' })
+    this.map = this.make.tilemap({ key: `tilemap_${data.mapId}` })
     const FloorAndGround = this.map.addTilesetImage('FloorAndGround', 'tiles_wall')
 
     const groundLayer = this.map.createLayer('Ground', FloorAndGround)
     groundLayer.setCollisionByProperty({ collides: true })
+    this.groundLayer = groundLayer
 
     // debugDraw(groundLayer, this)
 
-    this.myPlayer = this.add.myPlayer(705, 500, 'adam', this.network.mySessionId)
+    const { spawn } = mapLayouts[data.mapId]
+    this.myPlayer = this.add.myPlayer(spawn.x, spawn.y, 'adam', this.network.mySessionId)
     this.playerSelector = new PlayerSelector(this, 0, 0, 16, 16)
 
     // import chair objects from Tiled map to Phaser
@@ -98,10 +115,11 @@ export default class Game extends Phaser.Scene {
     // import computers objects from Tiled map to Phaser
     const computers = this.physics.add.staticGroup({ classType: Computer })
     const computerLayer = this.map.getObjectLayer('Computer')
-    computerLayer.objects.forEach((obj, i) => {
+    computerLayer.objects.forEach((obj) => {
       const item = this.addObjectFromTiled(computers, obj, 'computers', 'computer') as Computer
       item.setDepth(item.y + item.height * 0.27)
-      const id = `${i}`
+      // the server creates computers keyed by the same Tiled object id
+      const id = `${obj.id}`
       item.id = id
       this.computerMap.set(id, item)
     })
@@ -109,14 +127,15 @@ export default class Game extends Phaser.Scene {
     // import whiteboards objects from Tiled map to Phaser
     const whiteboards = this.physics.add.staticGroup({ classType: Whiteboard })
     const whiteboardLayer = this.map.getObjectLayer('Whiteboard')
-    whiteboardLayer.objects.forEach((obj, i) => {
+    whiteboardLayer.objects.forEach((obj) => {
       const item = this.addObjectFromTiled(
         whiteboards,
         obj,
         'whiteboards',
         'whiteboard'
       ) as Whiteboard
-      const id = `${i}`
+      // the server creates whiteboards keyed by the same Tiled object id
+      const id = `${obj.id}`
       item.id = id
       this.whiteboardMap.set(id, item)
     })
@@ -128,6 +147,21 @@ export default class Game extends Phaser.Scene {
       this.addObjectFromTiled(vendingMachines, obj, 'vendingmachines', 'vendingmachine')
     })
 
+    // import the meeting room doors from Tiled map to Phaser, they are invisible and only collide
+    // while their room is locked (see isDoorClosed)
+    const doors = this.physics.add.staticGroup()
+    this.doors = doors
+    this.map.getObjectLayer('Doors')?.objects.forEach((obj) => {
+      const door = this.add.zone(
+        obj.x! + obj.width! * 0.5,
+        obj.y! + obj.height! * 0.5,
+        obj.width!,
+        obj.height!
+      )
+      door.setData('zone', obj.properties?.find((p) => p.name === 'zone')?.value)
+      doors.add(door)
+    })
+
     // import other objects from Tiled map to Phaser
     this.addGroupFromTiled('Wall', 'tiles_wall', 'FloorAndGround', false)
     this.addGroupFromTiled('Objects', 'office', 'Modern_Office_Black_Shadow', false)
@@ -136,6 +170,8 @@ export default class Game extends Phaser.Scene {
     this.addGroupFromTiled('GenericObjectsOnCollide', 'generic', 'Generic', true)
     this.addGroupFromTiled('Basement', 'basement', 'Basement', true)
 
+    this.obstacles.push(vendingMachines)
+
     this.otherPlayers = this.physics.add.group({ classType: OtherPlayer })
 
     this.cameras.main.zoom = 1.5
@@ -143,6 +179,13 @@ export default class Game extends Phaser.Scene {
 
     this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], groundLayer)
     this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], vendingMachines)
+    this.physics.add.collider(
+      [this.myPlayer, this.myPlayer.playerContainer],
+      doors,
+      this.handleDoorBump,
+      this.isDoorClosed,
+      this
+    )
 
     this.physics.add.overlap(
       this.playerSelector,
@@ -160,15 +203,26 @@ export default class Game extends Phaser.Scene {
       this
     )
 
+    // click somewhere on the map to walk there
+    this.input.on(Phaser.Input.Events.POINTER_DOWN, (pointer: Phaser.Input.Pointer) => {
+      if (pointer.leftButtonDown()) this.navigateTo(pointer.worldX, pointer.worldY)
+    })
+
     // register network event listeners
     this.network.onPlayerJoined(this.handlePlayerJoined, this)
     this.network.onPlayerLeft(this.handlePlayerLeft, this)
     this.network.onMyPlayerReady(this.handleMyPlayerReady, this)
     this.network.onMyPlayerVideoConnected(this.handleMyVideoConnected, this)
+    this.network.onMyPlayerPositionReset(this.handleMyPlayerPositionReset, this)
+    this.network.onMyPlayerStatusChange(this.handleMyPlayerStatusChange, this)
+    this.network.onMyPlayerZoneChange(this.handleMyPlayerZoneChange, this)
     this.network.onPlayerUpdated(this.handlePlayerUpdated, this)
     this.network.onItemUserAdded(this.handleItemUserAdded, this)
     this.network.onItemUserRemoved(this.handleItemUserRemoved, this)
     this.network.onChatMessageAdded(this.handleChatMessageAdded, this)
+    this.network.onPlayerReconnected(this.handlePlayerReconnected, this)
+    this.network.onReconnected(this.handleReconnected, this)
+    this.network.onMediaModeChanged(this.handleMediaModeChanged, this)
   }
 
   private handleItemSelectorOverlap(playerSelector, selectionItem) {
@@ -217,13 +271,109 @@ export default class Game extends Phaser.Scene {
         .get(actualX, actualY, key, object.gid! - this.map.getTileset(tilesetName).firstgid)
         .setDepth(actualY)
     })
-    if (this.myPlayer && collidable)
+    if (this.myPlayer && collidable) {
       this.physics.add.collider([this.myPlayer, this.myPlayer.playerContainer], group)
+      this.obstacles.push(group)
+    }
+  }
+
+  // what myPlayer's body cannot walk through right now, the locked doors included
+  private createNavGrid() {
+    const { width, height } = this.myPlayer.body
+    const grid = new NavGrid(this.map.widthInPixels, this.map.heightInPixels, NAV_CELL_SIZE, {
+      width,
+      height,
+    })
+    // nothing to stand on where the map has no ground
+    this.groundLayer.forEachTile((tile) => {
+      if (tile.collides || tile.index === -1)
+        grid.block(tile.pixelX, tile.pixelY, tile.width, tile.height)
+    })
+    const blockBodies = (children: Phaser.GameObjects.GameObject[]) => {
+      children.forEach((child) => {
+        const body = child.body as Phaser.Physics.Arcade.StaticBody
+        grid.block(body.x, body.y, body.width, body.height)
+      })
+    }
+    this.obstacles.forEach((group) => blockBodies(group.getChildren()))
+    blockBodies(this.doors.getChildren().filter((door) => this.isDoorClosed(this.myPlayer, door)))
+    return grid
+  }
+
+  /**
+   * Walk myPlayer to a location of the map along the shortest path around the obstacles, a
+   * movement key cancels it. Returns false when there is no way there.
+   */
+  navigateTo(x: number, y: number) {
+    if (this.myPlayer.playerBehavior !== PlayerBehavior.IDLE) return false
+    const { center } = this.myPlayer.body
+    const path = this.createNavGrid().findPath({ x: center.x, y: center.y }, { x, y })
+    if (!path) return false
+    this.myPlayer.walkPath(path)
+    return true
+  }
+
+  // picture of the whole map without the players, for the minimap (the scenery never changes)
+  snapshotMap() {
+    if (this.mapSnapshot) return this.mapSnapshot
+    const { widthInPixels: width, heightInPixels: height } = this.map
+    const scenery = this.children.list
+      .filter(
+        (child) =>
+          child instanceof Phaser.Tilemaps.TilemapLayer ||
+          (child instanceof Phaser.GameObjects.Sprite && !(child instanceof Player))
+      )
+      .sort(
+        (a, b) => (a as Phaser.GameObjects.Sprite).depth - (b as Phaser.GameObjects.Sprite).depth
+      )
+    const texture = this.make.renderTexture({ width, height }, false).draw(scenery)
+    this.mapSnapshot = new Promise((resolve) => {
+      texture.snapshot((image) => {
+        texture.destroy()
+        resolve({ src: (image as HTMLImageElement).src, width, height })
+      })
+    })
+    return this.mapSnapshot
+  }
+
+  // where everyone is and which computers and whiteboards are in use, for the minimap
+  getMinimapState() {
+    const items = [...this.computerMap.values(), ...this.whiteboardMap.values()]
+    const view = this.cameras.main.worldView
+    return {
+      myPlayer: { x: this.myPlayer.x, y: this.myPlayer.y },
+      otherPlayers: Array.from(this.otherPlayerMap, ([id, { x, y }]) => ({ id, x, y })),
+      occupiedItems: items
+        .filter((item) => item.currentUsers.size > 0)
+        .map((item) => {
+          const { x, y, width, height } = item.getBounds()
+          return {
+            id: item.id!,
+            itemType: item.itemType,
+            users: item.currentUsers.size,
+            x,
+            y,
+            width,
+            height,
+          }
+        }),
+      // the part of the map on screen
+      view: { x: view.x, y: view.y, width: view.width, height: view.height },
+    }
+  }
+
+  // walk up to where another player stands
+  navigateToPlayer(id: string) {
+    const otherPlayer = this.otherPlayerMap.get(id)
+    if (!otherPlayer) return false
+    const { center } = otherPlayer.body
+    return this.navigateTo(center.x, center.y)
   }
 
   // function to add new player to the otherPlayer group
   private handlePlayerJoined(newPlayer: IPlayer, id: string) {
-    const otherPlayer = this.add.otherPlayer(newPlayer.x, newPlayer.y, 'adam', id, newPlayer.name)
+    const { x, y, texture, name } = newPlayer
+    const otherPlayer = this.add.otherPlayer(x, y, texture, id, name)
     this.otherPlayers.add(otherPlayer)
     this.otherPlayerMap.set(id, otherPlayer)
   }
@@ -246,12 +396,42 @@ export default class Game extends Phaser.Scene {
     this.myPlayer.videoConnected = true
   }
 
+  private handleMyPlayerPositionReset(x: number, y: number) {
+    this.myPlayer.resetPosition(x, y)
+  }
+
+  private handleMyPlayerStatusChange(status: PlayerStatus) {
+    this.myPlayer.setStatus(status)
+  }
+
+  private handleMyPlayerZoneChange(zone: string) {
+    this.myPlayer.zone = zone
+  }
+
   // function to update target position upon receiving player updates
   private handlePlayerUpdated(field: string, value: number | string, id: string) {
     const otherPlayer = this.otherPlayerMap.get(id)
     otherPlayer?.updateOtherPlayer(field, value)
   }
 
+  // locked meeting rooms let their occupants out and the players they admitted in
+  private isDoorClosed(player, door) {
+    const meetingRoom = store.getState().room.meetingRooms.get(door.getData('zone'))
+    const id = this.network.mySessionId
+    return (
+      !!meetingRoom?.locked &&
+      meetingRoom.occupants.indexOf(id) === -1 &&
+      meetingRoom.passes.indexOf(id) === -1
+    )
+  }
+
+  // offer to knock while myPlayer keeps walking into the door (the prompt is hidden in update)
+  private handleDoorBump(player, door) {
+    this.lastDoorBumpAt = this.time.now
+    const zone = door.getData('zone')
+    if (store.getState().room.bumpedDoor !== zone) store.dispatch(setBumpedDoor(zone))
+  }
+
   private handlePlayersOverlap(myPlayer, otherPlayer) {
     otherPlayer.makeCall(myPlayer, this.network?.webRTC)
   }
@@ -281,10 +461,47 @@ export default class Game extends Phaser.Scene {
     otherPlayer?.updateDialogBubble(content)
   }
 
+  private handlePlayerReconnected(id: string) {
+    this.otherPlayerMap.get(id)?.resetConnection()
+  }
+
+  // the calls were hung up by WebRTC.setMediaMode(), the players close by connect again
+  private handleMediaModeChanged() {
+    this.otherPlayerMap.forEach((otherPlayer) => otherPlayer.resetConnection())
+  }
+
+  // after getting our seat back, catch the server up with what happened while we were offline
+  private handleReconnected() {
+    const { x, y, anims } = this.myPlayer
+    this.network.updatePlayer(x, y, anims.currentAnim.key)
+
+    // connecting again is a no-op for the server but sends the whiteboard drawings we missed
+    const { computerDialogOpen, computerId } = store.getState().computer
+    if (computerDialogOpen && computerId) this.network.connectToComputer(computerId)
+    const { whiteboardDialogOpen, whiteboardId } = store.getState().whiteboard
+    if (whiteboardDialogOpen && whiteboardId) this.network.connectToWhiteboard(whiteboardId)
+  }
+
   update(t: number, dt: number) {
     if (this.myPlayer && this.network) {
       this.playerSelector.update(this.myPlayer, this.cursors)
       this.myPlayer.update(this.playerSelector, this.cursors, this.keyE, this.keyR, this.network)
+
+      if (store.getState().room.bumpedDoor && t - this.lastDoorBumpAt > 1000) {
+        store.dispatch(setBumpedDoor(null))
+      }
+
+      // calls get quieter and move from one ear to the other with where the players stand, except
+      // in a private zone where everyone is in one call and heard as if they were next to us
+      const { x, y, zone } = this.myPlayer
+      this.otherPlayerMap.forEach((otherPlayer, id) => {
+        if (zone && otherPlayer.zone === zone) {
+          otherPlayer.makeCall(this.myPlayer, this.network.webRTC!)
+          this.network.webRTC?.updateSpatialAudio(id, 0, 0)
+        } else {
+          this.network.webRTC?.updateSpatialAudio(id, otherPlayer.x - x, otherPlayer.y - y)
+        }
+      })
     }
   }
 }
@@ -1,47 +1,114 @@
 import { Client, Room } from 'colyseus.js'
-import { IComputer, IOfficeState, IPlayer, IWhiteboard } from '../../../types/IOfficeState'
+import {
+  IChatMessage,
+  IComputer,
+  IMeetingRoom,
+  IOfficeState,
+  IPlayer,
+  IRecording,
+  IWhiteboard,
+} from '../../../types/IOfficeState'
 import { Message } from '../../../types/Messages'
-import { IRoomData, RoomType } from '../../../types/Rooms'
+import { IRoomData, RoomLeaveCode, RoomType } from '../../../types/Rooms'
 import { ItemType } from '../../../types/Items'
+import { ChatMode } from '../../../types/ChatMode'
+import { PlayerStatus } from '../../../types/PlayerStatus'
+import { IWhiteboardDocument, IWhiteboardStroke } from '../../../types/Whiteboard'
+import { MediaMode } from '../../../types/Media'
+import { RecordingScope } from '../../../types/Recordings'
+import { IScreenAnnotation, IScreenPointer } from '../../../types/ScreenAnnotations'
+import { IRemoteInputEvent } from '../../../types/RemoteControl'
 import WebRTC from '../web/WebRTC'
+import { SfuConsumer } from '../web/SfuConnection'
+import { loadIceServers } from '../web/peerConfig'
+import RecordingManager from '../web/RecordingManager'
+import RemoteControlAgent from '../web/RemoteControlAgent'
+import PresenceTracker from './PresenceTracker'
 import { phaserEvents, Event } from '../events/EventCenter'
 import store from '../stores'
-import { setSessionId, setPlayerNameMap, removePlayerNameMap } from '../stores/UserStore'
+import { setSessionId, setPlayerNameMap, removePlayerNameMap, setZone } from '../stores/UserStore'
 import {
   setLobbyJoined,
   setJoinedRoomData,
   setAvailableRooms,
   addAvailableRooms,
   removeAvailableRooms,
+  setParticipant,
+  removeParticipant,
+  setLeaveReason,
+  setReconnecting,
+  setMeetingRoom,
+  setRecording,
+  removeRecording,
 } from '../stores/RoomStore'
 import {
   pushChatMessage,
+  pushNearbyMessage,
+  prependChatHistory,
   pushPlayerJoinedMessage,
   pushPlayerLeftMessage,
+  pushDirectMessage,
 } from '../stores/ChatStore'
-import { setWhiteboardUrls } from '../stores/WhiteboardStore'
+import {
+  setWhiteboardStrokes,
+  addWhiteboardStroke,
+  removeWhiteboardStroke,
+  setWhiteboardImportError,
+} from '../stores/WhiteboardStore'
+import {
+  addScreenAnnotation,
+  setScreenPointer,
+  setRemoteControl,
+  addControlRequest,
+  setControlDeclinedBy,
+} from '../stores/ComputerStore'
+import { sanitizeId } from '../util'
+import { getToken, restoreSession } from '../utils/account'
+import { getServerEndpoint } from '../utils/helpers'
+
+// the server keeps our seat for 20 seconds (RECONNECTION_GRACE_SECONDS) after losing the connection
+const RECONNECTION_TIMEOUT = 20 * 1000
+const RECONNECTION_INTERVAL = 2 * 1000
+// close code of a websocket closed on purpose, as opposed to a dropped connection
+const NORMAL_CLOSURE = 1000
+// how long to wait for the server to answer an SFU request
+const SFU_REQUEST_TIMEOUT = 10 * 1000
+// position updates are sent at most this often (ms) whatever the frame rate, the last one always is
+const PLAYER_UPDATE_INTERVAL = 1000 / 30
 
 export default class Network {
   private client: Client
   private room?: Room<IOfficeState>
   private lobby!: Room
   webRTC?: WebRTC
+  presence?: PresenceTracker
+  recordings?: RecordingManager
+  remoteControl?: RemoteControlAgent
+  // true while a reconnected room sends the whole state again
+  private resyncing = false
+  private lastChatMessageSeq = -1
+  // pending SFU requests, keyed by request id (see sfuRequest)
+  private sfuRequests = new Map<
+    number,
+    { resolve: (value: any) => void; reject: (error: Error) => void }
+  >()
+  private lastSfuRequestId = 0
+  // the latest position waiting for PLAYER_UPDATE_INTERVAL to pass (see updatePlayer)
+  private pendingPlayerUpdate?: { x: number; y: number; anim: string }
+  private playerUpdateTimer?: number
+  private lastPlayerUpdateAt = 0
 
   mySessionId!: string
 
   constructor() {
-    const protocol = window.location.protocol.replace('http', 'ws')
-    const endpoint =
-      process.env.NODE_ENV === 'production'
-        ? import.meta.env.VITE_SERVER_URL
-        : `${protocol}//${window.location.hostname}:2567`
-    this.client = new Client(endpoint)
+    this.client = new Client(getServerEndpoint())
     this.joinLobbyRoom().then(() => {
       store.dispatch(setLobbyJoined(true))
     })
+    restoreSession().catch((error) => console.error('failed to restore the session', error))
 
     phaserEvents.on(Event.MY_PLAYER_NAME_CHANGE, this.updatePlayerName, this)
-    phaserEvents.on(Event.MY_PLAYER_TEXTURE_CHANGE, this.updatePlayer, this)
+    phaserEvents.on(Event.MY_PLAYER_TEXTURE_CHANGE, this.updatePlayerTexture, this)
     phaserEvents.on(Event.PLAYER_DISCONNECTED, this.playerStreamDisconnect, this)
   }
 
@@ -67,52 +134,164 @@ export default class Network {
 
   // method to join the public lobby
   async joinOrCreatePublic() {
-    this.room = await this.client.joinOrCreate(RoomType.PUBLIC)
-    this.initialize()
+    this.room = await this.client.joinOrCreate(RoomType.PUBLIC, { token: await getToken() })
+    await this.initialize()
   }
 
   // method to join a custom room
   async joinCustomById(roomId: string, password: string | null) {
-    this.room = await this.client.joinById(roomId, { password })
-    this.initialize()
+    this.room = await this.client.joinById(roomId, { password, token: await getToken() })
+    await this.initialize()
   }
 
   // method to create a custom room
   async createCustom(roomData: IRoomData) {
-    const { name, description, password, autoDispose } = roomData
+    const { name, description, password, autoDispose, mapId, mediaMode } = roomData
     this.room = await this.client.create(RoomType.CUSTOM, {
       name,
       description,
       password,
       autoDispose,
+      mapId,
+      mediaMode,
+      token: await getToken(),
     })
-    this.initialize()
+    await this.initialize()
   }
 
-  // set up all network listeners before the game starts
+  /**
+   * set up all network listeners before the game starts, resolves once the server sent the room
+   * data as the game needs to know which map to render
+   */
   initialize() {
+    return new Promise<void>((resolve) => {
+      if (!this.room) return resolve()
+      this.lobby.leave()
+      this.mySessionId = this.room.sessionId
+      store.dispatch(setSessionId(this.room.sessionId))
+      loadIceServers().catch((error) => console.error('failed to get the ICE servers', error))
+      this.webRTC = new WebRTC(this.mySessionId, this)
+      this.presence = new PresenceTracker((status) => this.updatePlayerStatus(status))
+      this.recordings = new RecordingManager(this)
+      // nobody can control our screen without the agent
+      this.remoteControl = new RemoteControlAgent(() => {
+        const { computerId } = store.getState().computer
+        if (computerId) this.revokeRemoteControl(computerId, this.mySessionId)
+      })
+      this.setUpListeners()
+
+      // when the server sends room data
+      this.room.onMessage(Message.SEND_ROOM_DATA, (content) => {
+        store.dispatch(setJoinedRoomData(content))
+        resolve()
+      })
+    })
+  }
+
+  /**
+   * try to get our seat back after losing the connection, the server keeps our player (and the
+   * items we are using) for a while so that we can take over the same session
+   */
+  private async reconnect() {
     if (!this.room) return
+    const { id, sessionId } = this.room
+    store.dispatch(setReconnecting(true))
+
+    const giveUpAt = Date.now() + RECONNECTION_TIMEOUT
+    while (Date.now() < giveUpAt) {
+      await new Promise((resolve) => setTimeout(resolve, RECONNECTION_INTERVAL))
+      try {
+        const room = await this.client.reconnect<IOfficeState>(id, sessionId)
+        this.restoreRoom(room)
+        store.dispatch(setReconnecting(false))
+        return
+      } catch (e) {
+        // the server is still unreachable, try again
+      }
+    }
+    store.dispatch(setReconnecting(false))
+    store.dispatch(setLeaveReason('Lost the connection to the server.'))
+  }
 
-    this.lobby.leave()
-    this.mySessionId = this.room.sessionId
-    store.dispatch(setSessionId(this.room.sessionId))
-    this.webRTC = new WebRTC(this.mySessionId, this)
+  private restoreRoom(room: Room<IOfficeState>) {
+    if (!this.room) return
+    const { players, computers, whiteboards, recordings } = this.room.state
 
-    // new instance added to the players MapSchema
-    this.room.state.players.onAdd = (player: IPlayer, key: string) => {
+    // the new room sends the whole state again, drop everything built from the old one first
+    players.forEach((player, key) => {
       if (key === this.mySessionId) return
+      phaserEvents.emit(Event.PLAYER_LEFT, key)
+      store.dispatch(removePlayerNameMap(key))
+      store.dispatch(removeParticipant(key))
+    })
+    computers.forEach((computer, key) => {
+      computer.connectedUser.forEach((item) => {
+        phaserEvents.emit(Event.ITEM_USER_REMOVED, item, key, ItemType.COMPUTER)
+      })
+    })
+    whiteboards.forEach((whiteboard, key) => {
+      whiteboard.connectedUser.forEach((item) => {
+        phaserEvents.emit(Event.ITEM_USER_REMOVED, item, key, ItemType.WHITEBOARD)
+      })
+    })
+    // our own recording goes on, the new state brings it back
+    recordings.forEach((recording, key) => store.dispatch(removeRecording(key)))
+    // the other players call us again once the new state is in (see OtherPlayer.makeCall)
+    this.webRTC?.reset()
+
+    this.room = room
+    this.resyncing = true
+    this.setUpListeners()
+    room.onStateChange.once(() => {
+      this.resyncing = false
+      phaserEvents.emit(Event.RECONNECTED)
+    })
+  }
+
+  private setUpListeners() {
+    if (!this.room) return
 
+    // when the server removed us from the room or the connection dropped
+    this.room.onLeave((code) => {
+      if (code === RoomLeaveCode.KICKED) {
+        store.dispatch(setLeaveReason('You have been removed from the room by the host.'))
+      } else if (code === RoomLeaveCode.BANNED) {
+        store.dispatch(setLeaveReason('You have been banned from the room by the host.'))
+      } else if (code === RoomLeaveCode.TOO_MANY_VIOLATIONS) {
+        store.dispatch(setLeaveReason('You have been disconnected for sending too many requests.'))
+      } else if (code !== NORMAL_CLOSURE) {
+        this.reconnect()
+      }
+    })
+
+    // new instance added to the players MapSchema
+    this.room.state.players.onAdd = (player: IPlayer, key: string) => {
       // track changes on every child object inside the players MapSchema
       player.onChange = (changes) => {
         changes.forEach((change) => {
           const { field, value } = change
+
+          // the participant list includes ourselves
+          const participantFields = ['name', 'role', 'muted', 'username', 'status']
+          if (participantFields.indexOf(field) !== -1) {
+            store.dispatch(setParticipant({ id: key, [field]: value }))
+          }
+          if (key === this.mySessionId) {
+            if (field === 'status') phaserEvents.emit(Event.MY_PLAYER_STATUS_CHANGE, value)
+            if (field === 'zone') {
+              store.dispatch(setZone(value))
+              phaserEvents.emit(Event.MY_PLAYER_ZONE_CHANGE, value)
+            }
+            return
+          }
+
           phaserEvents.emit(Event.PLAYER_UPDATED, field, value, key)
 
           // when a new player finished setting up player name
           if (field === 'name' && value !== '') {
             phaserEvents.emit(Event.PLAYER_JOINED, player, key)
             store.dispatch(setPlayerNameMap({ id: key, name: value }))
-            store.dispatch(pushPlayerJoinedMessage(value))
+            if (!this.resyncing) store.dispatch(pushPlayerJoinedMessage(value))
           }
         })
       }
@@ -125,6 +304,7 @@ export default class Network {
       this.webRTC?.deleteOnCalledVideoStream(key)
       store.dispatch(pushPlayerLeftMessage(player.name))
       store.dispatch(removePlayerNameMap(key))
+      store.dispatch(removeParticipant(key))
     }
 
     // new instance added to the computers MapSchema
@@ -135,17 +315,29 @@ export default class Network {
       }
       computer.connectedUser.onRemove = (item, index) => {
         phaserEvents.emit(Event.ITEM_USER_REMOVED, item, key, ItemType.COMPUTER)
+        if (store.getState().computer.computerId === key) {
+          store.dispatch(setScreenPointer({ author: item, pointer: null }))
+        }
+      }
+      // the player controlling each shared screen of the computer, keyed by presenter
+      const updateRemoteControl = (controllerId: string, presenterId: string) => {
+        store.dispatch(setRemoteControl({ presenterId, controllerId }))
+        if (presenterId !== this.mySessionId) return
+        const controller = store.getState().room.participants.get(controllerId)?.name ?? ''
+        const track = store.getState().computer.myStream?.getVideoTracks()[0]
+        const { displaySurface } = (track?.getSettings() ?? {}) as { displaySurface?: string }
+        this.remoteControl?.start(controller, displaySurface)
+      }
+      computer.remoteControls.onAdd = updateRemoteControl
+      computer.remoteControls.onChange = updateRemoteControl
+      computer.remoteControls.onRemove = (controllerId, presenterId) => {
+        store.dispatch(setRemoteControl({ presenterId, controllerId: null }))
+        if (presenterId === this.mySessionId) this.remoteControl?.stop()
       }
     }
 
     // new instance added to the whiteboards MapSchema
     this.room.state.whiteboards.onAdd = (whiteboard: IWhiteboard, key: string) => {
-      store.dispatch(
-        setWhiteboardUrls({
-          whiteboardId: key,
-          roomId: whiteboard.roomId,
-        })
-      )
       // track changes on every child object's connectedUser
       whiteboard.connectedUser.onAdd = (item, index) => {
         phaserEvents.emit(Event.ITEM_USER_ADDED, item, key, ItemType.WHITEBOARD)
@@ -155,19 +347,128 @@ export default class Network {
       }
     }
 
+    // new instance added to the meetingRooms MapSchema, copied to the store on every change
+    this.room.state.meetingRooms.onAdd = (meetingRoom: IMeetingRoom, zone: string) => {
+      const update = () => {
+        store.dispatch(
+          setMeetingRoom({
+            zone,
+            locked: meetingRoom.locked,
+            occupants: meetingRoom.occupants.toArray(),
+            knocks: Array.from(meetingRoom.knocks.keys()),
+            passes: Array.from(meetingRoom.passes.keys()),
+          })
+        )
+      }
+      meetingRoom.onChange = update
+      meetingRoom.occupants.onAdd = update
+      meetingRoom.occupants.onRemove = update
+      meetingRoom.knocks.onAdd = update
+      meetingRoom.knocks.onRemove = update
+      meetingRoom.passes.onAdd = update
+      meetingRoom.passes.onRemove = update
+      update()
+    }
+
+    // new instance added to the recordings MapSchema, copied to the store on every change
+    this.room.state.recordings.onAdd = (recording: IRecording, recordingId: string) => {
+      const update = () => {
+        const { scope, target, recorder, status } = recording
+        store.dispatch(
+          setRecording({
+            id: recordingId,
+            scope,
+            target,
+            recorder,
+            status,
+            participants: recording.participants.toArray(),
+            consents: recording.consents.toArray(),
+          })
+        )
+        if (recorder === this.mySessionId) this.recordings?.update(recordingId, status)
+      }
+      recording.onChange = update
+      recording.participants.onAdd = update
+      recording.participants.onRemove = update
+      recording.consents.onAdd = update
+      recording.consents.onRemove = update
+      update()
+    }
+
+    // an instance removed from the recordings MapSchema
+    this.room.state.recordings.onRemove = (recording: IRecording, recordingId: string) => {
+      store.dispatch(removeRecording(recordingId))
+      if (recording.recorder === this.mySessionId) this.recordings?.end(recordingId)
+    }
+
     // new instance added to the chatMessages ArraySchema
     this.room.state.chatMessages.onAdd = (item, index) => {
+      // skip the messages we already had before reconnecting
+      if (this.resyncing && item.seq <= this.lastChatMessageSeq) return
+      this.lastChatMessageSeq = Math.max(this.lastChatMessageSeq, item.seq)
       store.dispatch(pushChatMessage(item))
     }
 
-    // when the server sends room data
-    this.room.onMessage(Message.SEND_ROOM_DATA, (content) => {
-      store.dispatch(setJoinedRoomData(content))
+    // when a user sends a message
+    this.room.onMessage(
+      Message.ADD_CHAT_MESSAGE,
+      ({ clientId, content, mode, author, createdAt }) => {
+        phaserEvents.emit(Event.UPDATE_DIALOG_BUBBLE, clientId, content)
+        // room messages arrive through the chatMessages state, nearby ones only through this message
+        if (mode === ChatMode.NEARBY) {
+          store.dispatch(pushNearbyMessage({ author, createdAt, content } as IChatMessage))
+        }
+      }
+    )
+
+    // when another player sends me a direct message
+    this.room.onMessage(Message.SEND_DIRECT_MESSAGE, ({ clientId, author, createdAt, content }) => {
+      store.dispatch(
+        pushDirectMessage({
+          playerId: sanitizeId(clientId),
+          name: author,
+          chatMessage: { author, createdAt, content } as IChatMessage,
+          incoming: true,
+        })
+      )
     })
 
-    // when a user sends a message
-    this.room.onMessage(Message.ADD_CHAT_MESSAGE, ({ clientId, content }) => {
-      phaserEvents.emit(Event.UPDATE_DIALOG_BUBBLE, clientId, content)
+    // when the server sends a page of older chat messages
+    this.room.onMessage(Message.LOAD_CHAT_HISTORY, (content) => {
+      store.dispatch(prependChatHistory(content))
+    })
+
+    // when the server sends the drawings of a whiteboard we just connected to
+    this.room.onMessage(Message.LOAD_WHITEBOARD, (content) => {
+      store.dispatch(setWhiteboardStrokes(content))
+    })
+
+    // when a player draws on the whiteboard we are using, our own strokes come back once accepted
+    this.room.onMessage(Message.ADD_WHITEBOARD_STROKE, (content) => {
+      store.dispatch(addWhiteboardStroke(content))
+    })
+
+    // when a player (including us) undoes a stroke on the whiteboard we are using, or when the
+    // server rejects a stroke we drew (too many points, board full, sent too fast)
+    this.room.onMessage(Message.REMOVE_WHITEBOARD_STROKE, (content) => {
+      store.dispatch(removeWhiteboardStroke(content))
+    })
+
+    // when the server rejects a whiteboard document we tried to import
+    this.room.onMessage(Message.IMPORT_WHITEBOARD, (content) => {
+      store.dispatch(setWhiteboardImportError(content))
+    })
+
+    // when the server rejects a movement update, snap back to the last valid position
+    this.room.onMessage(Message.RESET_PLAYER_POSITION, ({ x, y }: { x: number; y: number }) => {
+      phaserEvents.emit(Event.MY_PLAYER_POSITION_RESET, x, y)
+    })
+
+    // when another player got their seat back, they call us again with a new connection
+    this.room.onMessage(Message.PLAYER_RECONNECTED, ({ clientId }: { clientId: string }) => {
+      this.webRTC?.deleteVideoStream(clientId)
+      this.webRTC?.deleteOnCalledVideoStream(clientId)
+      phaserEvents.emit(Event.PLAYER_RECONNECTED, clientId)
     })
 
     // when a peer disconnects with myPeer
@@ -175,6 +476,103 @@ export default class Network {
       this.webRTC?.deleteOnCalledVideoStream(clientId)
     })
 
+    // when the room switched between the mesh and the SFU (e.g. it fell back to the mesh)
+    this.room.state.listen('mediaMode', (mode: MediaMode) => {
+      this.webRTC?.setMediaMode(mode)
+      phaserEvents.emit(Event.MEDIA_MODE_CHANGED, mode)
+    })
+
+    // answers to our SFU requests
+    const sfuReplies = [
+      Message.SFU_JOIN,
+      Message.SFU_CREATE_TRANSPORT,
+      Message.SFU_CONNECT_TRANSPORT,
+      Message.SFU_PRODUCE,
+    ]
+    sfuReplies.forEach((type) => {
+      this.room!.onMessage(type, ({ requestId, error, ...data }) => {
+        const request = this.sfuRequests.get(requestId)
+        if (!request) return
+        this.sfuRequests.delete(requestId)
+        if (error) request.reject(new Error(error))
+        else request.resolve(data)
+      })
+    })
+
+    // when the SFU forwards a track of a player we subscribed to
+    this.room.onMessage(Message.SFU_NEW_CONSUMER, (content: SfuConsumer) => {
+      this.webRTC?.addSfuConsumer(content)
+    })
+
+    // when a player we subscribed to stopped sending a track
+    this.room.onMessage(Message.SFU_CONSUMER_CLOSED, ({ id }: { id: string }) => {
+      this.webRTC?.removeSfuConsumer(id)
+    })
+
+    // when a recording of ours ended, the server waits for the file
+    this.room.onMessage(
+      Message.RECORDING_UPLOAD,
+      ({ recordingId, uploadId }: { recordingId: string; uploadId: string }) => {
+        this.recordings
+          ?.upload(recordingId, uploadId)
+          .catch((error) => console.error('failed to upload the recording', error))
+      }
+    )
+
+    // when another user of our computer annotates a shared screen or moves their laser pointer
+    this.room.onMessage(
+      Message.ANNOTATE_SCREEN,
+      ({
+        computerId,
+        ...content
+      }: {
+        computerId: string
+        author: string
+        annotation: IScreenAnnotation
+      }) => {
+        if (store.getState().computer.computerId !== computerId) return
+        store.dispatch(addScreenAnnotation(content))
+      }
+    )
+
+    this.room.onMessage(
+      Message.MOVE_SCREEN_POINTER,
+      ({
+        computerId,
+        ...content
+      }: {
+        computerId: string
+        author: string
+        pointer: IScreenPointer | null
+      }) => {
+        if (store.getState().computer.computerId !== computerId) return
+        store.dispatch(setScreenPointer(content))
+      }
+    )
+
+    // when a viewer asks to control our shared screen, only possible once we opted in
+    this.room.onMessage(
+      Message.REQUEST_REMOTE_CONTROL,
+      ({ computerId, clientId }: { computerId: string; clientId: string }) => {
+        if (store.getState().computer.computerId !== computerId) return
+        if (this.remoteControl?.connected) store.dispatch(addControlRequest(clientId))
+        else this.answerRemoteControl(computerId, clientId, false)
+      }
+    )
+
+    // when the presenter declined our control request
+    this.room.onMessage(
+      Message.ANSWER_REMOTE_CONTROL,
+      ({ presenterId }: { computerId: string; presenterId: string; granted: boolean }) => {
+        store.dispatch(setControlDeclinedBy(presenterId))
+      }
+    )
+
+    // input of the player controlling our screen, the server checked they were granted control
+    this.room.onMessage(Message.REMOTE_CONTROL_EVENT, ({ event }: { event: IRemoteInputEvent }) => {
+      this.remoteControl?.apply(event)
+    })
+
     // when a computer user stops sharing screen
     this.room.onMessage(Message.STOP_SCREEN_SHARE, (clientId: string) => {
       const computerState = store.getState().computer
@@ -223,6 +621,36 @@ export default class Network {
     phaserEvents.on(Event.MY_PLAYER_VIDEO_CONNECTED, callback, context)
   }
 
+  // method to register event listener and call back function when the server resets my position
+  onMyPlayerPositionReset(callback: (x: number, y: number) => void, context?: any) {
+    phaserEvents.on(Event.MY_PLAYER_POSITION_RESET, callback, context)
+  }
+
+  // method to register event listener and call back function when another player reconnected
+  onPlayerReconnected(callback: (key: string) => void, context?: any) {
+    phaserEvents.on(Event.PLAYER_RECONNECTED, callback, context)
+  }
+
+  // method to register event listener and call back function when we got our seat back
+  onReconnected(callback: () => void, context?: any) {
+    phaserEvents.on(Event.RECONNECTED, callback, context)
+  }
+
+  // method to register event listener and call back function when the server confirmed our status
+  onMyPlayerStatusChange(callback: (status: PlayerStatus) => void, context?: any) {
+    phaserEvents.on(Event.MY_PLAYER_STATUS_CHANGE, callback, context)
+  }
+
+  // method to register event listener and call back function when we entered or left a zone
+  onMyPlayerZoneChange(callback: (zone: string) => void, context?: any) {
+    phaserEvents.on(Event.MY_PLAYER_ZONE_CHANGE, callback, context)
+  }
+
+  // method to register event listener and call back function when the room changed its media mode
+  onMediaModeChanged(callback: (mode: MediaMode) => void, context?: any) {
+    phaserEvents.on(Event.MEDIA_MODE_CHANGED, callback, context)
+  }
+
   // method to register event listener and call back function when a player updated
   onPlayerUpdated(
     callback: (field: string, value: number | string, key: string) => void,
@@ -233,7 +661,22 @@ export default class Network {
 
   // method to send player updates to Colyseus server
   updatePlayer(currentX: number, currentY: number, currentAnim: string) {
-    this.room?.send(Message.UPDATE_PLAYER, { x: currentX, y: currentY, anim: currentAnim })
+    this.pendingPlayerUpdate = { x: currentX, y: currentY, anim: currentAnim }
+    if (this.playerUpdateTimer) return
+    const wait = this.lastPlayerUpdateAt + PLAYER_UPDATE_INTERVAL - Date.now()
+    if (wait <= 0) {
+      this.sendPlayerUpdate()
+    } else {
+      this.playerUpdateTimer = window.setTimeout(() => this.sendPlayerUpdate(), wait)
+    }
+  }
+
+  private sendPlayerUpdate() {
+    this.playerUpdateTimer = undefined
+    if (!this.pendingPlayerUpdate) return
+    this.room?.send(Message.UPDATE_PLAYER, this.pendingPlayerUpdate)
+    this.pendingPlayerUpdate = undefined
+    this.lastPlayerUpdateAt = Date.now()
   }
 
   // method to send player name to Colyseus server
@@ -241,6 +684,22 @@ export default class Network {
     this.room?.send(Message.UPDATE_PLAYER_NAME, { name: currentName })
   }
 
+  // method to send our presence status, see PresenceTracker for the automatic away status
+  updatePlayerStatus(status: PlayerStatus) {
+    this.room?.send(Message.UPDATE_PLAYER_STATUS, { status })
+  }
+
+  // method to send the character picked at login, followed by the animation played with it
+  updatePlayerTexture(texture: string, currentX: number, currentY: number, currentAnim: string) {
+    this.room?.send(Message.UPDATE_PLAYER_TEXTURE, { texture })
+    this.updatePlayer(currentX, currentY, currentAnim)
+  }
+
+  // the players of the room as the server last synced them, keyed by session id
+  getPlayers() {
+    return this.room?.state.players
+  }
+
   // method to send ready-to-connect signal to Colyseus server
   readyToConnect() {
     this.room?.send(Message.READY_TO_CONNECT)
@@ -275,11 +734,140 @@ export default class Network {
     this.room?.send(Message.DISCONNECT_FROM_WHITEBOARD, { whiteboardId: id })
   }
 
+  addWhiteboardStroke(whiteboardId: string, stroke: IWhiteboardStroke) {
+    this.room?.send(Message.ADD_WHITEBOARD_STROKE, { whiteboardId, stroke })
+  }
+
+  // remove the last stroke we drew on the whiteboard
+  undoWhiteboardStroke(whiteboardId: string) {
+    this.room?.send(Message.UNDO_WHITEBOARD_STROKE, { whiteboardId })
+  }
+
+  importWhiteboard(whiteboardId: string, document: IWhiteboardDocument) {
+    this.room?.send(Message.IMPORT_WHITEBOARD, { whiteboardId, document })
+  }
+
+  // moderation requests, the server ignores them unless we are the host
+  kickPlayer(clientId: string) {
+    this.room?.send(Message.KICK_PLAYER, { clientId })
+  }
+
+  // banning the address also keeps out everyone else on the player's network (e.g. the office)
+  banPlayer(clientId: string, banAddress = false) {
+    this.room?.send(Message.BAN_PLAYER, { clientId, banAddress })
+  }
+
+  mutePlayer(clientId: string, muted: boolean) {
+    this.room?.send(Message.MUTE_PLAYER, { clientId, muted })
+  }
+
+  transferHost(clientId: string) {
+    this.room?.send(Message.TRANSFER_HOST, { clientId })
+  }
+
+  // meeting room requests, locking and answering knocks only works from inside the room
+  lockMeetingRoom(zone: string, locked: boolean) {
+    this.room?.send(Message.LOCK_MEETING_ROOM, { zone, locked })
+  }
+
+  knockMeetingRoom(zone: string) {
+    this.room?.send(Message.KNOCK_MEETING_ROOM, { zone })
+  }
+
+  answerKnock(zone: string, clientId: string, admitted: boolean) {
+    this.room?.send(Message.ANSWER_KNOCK, { zone, clientId, admitted })
+  }
+
+  // recording requests, nothing is recorded until every participant consented
+  startRecording(scope: RecordingScope, target: string) {
+    this.room?.send(Message.START_RECORDING, { scope, target })
+  }
+
+  answerRecording(recordingId: string, consent: boolean) {
+    this.room?.send(Message.ANSWER_RECORDING, { recordingId, consent })
+  }
+
+  stopRecording(recordingId: string) {
+    this.room?.send(Message.STOP_RECORDING, { recordingId })
+  }
+
+  // send a request to the SFU of the room and wait for its answer
+  sfuRequest<T = {}>(type: Message, data: object = {}) {
+    return new Promise<T>((resolve, reject) => {
+      if (!this.room) return reject(new Error('Not in a room'))
+      const requestId = ++this.lastSfuRequestId
+      this.sfuRequests.set(requestId, { resolve, reject })
+      this.room.send(type, { requestId, ...data })
+      setTimeout(() => {
+        if (!this.sfuRequests.delete(requestId)) return
+        reject(new Error('The SFU request timed out'))
+      }, SFU_REQUEST_TIMEOUT)
+    })
+  }
+
+  sfuSubscribe(clientId: string) {
+    this.room?.send(Message.SFU_SUBSCRIBE, { clientId })
+  }
+
+  sfuUnsubscribe(clientId: string) {
+    this.room?.send(Message.SFU_UNSUBSCRIBE, { clientId })
+  }
+
+  resumeSfuConsumer(consumerId: string) {
+    this.room?.send(Message.SFU_RESUME_CONSUMER, { consumerId })
+  }
+
+  // the room falls back to the mesh mode for everyone once most of its clients cannot use the SFU
+  reportSfuUnavailable() {
+    this.room?.send(Message.SFU_UNAVAILABLE)
+  }
+
+  annotateScreen(computerId: string, annotation: IScreenAnnotation) {
+    this.room?.send(Message.ANNOTATE_SCREEN, { computerId, annotation })
+  }
+
+  // a null pointer hides our laser pointer
+  moveScreenPointer(computerId: string, pointer: IScreenPointer | null) {
+    this.room?.send(Message.MOVE_SCREEN_POINTER, { computerId, pointer })
+  }
+
+  // remote control requests, see RemoteControlCommand on the server
+  requestRemoteControl(computerId: string, presenterId: string) {
+    this.room?.send(Message.REQUEST_REMOTE_CONTROL, { computerId, presenterId })
+  }
+
+  answerRemoteControl(computerId: string, clientId: string, granted: boolean) {
+    this.room?.send(Message.ANSWER_REMOTE_CONTROL, { computerId, clientId, granted })
+  }
+
+  revokeRemoteControl(computerId: string, presenterId: string) {
+    this.room?.send(Message.REVOKE_REMOTE_CONTROL, { computerId, presenterId })
+  }
+
+  sendRemoteInput(computerId: string, presenterId: string, event: IRemoteInputEvent) {
+    this.room?.send(Message.REMOTE_CONTROL_EVENT, { computerId, presenterId, event })
+  }
+
   onStopScreenShare(id: string) {
     this.room?.send(Message.STOP_SCREEN_SHARE, { computerId: id })
   }
 
-  addChatMessage(content: string) {
-    this.room?.send(Message.ADD_CHAT_MESSAGE, { content: content })
+  addChatMessage(content: string, mode = ChatMode.ROOM) {
+    this.room?.send(Message.ADD_CHAT_MESSAGE, { content: content, mode })
+  }
+
+  // send a message to a single player, playerId is the sanitized id used as key in playerNameMap
+  sendDirectMessage(playerId: string, content: string) {
+    if (!this.room) return
+    let recipientId: string | undefined
+    this.room.state.players.forEach((player, sessionId) => {
+      if (sanitizeId(sessionId) === playerId) recipientId = sessionId
+    })
+    if (recipientId) this.room.send(Message.SEND_DIRECT_MESSAGE, { recipientId, content })
+  }
+
+  // request the chat messages sent before the one with the given seq
+  loadChatHistory(before: number) {
+    this.room?.send(Message.LOAD_CHAT_HISTORY, { before })
   }
 }
@@ -0,0 +1,58 @@
+import { PlayerStatus } from '../../../types/PlayerStatus'
+
+// players who did not touch the mouse or keyboard for this long are shown as away
+const IDLE_TIMEOUT = 5 * 60 * 1000
+const IDLE_CHECK_INTERVAL = 10 * 1000
+const activityEvents = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart']
+
+/**
+ * Keeps track of the status picked in the HUD and switches to away while the player is idle or the
+ * tab is hidden, then back to the picked status once they return. Do-not-disturb is never
+ * replaced as players in it should not be called either way.
+ */
+export default class PresenceTracker {
+  private chosenStatus = PlayerStatus.AVAILABLE
+  private away = false
+  private lastActivityAt = Date.now()
+
+  constructor(private onStatusChange: (status: PlayerStatus) => void) {
+    activityEvents.forEach((event) =>
+      window.addEventListener(event, this.handleActivity, { passive: true })
+    )
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+    window.setInterval(() => {
+      if (Date.now() - this.lastActivityAt >= IDLE_TIMEOUT) this.setAway(true)
+    }, IDLE_CHECK_INTERVAL)
+  }
+
+  get status() {
+    return this.away ? PlayerStatus.AWAY : this.chosenStatus
+  }
+
+  setStatus(status: PlayerStatus) {
+    this.chosenStatus = status
+    this.away = false
+    this.lastActivityAt = Date.now()
+    this.onStatusChange(this.status)
+  }
+
+  private setAway(away: boolean) {
+    if (away && this.chosenStatus === PlayerStatus.DO_NOT_DISTURB) return
+    if (this.away === away) return
+    this.away = away
+    this.onStatusChange(this.status)
+  }
+
+  private handleActivity = () => {
+    this.lastActivityAt = Date.now()
+    if (!document.hidden) this.setAway(false)
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      this.setAway(true)
+    } else {
+      this.handleActivity()
+    }
+  }
+}
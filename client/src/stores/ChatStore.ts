@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import { IChatMessage } from '../../../types/IOfficeState'
+import { ChatMode } from '../../../types/ChatMode'
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
 
@@ -7,6 +8,14 @@ export enum MessageType {
   PLAYER_JOINED,
   PLAYER_LEFT,
   REGULAR_MESSAGE,
+  NEARBY_MESSAGE,
+}
+
+// a private conversation with another player, keyed by the player's sanitized id
+export interface DirectConversation {
+  name: string
+  messages: IChatMessage[]
+  unread: number
 }
 
 export const chatSlice = createSlice({
@@ -15,6 +24,12 @@ export const chatSlice = createSlice({
     chatMessages: new Array<{ messageType: MessageType; chatMessage: IChatMessage }>(),
     focused: false,
     showChat: true,
+    chatMode: ChatMode.ROOM,
+    hasMoreHistory: true,
+    loadingHistory: false,
+    directConversations: new Map<string, DirectConversation>(),
+    // id of the player whose conversation is shown, null for the room-wide chat
+    activeConversation: null as null | string,
   },
   reducers: {
     pushChatMessage: (state, action: PayloadAction<IChatMessage>) => {
@@ -23,6 +38,28 @@ export const chatSlice = createSlice({
         chatMessage: action.payload,
       })
     },
+    // nearby messages only live on the clients that received them
+    pushNearbyMessage: (state, action: PayloadAction<IChatMessage>) => {
+      state.chatMessages.push({
+        messageType: MessageType.NEARBY_MESSAGE,
+        chatMessage: action.payload,
+      })
+    },
+    prependChatHistory: (
+      state,
+      action: PayloadAction<{ messages: IChatMessage[]; hasMore: boolean }>
+    ) => {
+      const olderMessages = action.payload.messages.map((chatMessage) => ({
+        messageType: MessageType.REGULAR_MESSAGE,
+        chatMessage,
+      }))
+      state.chatMessages = [...olderMessages, ...state.chatMessages]
+      state.hasMoreHistory = action.payload.hasMore
+      state.loadingHistory = false
+    },
+    setLoadingHistory: (state, action: PayloadAction<boolean>) => {
+      state.loadingHistory = action.payload
+    },
     pushPlayerJoinedMessage: (state, action: PayloadAction<string>) => {
       state.chatMessages.push({
         messageType: MessageType.PLAYER_JOINED,
@@ -43,22 +80,68 @@ export const chatSlice = createSlice({
         } as IChatMessage,
       })
     },
+    pushDirectMessage: (
+      state,
+      action: PayloadAction<{
+        playerId: string
+        name: string
+        chatMessage: IChatMessage
+        incoming: boolean
+      }>
+    ) => {
+      const { playerId, name, chatMessage, incoming } = action.payload
+      let conversation = state.directConversations.get(playerId)
+      if (!conversation) {
+        conversation = { name, messages: [], unread: 0 }
+        state.directConversations.set(playerId, conversation)
+      }
+      conversation.messages.push(chatMessage)
+      if (incoming && (state.activeConversation !== playerId || !state.showChat)) {
+        conversation.unread += 1
+      }
+    },
+    openDirectConversation: (state, action: PayloadAction<{ playerId: string; name: string }>) => {
+      const { playerId, name } = action.payload
+      if (!state.directConversations.has(playerId)) {
+        state.directConversations.set(playerId, { name, messages: [], unread: 0 })
+      }
+      state.activeConversation = playerId
+    },
+    setActiveConversation: (state, action: PayloadAction<null | string>) => {
+      state.activeConversation = action.payload
+      const conversation = action.payload && state.directConversations.get(action.payload)
+      if (conversation) conversation.unread = 0
+    },
     setFocused: (state, action: PayloadAction<boolean>) => {
       const game = phaserGame.scene.keys.game as Game
       action.payload ? game.disableKeys() : game.enableKeys()
       state.focused = action.payload
     },
+    setChatMode: (state, action: PayloadAction<ChatMode>) => {
+      state.chatMode = action.payload
+    },
     setShowChat: (state, action: PayloadAction<boolean>) => {
       state.showChat = action.payload
+      // the messages of the conversation on screen are read as soon as the chat opens
+      const conversation =
+        state.activeConversation && state.directConversations.get(state.activeConversation)
+      if (action.payload && conversation) conversation.unread = 0
     },
   },
 })
 
 export const {
   pushChatMessage,
+  pushNearbyMessage,
+  prependChatHistory,
+  setLoadingHistory,
   pushPlayerJoinedMessage,
   pushPlayerLeftMessage,
+  pushDirectMessage,
+  openDirectConversation,
+  setActiveConversation,
   setFocused,
+  setChatMode,
   setShowChat,
 } = chatSlice.actions
 
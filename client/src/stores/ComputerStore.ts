@@ -4,6 +4,18 @@ import ShareScreenManager from '../web/ShareScreenManager'
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
 import { sanitizeId } from '../util'
+import {
+  ANNOTATION_LIFETIME,
+  IScreenAnnotation,
+  IScreenPointer,
+} from '../../../types/ScreenAnnotations'
+
+export interface ScreenAnnotation extends IScreenAnnotation {
+  // session id of the user who drew it
+  author: string
+  // when we got it (ms), annotations fade out and are dropped after ANNOTATION_LIFETIME
+  receivedAt: number
+}
 
 interface ComputerState {
   computerDialogOpen: boolean
@@ -17,6 +29,19 @@ interface ComputerState {
     }
   >
   shareScreenManager: null | ShareScreenManager
+  // stream the user put on the stage, the latest shared screen is shown otherwise
+  pinnedStreamId: null | string
+  annotations: ScreenAnnotation[]
+  // laser pointers of the other users, keyed by their session id
+  pointers: Map<string, IScreenPointer>
+  // who controls which shared screen (of any computer), controller keyed by presenter session id
+  remoteControls: Map<string, string>
+  // players asking to control our shared screen
+  controlRequests: string[]
+  // presenter who declined our last control request
+  controlDeclinedBy: null | string
+  // whether we opted into remote control by connecting the companion agent
+  agentConnected: boolean
 }
 
 const initialState: ComputerState = {
@@ -25,6 +50,13 @@ const initialState: ComputerState = {
   myStream: null,
   peerStreams: new Map(),
   shareScreenManager: null,
+  pinnedStreamId: null,
+  annotations: [],
+  pointers: new Map(),
+  remoteControls: new Map(),
+  controlRequests: [],
+  controlDeclinedBy: null,
+  agentConnected: false,
 }
 
 export const computerSlice = createSlice({
@@ -57,6 +89,11 @@ export const computerSlice = createSlice({
       state.myStream = null
       state.computerId = null
       state.peerStreams.clear()
+      state.pinnedStreamId = null
+      state.annotations = []
+      state.pointers.clear()
+      state.controlRequests = []
+      state.controlDeclinedBy = null
     },
     setMyStream: (state, action: PayloadAction<null | MediaStream>) => {
       state.myStream = action.payload
@@ -71,7 +108,56 @@ export const computerSlice = createSlice({
       })
     },
     removeVideoStream: (state, action: PayloadAction<string>) => {
-      state.peerStreams.delete(sanitizeId(action.payload))
+      const id = sanitizeId(action.payload)
+      state.peerStreams.delete(id)
+      if (state.pinnedStreamId === id) state.pinnedStreamId = null
+    },
+    setPinnedStream: (state, action: PayloadAction<null | string>) => {
+      state.pinnedStreamId = action.payload
+    },
+    addScreenAnnotation: (
+      state,
+      action: PayloadAction<{ author: string; annotation: IScreenAnnotation }>
+    ) => {
+      const now = Date.now()
+      state.annotations = state.annotations.filter(
+        ({ receivedAt }) => now - receivedAt < ANNOTATION_LIFETIME
+      )
+      state.annotations.push({
+        ...action.payload.annotation,
+        author: action.payload.author,
+        receivedAt: now,
+      })
+    },
+    setScreenPointer: (
+      state,
+      action: PayloadAction<{ author: string; pointer: null | IScreenPointer }>
+    ) => {
+      const { author, pointer } = action.payload
+      if (pointer) state.pointers.set(author, pointer)
+      else state.pointers.delete(author)
+    },
+    setRemoteControl: (
+      state,
+      action: PayloadAction<{ presenterId: string; controllerId: null | string }>
+    ) => {
+      const { presenterId, controllerId } = action.payload
+      if (controllerId) state.remoteControls.set(presenterId, controllerId)
+      else state.remoteControls.delete(presenterId)
+    },
+    addControlRequest: (state, action: PayloadAction<string>) => {
+      if (state.controlRequests.indexOf(action.payload) === -1) {
+        state.controlRequests.push(action.payload)
+      }
+    },
+    removeControlRequest: (state, action: PayloadAction<string>) => {
+      state.controlRequests = state.controlRequests.filter((id) => id !== action.payload)
+    },
+    setControlDeclinedBy: (state, action: PayloadAction<null | string>) => {
+      state.controlDeclinedBy = action.payload
+    },
+    setAgentConnected: (state, action: PayloadAction<boolean>) => {
+      state.agentConnected = action.payload
     },
   },
 })
@@ -82,6 +168,14 @@ export const {
   setMyStream,
   addVideoStream,
   removeVideoStream,
+  setPinnedStream,
+  addScreenAnnotation,
+  setScreenPointer,
+  setRemoteControl,
+  addControlRequest,
+  removeControlRequest,
+  setControlDeclinedBy,
+  setAgentConnected,
 } = computerSlice.actions
 
 export default computerSlice.reducer
@@ -1,11 +1,42 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import { RoomAvailable } from 'colyseus.js'
 import { RoomType } from '../../../types/Rooms'
+import { PlayerRole } from '../../../types/PlayerRole'
+import { PlayerStatus } from '../../../types/PlayerStatus'
+import { MapId, DEFAULT_MAP_ID } from '../../../types/Maps'
+import { RecordingScope, RecordingStatus } from '../../../types/Recordings'
 
 interface RoomInterface extends RoomAvailable {
   name?: string
 }
 
+export interface Participant {
+  name: string
+  role: PlayerRole
+  muted: boolean
+  // username of the player's account, empty for guests
+  username: string
+  status: PlayerStatus
+}
+
+// copy of a MeetingRoom of the room state, every list holds session ids
+export interface MeetingRoom {
+  locked: boolean
+  occupants: string[]
+  knocks: string[]
+  passes: string[]
+}
+
+// copy of a Recording of the room state, the lists hold session ids
+export interface Recording {
+  scope: RecordingScope
+  target: string
+  recorder: string
+  status: RecordingStatus
+  participants: string[]
+  consents: string[]
+}
+
 /**
  * Colyseus' real time room list always includes the public lobby so we have to remove it manually.
  */
@@ -21,7 +52,20 @@ export const roomSlice = createSlice({
     roomId: '',
     roomName: '',
     roomDescription: '',
+    mapId: DEFAULT_MAP_ID,
     availableRooms: new Array<RoomAvailable>(),
+    // every player in the room (including ourselves) keyed by session id
+    participants: new Map<string, Participant>(),
+    // why the server removed us from the room, if it did
+    leaveReason: null as null | string,
+    // true while trying to get our seat back after losing the connection
+    reconnecting: false,
+    // lockable meeting rooms keyed by the name of their zone
+    meetingRooms: new Map<string, MeetingRoom>(),
+    // meeting room whose locked door our player is walking into, offers to knock
+    bumpedDoor: null as null | string,
+    // recordings in progress keyed by recording id (see getRecordingId)
+    recordings: new Map<string, Recording>(),
   },
   reducers: {
     setLobbyJoined: (state, action: PayloadAction<boolean>) => {
@@ -32,11 +76,12 @@ export const roomSlice = createSlice({
     },
     setJoinedRoomData: (
       state,
-      action: PayloadAction<{ id: string; name: string; description: string }>
+      action: PayloadAction<{ id: string; name: string; description: string; mapId: MapId }>
     ) => {
       state.roomId = action.payload.id
       state.roomName = action.payload.name
       state.roomDescription = action.payload.description
+      state.mapId = action.payload.mapId
     },
     setAvailableRooms: (state, action: PayloadAction<RoomAvailable[]>) => {
       state.availableRooms = action.payload.filter((room) => isCustomRoom(room))
@@ -55,6 +100,40 @@ export const roomSlice = createSlice({
     removeAvailableRooms: (state, action: PayloadAction<string>) => {
       state.availableRooms = state.availableRooms.filter((room) => room.roomId !== action.payload)
     },
+    setParticipant: (state, action: PayloadAction<{ id: string } & Partial<Participant>>) => {
+      const { id, ...changes } = action.payload
+      const participant = state.participants.get(id) ?? {
+        name: '',
+        role: PlayerRole.MEMBER,
+        muted: false,
+        username: '',
+        status: PlayerStatus.AVAILABLE,
+      }
+      state.participants.set(id, { ...participant, ...changes })
+    },
+    removeParticipant: (state, action: PayloadAction<string>) => {
+      state.participants.delete(action.payload)
+    },
+    setLeaveReason: (state, action: PayloadAction<string>) => {
+      state.leaveReason = action.payload
+    },
+    setReconnecting: (state, action: PayloadAction<boolean>) => {
+      state.reconnecting = action.payload
+    },
+    setMeetingRoom: (state, action: PayloadAction<{ zone: string } & MeetingRoom>) => {
+      const { zone, ...meetingRoom } = action.payload
+      state.meetingRooms.set(zone, meetingRoom)
+    },
+    setBumpedDoor: (state, action: PayloadAction<string | null>) => {
+      state.bumpedDoor = action.payload
+    },
+    setRecording: (state, action: PayloadAction<{ id: string } & Recording>) => {
+      const { id, ...recording } = action.payload
+      state.recordings.set(id, recording)
+    },
+    removeRecording: (state, action: PayloadAction<string>) => {
+      state.recordings.delete(action.payload)
+    },
   },
 })
 
@@ -65,6 +144,14 @@ export const {
   setAvailableRooms,
   addAvailableRooms,
   removeAvailableRooms,
+  setParticipant,
+  removeParticipant,
+  setLeaveReason,
+  setReconnecting,
+  setMeetingRoom,
+  setBumpedDoor,
+  setRecording,
+  removeRecording,
 } = roomSlice.actions
 
 export default roomSlice.reducer
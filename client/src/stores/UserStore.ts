@@ -1,6 +1,7 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import { sanitizeId } from '../util'
 import { BackgroundMode } from '../../../types/BackgroundMode'
+import { IAccount } from '../../../types/Accounts'
 
 import phaserGame from '../PhaserGame'
 import Bootstrap from '../scenes/Bootstrap'
@@ -19,6 +20,10 @@ export const userSlice = createSlice({
     loggedIn: false,
     playerNameMap: new Map<string, string>(),
     showJoystick: window.innerWidth < 650,
+    // guest or registered account, restored when the app starts (see utils/account.ts)
+    account: null as null | IAccount,
+    // private zone our player stands in (see OfficeMap.getZone on the server), empty when outside
+    zone: '',
   },
   reducers: {
     toggleBackgroundMode: (state) => {
@@ -47,6 +52,12 @@ export const userSlice = createSlice({
     setShowJoystick: (state, action: PayloadAction<boolean>) => {
       state.showJoystick = action.payload
     },
+    setAccount: (state, action: PayloadAction<IAccount | null>) => {
+      state.account = action.payload
+    },
+    setZone: (state, action: PayloadAction<string>) => {
+      state.zone = action.payload
+    },
   },
 })
 
@@ -58,6 +69,8 @@ export const {
   setPlayerNameMap,
   removePlayerNameMap,
   setShowJoystick,
+  setAccount,
+  setZone,
 } = userSlice.actions
 
 export default userSlice.reducer
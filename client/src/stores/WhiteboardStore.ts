@@ -1,4 +1,5 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { IWhiteboardStroke } from '../../../types/Whiteboard'
 
 import phaserGame from '../PhaserGame'
 import Game from '../scenes/Game'
@@ -6,15 +7,17 @@ import Game from '../scenes/Game'
 interface WhiteboardState {
   whiteboardDialogOpen: boolean
   whiteboardId: null | string
-  whiteboardUrl: null | string
-  urls: Map<string, string>
+  // strokes of the whiteboard that is currently open, in drawing order
+  strokes: IWhiteboardStroke[]
+  // why the server rejected the last imported document
+  importError: null | string
 }
 
 const initialState: WhiteboardState = {
   whiteboardDialogOpen: false,
   whiteboardId: null,
-  whiteboardUrl: null,
-  urls: new Map(),
+  strokes: [],
+  importError: null,
 }
 
 export const whiteboardSlice = createSlice({
@@ -24,8 +27,8 @@ export const whiteboardSlice = createSlice({
     openWhiteboardDialog: (state, action: PayloadAction<string>) => {
       state.whiteboardDialogOpen = true
       state.whiteboardId = action.payload
-      const url = state.urls.get(action.payload)
-      if (url) state.whiteboardUrl = url
+      state.strokes = []
+      state.importError = null
       const game = phaserGame.scene.keys.game as Game
       game.disableKeys()
     },
@@ -35,18 +38,51 @@ export const whiteboardSlice = createSlice({
       game.network.disconnectFromWhiteboard(state.whiteboardId!)
       state.whiteboardDialogOpen = false
       state.whiteboardId = null
-      state.whiteboardUrl = null
+      state.strokes = []
+      state.importError = null
     },
-    setWhiteboardUrls: (state, action: PayloadAction<{ whiteboardId: string; roomId: string }>) => {
-      state.urls.set(
-        action.payload.whiteboardId,
-        `https://wbo.ophir.dev/boards/sky-office-${action.payload.roomId}`
-      )
+    setWhiteboardStrokes: (
+      state,
+      action: PayloadAction<{ whiteboardId: string; strokes: IWhiteboardStroke[] }>
+    ) => {
+      if (action.payload.whiteboardId !== state.whiteboardId) return
+      state.strokes = action.payload.strokes
+    },
+    addWhiteboardStroke: (
+      state,
+      action: PayloadAction<{ whiteboardId: string; stroke: IWhiteboardStroke }>
+    ) => {
+      const { whiteboardId, stroke } = action.payload
+      if (whiteboardId !== state.whiteboardId) return
+      // our own strokes are drawn before the server sends them back, keep its copy in their place
+      const index = state.strokes.findIndex(({ id }) => id === stroke.id)
+      if (index === -1) state.strokes.push(stroke)
+      else state.strokes[index] = stroke
+    },
+    removeWhiteboardStroke: (
+      state,
+      action: PayloadAction<{ whiteboardId: string; strokeId: string }>
+    ) => {
+      if (action.payload.whiteboardId !== state.whiteboardId) return
+      state.strokes = state.strokes.filter((stroke) => stroke.id !== action.payload.strokeId)
+    },
+    setWhiteboardImportError: (
+      state,
+      action: PayloadAction<{ whiteboardId: string; error: null | string }>
+    ) => {
+      if (action.payload.whiteboardId !== state.whiteboardId) return
+      state.importError = action.payload.error
     },
   },
 })
 
-export const { openWhiteboardDialog, closeWhiteboardDialog, setWhiteboardUrls } =
-  whiteboardSlice.actions
+export const {
+  openWhiteboardDialog,
+  closeWhiteboardDialog,
+  setWhiteboardStrokes,
+  addWhiteboardStroke,
+  removeWhiteboardStroke,
+  setWhiteboardImportError,
+} = whiteboardSlice.actions
 
 export default whiteboardSlice.reducer
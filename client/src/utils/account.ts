@@ -0,0 +1,100 @@
+import { IAccount, IAuthResponse, IProfile } from '../../../types/Accounts'
+import store from '../stores'
+import { setAccount, toggleBackgroundMode } from '../stores/UserStore'
+import { getServerEndpoint } from './helpers'
+
+const TOKEN_KEY = 'skyoffice-token'
+const authEndpoint = `${getServerEndpoint().replace(/^ws/, 'http')}/auth`
+
+let session: Promise<IAccount> | null = null
+
+export class AccountError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+  }
+}
+
+async function request<T>(path: string, method = 'GET', body?: object): Promise<T> {
+  const token = localStorage.getItem(TOKEN_KEY)
+  const response = await fetch(`${authEndpoint}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body && JSON.stringify(body),
+  })
+  const content = await response.json().catch(() => ({}))
+  if (!response.ok) throw new AccountError(content.error ?? 'Something went wrong', response.status)
+  return content
+}
+
+// keep the token for the next visits and apply the preferences saved in the profile
+function signIn({ token, account }: IAuthResponse) {
+  localStorage.setItem(TOKEN_KEY, token)
+  store.dispatch(setAccount(account))
+  const { backgroundMode } = account.profile.preferences
+  if (backgroundMode !== undefined && backgroundMode !== store.getState().user.backgroundMode) {
+    store.dispatch(toggleBackgroundMode())
+  }
+  return account
+}
+
+/**
+ * Restores the account of the previous visit, or creates a guest account on the first one (or
+ * once the saved token expired).
+ */
+export function restoreSession() {
+  if (!session) {
+    session = request<IAuthResponse>('/me')
+      .catch((error) => {
+        if (!(error instanceof AccountError) || error.status !== 401) throw error
+        return request<IAuthResponse>('/guest', 'POST')
+      })
+      .then(signIn)
+      .catch((error) => {
+        // try again next time
+        session = null
+        throw error
+      })
+  }
+  return session
+}
+
+// token sent when joining a room
+export async function getToken() {
+  await restoreSession()
+  return localStorage.getItem(TOKEN_KEY)
+}
+
+// token of the current session, for the connections opened once the player joined a room with it
+export function getSessionToken() {
+  return localStorage.getItem(TOKEN_KEY) ?? ''
+}
+
+export async function login(username: string, password: string) {
+  const account = signIn(await request('/login', 'POST', { username, password }))
+  session = Promise.resolve(account)
+  return account
+}
+
+// registering while playing as a guest keeps the guest's profile
+export async function register(username: string, password: string) {
+  await restoreSession()
+  const account = signIn(await request('/register', 'POST', { username, password }))
+  session = Promise.resolve(account)
+  return account
+}
+
+// forget the account on this browser and continue as a new guest
+export function logout() {
+  localStorage.removeItem(TOKEN_KEY)
+  session = null
+  return restoreSession()
+}
+
+export async function saveProfile(changes: Partial<IProfile>) {
+  await restoreSession()
+  const account = await request<IAccount>('/profile', 'PUT', changes)
+  store.dispatch(setAccount(account))
+}
@@ -7,3 +7,34 @@ export function openURL(url: string) {
     window.location.href = url
   }
 }
+
+// websocket endpoint of the game server, the accounts API is served over http by the same server
+export function getServerEndpoint() {
+  const protocol = window.location.protocol.replace('http', 'ws')
+  return process.env.NODE_ENV === 'production'
+    ? import.meta.env.VITE_SERVER_URL
+    : `${protocol}//${window.location.hostname}:2567`
+}
+
+export function downloadFile(content: Blob | string, fileName: string, type: string) {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+// where the video is drawn inside its element, object-fit: contain adds bars around it
+export function getVideoContentRect(video: HTMLVideoElement) {
+  const { clientWidth: width, clientHeight: height, videoWidth, videoHeight } = video
+  if (!videoWidth || !videoHeight) return { x: 0, y: 0, width, height }
+  const scale = Math.min(width / videoWidth, height / videoHeight)
+  return {
+    x: (width - videoWidth * scale) / 2,
+    y: (height - videoHeight * scale) / 2,
+    width: videoWidth * scale,
+    height: videoHeight * scale,
+  }
+}
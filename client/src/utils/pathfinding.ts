@@ -0,0 +1,244 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+const neighbours = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+]
+
+/**
+ * Walkable cells of the map for a body of the given size, a cell is blocked when the body
+ * standing at its center would overlap an obstacle.
+ */
+export class NavGrid {
+  readonly columns: number
+  readonly rows: number
+  private blocked: Uint8Array
+
+  constructor(
+    width: number,
+    height: number,
+    readonly cellSize: number,
+    private body: { width: number; height: number }
+  ) {
+    this.columns = Math.ceil(width / cellSize)
+    this.rows = Math.ceil(height / cellSize)
+    this.blocked = new Uint8Array(this.columns * this.rows)
+  }
+
+  // mark the cells around an obstacle (world position of its top left corner and size)
+  block(x: number, y: number, width: number, height: number) {
+    const left = x - this.body.width * 0.5
+    const right = x + width + this.body.width * 0.5
+    const top = y - this.body.height * 0.5
+    const bottom = y + height + this.body.height * 0.5
+    const fromColumn = Math.max(0, Math.floor(left / this.cellSize))
+    const toColumn = Math.min(this.columns - 1, Math.floor(right / this.cellSize))
+    const fromRow = Math.max(0, Math.floor(top / this.cellSize))
+    const toRow = Math.min(this.rows - 1, Math.floor(bottom / this.cellSize))
+    for (let row = fromRow; row <= toRow; row++) {
+      for (let column = fromColumn; column <= toColumn; column++) {
+        const { x: cx, y: cy } = this.toWorld(column, row)
+        if (cx > left && cx < right && cy > top && cy < bottom) {
+          this.blocked[row * this.columns + column] = 1
+        }
+      }
+    }
+  }
+
+  isWalkable(column: number, row: number) {
+    return (
+      column >= 0 &&
+      row >= 0 &&
+      column < this.columns &&
+      row < this.rows &&
+      !this.blocked[row * this.columns + column]
+    )
+  }
+
+  toCell(x: number, y: number) {
+    return { column: Math.floor(x / this.cellSize), row: Math.floor(y / this.cellSize) }
+  }
+
+  toWorld(column: number, row: number): Point {
+    return { x: (column + 0.5) * this.cellSize, y: (row + 0.5) * this.cellSize }
+  }
+
+  /**
+   * Shortest path with A* between two world positions, as the waypoints to walk through after
+   * the start. Clicks on an obstacle lead to the closest walkable cell, there is no path when the
+   * goal is walled off.
+   */
+  findPath(start: Point, goal: Point): Point[] | null {
+    const from = this.closestWalkable(start)
+    const to = this.closestWalkable(goal)
+    if (from === undefined || to === undefined) return null
+
+    const goalColumn = to % this.columns
+    const goalRow = Math.floor(to / this.columns)
+    // octile distance, diagonal moves cost sqrt(2)
+    const heuristic = (index: number) => {
+      const dx = Math.abs((index % this.columns) - goalColumn)
+      const dy = Math.abs(Math.floor(index / this.columns) - goalRow)
+      return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy)
+    }
+
+    const costs = new Float64Array(this.blocked.length).fill(Infinity)
+    const cameFrom = new Int32Array(this.blocked.length).fill(-1)
+    const closed = new Uint8Array(this.blocked.length)
+    const open = new MinHeap()
+    costs[from] = 0
+    open.push(from, heuristic(from))
+
+    while (open.size) {
+      const current = open.pop()
+      if (current === to) return this.smooth(start, this.reconstruct(cameFrom, current), goal)
+      if (closed[current]) continue
+      closed[current] = 1
+
+      const column = current % this.columns
+      const row = Math.floor(current / this.columns)
+      neighbours.forEach(([dx, dy]) => {
+        if (!this.isWalkable(column + dx, row + dy)) return
+        // no cutting corners, the body would catch on them
+        if (
+          dx &&
+          dy &&
+          (!this.isWalkable(column + dx, row) || !this.isWalkable(column, row + dy))
+        ) {
+          return
+        }
+        const next = (row + dy) * this.columns + column + dx
+        const cost = costs[current] + (dx && dy ? Math.SQRT2 : 1)
+        if (cost >= costs[next]) return
+        costs[next] = cost
+        cameFrom[next] = current
+        open.push(next, cost + heuristic(next))
+      })
+    }
+    return null
+  }
+
+  // the cell of the position, or the nearest walkable one around it
+  private closestWalkable({ x, y }: Point) {
+    const { column, row } = this.toCell(x, y)
+    const maxRadius = Math.max(this.columns, this.rows)
+    for (let radius = 0; radius < maxRadius; radius++) {
+      let closest: number | undefined
+      let closestDistance = Infinity
+      for (let r = row - radius; r <= row + radius; r++) {
+        for (let c = column - radius; c <= column + radius; c++) {
+          const onRing = Math.abs(r - row) === radius || Math.abs(c - column) === radius
+          if (!onRing || !this.isWalkable(c, r)) continue
+          const cell = this.toWorld(c, r)
+          const distance = (cell.x - x) ** 2 + (cell.y - y) ** 2
+          if (distance < closestDistance) {
+            closest = r * this.columns + c
+            closestDistance = distance
+          }
+        }
+      }
+      if (closest !== undefined) return closest
+    }
+    return undefined
+  }
+
+  private reconstruct(cameFrom: Int32Array, end: number) {
+    const path: Point[] = []
+    for (let index = end; index !== -1; index = cameFrom[index]) {
+      path.unshift(this.toWorld(index % this.columns, Math.floor(index / this.columns)))
+    }
+    return path
+  }
+
+  // drop the waypoints that can be skipped by walking in a straight line
+  private smooth(start: Point, cells: Point[], goal: Point) {
+    // end on the clicked position itself when it can be reached from the last cell
+    const last = cells[cells.length - 1]
+    const points = this.hasLineOfSight(last, goal) ? [start, ...cells, goal] : [start, ...cells]
+    const path: Point[] = []
+    let anchor = points[0]
+    for (let i = 1; i < points.length; i++) {
+      if (i === points.length - 1 || !this.hasLineOfSight(anchor, points[i + 1])) {
+        path.push(points[i])
+        anchor = points[i]
+      }
+    }
+    return path
+  }
+
+  private hasLineOfSight(from: Point, to: Point) {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y)
+    const steps = Math.ceil(distance / (this.cellSize * 0.25))
+    for (let step = 0; step <= steps; step++) {
+      const t = steps ? step / steps : 0
+      const { column, row } = this.toCell(
+        from.x + (to.x - from.x) * t,
+        from.y + (to.y - from.y) * t
+      )
+      if (!this.isWalkable(column, row)) return false
+    }
+    return true
+  }
+}
+
+// binary heap of cell indexes ordered by their estimated cost
+class MinHeap {
+  private items: number[] = []
+  private priorities: number[] = []
+
+  get size() {
+    return this.items.length
+  }
+
+  push(item: number, priority: number) {
+    this.items.push(item)
+    this.priorities.push(priority)
+    let i = this.items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (this.priorities[parent] <= priority) break
+      this.swap(i, parent)
+      i = parent
+    }
+  }
+
+  pop() {
+    const top = this.items[0]
+    const lastItem = this.items.pop()!
+    const lastPriority = this.priorities.pop()!
+    if (this.items.length) {
+      this.items[0] = lastItem
+      this.priorities[0] = lastPriority
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let smallest = i
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left
+        }
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right
+        }
+        if (smallest === i) break
+        this.swap(i, smallest)
+        i = smallest
+      }
+    }
+    return top
+  }
+
+  private swap(a: number, b: number) {
+    ;[this.items[a], this.items[b]] = [this.items[b], this.items[a]]
+    ;[this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]]
+  }
+}
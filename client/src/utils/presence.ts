@@ -0,0 +1,16 @@
+import { PlayerStatus } from '../../../types/PlayerStatus'
+
+export const statusLabels: { [status in PlayerStatus]: string } = {
+  [PlayerStatus.AVAILABLE]: 'Available',
+  [PlayerStatus.BUSY]: 'Busy',
+  [PlayerStatus.DO_NOT_DISTURB]: 'Do not disturb',
+  [PlayerStatus.AWAY]: 'Away',
+}
+
+// used both by the HUD (css colors) and by the status dot of the avatars
+export const statusColors: { [status in PlayerStatus]: string } = {
+  [PlayerStatus.AVAILABLE]: '#43a047',
+  [PlayerStatus.BUSY]: '#fb8c00',
+  [PlayerStatus.DO_NOT_DISTURB]: '#e53935',
+  [PlayerStatus.AWAY]: '#9e9e9e',
+}
@@ -0,0 +1,30 @@
+import { IRecordingInfo } from '../../../types/Recordings'
+import store from '../stores'
+import { getToken } from './account'
+import { downloadFile, getServerEndpoint } from './helpers'
+
+const recordingsEndpoint = `${getServerEndpoint().replace(/^ws/, 'http')}/recordings`
+
+// the server lists the recordings of the room our session is in
+async function request(path: string) {
+  const sessionId = encodeURIComponent(store.getState().user.sessionId)
+  const response = await fetch(`${recordingsEndpoint}${path}?sessionId=${sessionId}`, {
+    headers: { Authorization: `Bearer ${await getToken()}` },
+  })
+  if (!response.ok) {
+    const content = await response.json().catch(() => ({}))
+    throw new Error(content.error ?? 'Something went wrong')
+  }
+  return response
+}
+
+// newest first
+export async function listRecordings(): Promise<IRecordingInfo[]> {
+  return (await request('')).json()
+}
+
+export async function downloadRecording({ id, title, createdAt, mimeType }: IRecordingInfo) {
+  const blob = await (await request(`/${id}`)).blob()
+  const date = new Date(createdAt).toISOString().slice(0, 16).replace(':', '-')
+  downloadFile(blob, `${title} ${date}.webm`, mimeType)
+}
@@ -0,0 +1,199 @@
+import {
+  IWhiteboardDocument,
+  IWhiteboardStroke,
+  WhiteboardTool,
+  WHITEBOARD_DOCUMENT_VERSION,
+  WHITEBOARD_WIDTH,
+  WHITEBOARD_HEIGHT,
+} from '../../../types/Whiteboard'
+
+const BACKGROUND_COLOR = '#ffffff'
+const FONT_FAMILY = 'Arial'
+
+// text strokes use the size picked in the toolbar as a scale of the font size
+export function getFontSize(size: number) {
+  return size * 6
+}
+
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: IWhiteboardStroke) {
+  const { tool, color, size, points } = stroke
+  ctx.save()
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = size
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  // the eraser clears what was drawn before it, the white background is only the canvas' style
+  if (tool === WhiteboardTool.ERASER) ctx.globalCompositeOperation = 'destination-out'
+
+  const [x0, y0, x1 = x0, y1 = y0] = points
+  switch (tool) {
+    case WhiteboardTool.PEN:
+    case WhiteboardTool.ERASER:
+      ctx.beginPath()
+      if (points.length === 2) {
+        ctx.arc(x0, y0, size / 2, 0, Math.PI * 2)
+        ctx.fill()
+        break
+      }
+      ctx.moveTo(x0, y0)
+      for (let i = 2; i < points.length; i += 2) {
+        ctx.lineTo(points[i], points[i + 1])
+      }
+      ctx.stroke()
+      break
+
+    case WhiteboardTool.LINE:
+      ctx.beginPath()
+      ctx.moveTo(x0, y0)
+      ctx.lineTo(x1, y1)
+      ctx.stroke()
+      break
+
+    case WhiteboardTool.RECTANGLE:
+      ctx.strokeRect(x0, y0, x1 - x0, y1 - y0)
+      break
+
+    case WhiteboardTool.ELLIPSE:
+      ctx.beginPath()
+      ctx.ellipse(
+        (x0 + x1) / 2,
+        (y0 + y1) / 2,
+        Math.abs(x1 - x0) / 2,
+        Math.abs(y1 - y0) / 2,
+        0,
+        0,
+        Math.PI * 2
+      )
+      ctx.stroke()
+      break
+
+    case WhiteboardTool.TEXT:
+      ctx.font = `${getFontSize(size)}px ${FONT_FAMILY}`
+      ctx.textBaseline = 'top'
+      ctx.fillText(stroke.text ?? '', x0, y0)
+      break
+  }
+  ctx.restore()
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function svgElement(name: string, attributes: { [name: string]: string | number }, content = '') {
+  const attrs = Object.entries(attributes)
+    .map(([key, value]) => `${key}="${value}"`)
+    .join(' ')
+  return content ? `<${name} ${attrs}>${content}</${name}>` : `<${name} ${attrs}/>`
+}
+
+function strokeToSvg(stroke: IWhiteboardStroke) {
+  const { tool, size, points } = stroke
+  // the background is opaque in exports, so erasing is the same as painting with it
+  const color = tool === WhiteboardTool.ERASER ? BACKGROUND_COLOR : stroke.color
+  const outline = {
+    fill: 'none',
+    stroke: color,
+    'stroke-width': size,
+    'stroke-linecap': 'round',
+    'stroke-linejoin': 'round',
+  }
+  const [x0, y0, x1 = x0, y1 = y0] = points
+
+  switch (tool) {
+    case WhiteboardTool.PEN:
+    case WhiteboardTool.ERASER:
+      if (points.length === 2) {
+        return svgElement('circle', { cx: x0, cy: y0, r: size / 2, fill: color })
+      }
+      return svgElement('polyline', { points: points.join(' '), ...outline })
+
+    case WhiteboardTool.LINE:
+      return svgElement('line', { x1: x0, y1: y0, x2: x1, y2: y1, ...outline })
+
+    case WhiteboardTool.RECTANGLE:
+      return svgElement('rect', {
+        x: Math.min(x0, x1),
+        y: Math.min(y0, y1),
+        width: Math.abs(x1 - x0),
+        height: Math.abs(y1 - y0),
+        ...outline,
+      })
+
+    case WhiteboardTool.ELLIPSE:
+      return svgElement('ellipse', {
+        cx: (x0 + x1) / 2,
+        cy: (y0 + y1) / 2,
+        rx: Math.abs(x1 - x0) / 2,
+        ry: Math.abs(y1 - y0) / 2,
+        ...outline,
+      })
+
+    case WhiteboardTool.TEXT:
+      return svgElement(
+        'text',
+        {
+          x: x0,
+          y: y0,
+          fill: color,
+          'font-family': FONT_FAMILY,
+          'font-size': getFontSize(size),
+          'dominant-baseline': 'hanging',
+        },
+        escapeXml(stroke.text ?? '')
+      )
+  }
+  return ''
+}
+
+export function toSvg(strokes: IWhiteboardStroke[]) {
+  const content = [
+    svgElement('rect', { width: '100%', height: '100%', fill: BACKGROUND_COLOR }),
+    ...strokes.map(strokeToSvg),
+  ].join('\n')
+  return svgElement(
+    'svg',
+    {
+      xmlns: 'http://www.w3.org/2000/svg',
+      width: WHITEBOARD_WIDTH,
+      height: WHITEBOARD_HEIGHT,
+      viewBox: `0 0 ${WHITEBOARD_WIDTH} ${WHITEBOARD_HEIGHT}`,
+    },
+    `\n${content}\n`
+  )
+}
+
+export function toPng(strokes: IWhiteboardStroke[]) {
+  // draw on a transparent layer first so that the eraser does not punch holes in the background
+  const layer = document.createElement('canvas')
+  layer.width = WHITEBOARD_WIDTH
+  layer.height = WHITEBOARD_HEIGHT
+  const layerCtx = layer.getContext('2d')!
+  strokes.forEach((stroke) => drawStroke(layerCtx, stroke))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = WHITEBOARD_WIDTH
+  canvas.height = WHITEBOARD_HEIGHT
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = BACKGROUND_COLOR
+  ctx.fillRect(0, 0, WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT)
+  ctx.drawImage(layer, 0, 0)
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG export failed'))))
+  })
+}
+
+export function toDocument(strokes: IWhiteboardStroke[]): IWhiteboardDocument {
+  return {
+    version: WHITEBOARD_DOCUMENT_VERSION,
+    width: WHITEBOARD_WIDTH,
+    height: WHITEBOARD_HEIGHT,
+    strokes,
+  }
+}
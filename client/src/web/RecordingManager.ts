@@ -0,0 +1,122 @@
+import Network from '../services/Network'
+import store from '../stores'
+import { RecordingScope, RecordingStatus } from '../../../types/Recordings'
+import { getServerEndpoint } from '../utils/helpers'
+import { getToken } from '../utils/account'
+
+// the server only stores webm files, the first one the browser supports is used
+const mimeTypes = [
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'audio/webm;codecs=opus',
+  'audio/webm',
+]
+// how often MediaRecorder hands over what it recorded so far
+const TIMESLICE = 1000
+
+/**
+ * Records the call of the computer or zone we asked to record. The server decides when to record:
+ * only while every participant consents (see RecordingCommand), this class follows its status and
+ * uploads the file once the recording ended.
+ */
+export default class RecordingManager {
+  private recordingId?: string
+  private includeScreen = false
+  private recorder?: MediaRecorder
+  private chunks: Blob[] = []
+  // resolves with the recorded file once the recorder stopped
+  private file?: Promise<Blob>
+
+  constructor(private network: Network) {}
+
+  // ask the server to record, the screen can only be included at a computer
+  start(scope: RecordingScope, target: string, includeScreen: boolean) {
+    this.includeScreen = scope === RecordingScope.COMPUTER && includeScreen
+    this.network.startRecording(scope, target)
+  }
+
+  // called whenever the status of our recording changes on the server
+  update(recordingId: string, status: RecordingStatus) {
+    if (this.recordingId !== recordingId) this.reset(recordingId)
+
+    if (status === RecordingStatus.RECORDING) {
+      if (!this.recorder) this.record()
+      else if (this.recorder.state === 'paused') this.recorder.resume()
+    } else if (this.recorder?.state === 'recording') {
+      // someone came by who has not consented yet
+      this.recorder.pause()
+    }
+  }
+
+  private reset(recordingId: string) {
+    this.recordingId = recordingId
+    this.recorder = undefined
+    this.chunks = []
+    this.file = undefined
+  }
+
+  private record() {
+    const mimeType = mimeTypes.find((type) => MediaRecorder.isTypeSupported(type))
+    if (!mimeType) {
+      window.alert('Your browser cannot record calls')
+      this.network.stopRecording(this.recordingId!)
+      return
+    }
+
+    const { myStream, peerStreams } = store.getState().computer
+    const screens = this.includeScreen
+      ? [myStream, ...Array.from(peerStreams.values()).map(({ stream }) => stream)]
+      : []
+    const mix = this.network.webRTC!.startRecordingMix(screens.filter(Boolean) as MediaStream[])
+    // the first shared screen, the recorder cannot switch tracks once started
+    const video = screens.find((stream) => stream && stream.getVideoTracks().length > 0)
+    const tracks = video ? [...mix.getAudioTracks(), video.getVideoTracks()[0]] : mix.getTracks()
+
+    const recorder = new MediaRecorder(new MediaStream(tracks), {
+      mimeType: video ? mimeType : mimeType.replace('video/', 'audio/').replace('vp8,', ''),
+    })
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data)
+    }
+    recorder.start(TIMESLICE)
+    this.recorder = recorder
+  }
+
+  // our recording was removed from the state: stopped, declined or a participant left
+  end(recordingId: string) {
+    if (recordingId === this.recordingId) this.stop()
+  }
+
+  // stop recording, the file is kept until it is uploaded
+  private stop() {
+    if (!this.file) {
+      const { recorder, chunks } = this
+      this.file = new Promise((resolve) => {
+        const done = () => {
+          this.network.webRTC?.stopRecordingMix()
+          resolve(new Blob(chunks, { type: recorder?.mimeType.split(';')[0] }))
+        }
+        if (!recorder || recorder.state === 'inactive') return done()
+        recorder.onstop = done
+        recorder.stop()
+      })
+    }
+    return this.file
+  }
+
+  // called once the server accepted what was recorded, it only asks when something was recorded
+  async upload(recordingId: string, uploadId: string) {
+    if (recordingId !== this.recordingId) return
+    const file = await this.stop()
+    if (this.recordingId === recordingId) this.recordingId = undefined
+    if (file.size === 0) return
+
+    const endpoint = getServerEndpoint().replace(/^ws/, 'http')
+    const response = await fetch(`${endpoint}/recordings/upload/${uploadId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type, Authorization: `Bearer ${await getToken()}` },
+      body: file,
+    })
+    if (!response.ok) throw new Error(`The recording upload failed (${response.status})`)
+  }
+}
@@ -0,0 +1,74 @@
+import store from '../stores'
+import { setAgentConnected } from '../stores/ComputerStore'
+import { IRemoteInputEvent } from '../../../types/RemoteControl'
+
+// where the companion agent listens, only on the presenter's own machine
+const AGENT_URL = import.meta.env.VITE_REMOTE_CONTROL_AGENT_URL ?? 'ws://127.0.0.1:8787'
+const AGENT_PROTOCOL_VERSION = 1
+
+/**
+ * Messages sent to the companion agent as JSON. The agent moves the mouse and types on the
+ * presenter's machine, which the browser cannot do, and applies the positions (0 to 1) to the
+ * shared screen.
+ */
+export type AgentMessage =
+  | { type: 'hello'; version: number }
+  // someone got control, surface is the displaySurface of the shared track (monitor, window...)
+  | { type: 'start'; controller: string; surface?: string }
+  | { type: 'input'; event: IRemoteInputEvent }
+  // the control ended, the agent releases the keys and buttons that are still held
+  | { type: 'stop' }
+
+/**
+ * Connection to the remote control companion agent. Presenters opt in by connecting to it, the
+ * room only lets others request control of their screen while it is connected.
+ */
+export default class RemoteControlAgent {
+  private socket?: WebSocket
+
+  constructor(private onDisconnect: () => void) {}
+
+  get connected() {
+    return this.socket?.readyState === WebSocket.OPEN
+  }
+
+  enable() {
+    return new Promise<void>((resolve, reject) => {
+      if (this.connected) return resolve()
+      const socket = new WebSocket(AGENT_URL)
+      socket.onopen = () => {
+        this.socket = socket
+        this.send({ type: 'hello', version: AGENT_PROTOCOL_VERSION })
+        store.dispatch(setAgentConnected(true))
+        resolve()
+      }
+      socket.onerror = () => reject(new Error('The companion agent is not running'))
+      socket.onclose = () => {
+        if (this.socket !== socket) return
+        this.socket = undefined
+        store.dispatch(setAgentConnected(false))
+        this.onDisconnect()
+      }
+    })
+  }
+
+  disable() {
+    this.socket?.close()
+  }
+
+  start(controller: string, surface?: string) {
+    this.send({ type: 'start', controller, surface })
+  }
+
+  apply(event: IRemoteInputEvent) {
+    this.send({ type: 'input', event })
+  }
+
+  stop() {
+    this.send({ type: 'stop' })
+  }
+
+  private send(message: AgentMessage) {
+    if (this.connected) this.socket!.send(JSON.stringify(message))
+  }
+}
@@ -0,0 +1,182 @@
+import { Device, types } from 'mediasoup-client'
+import Network from '../services/Network'
+import { Message } from '../../../types/Messages'
+import { rtcConfig } from './peerConfig'
+
+export interface SfuConsumer {
+  // session id of the player whose track this is
+  clientId: string
+  id: string
+  producerId: string
+  kind: types.MediaKind
+  rtpParameters: types.RtpParameters
+}
+
+interface TransportInfo {
+  id: string
+  iceParameters: types.IceParameters
+  iceCandidates: types.IceCandidate[]
+  dtlsParameters: types.DtlsParameters
+}
+
+/**
+ * Connection to the selective forwarding unit of the room (see server/media/MediaRoom.ts): our
+ * stream is sent once through the send transport and the server forwards the streams of the
+ * players we subscribed to through the receive transport.
+ */
+export default class SfuConnection {
+  private device?: Device
+  private sendTransport?: types.Transport
+  private recvTransport?: types.Transport
+  private consumers = new Map<string, { clientId: string; consumer: types.Consumer }>()
+  // one stream per player we listen to, their tracks arrive one by one
+  private streams = new Map<string, MediaStream>()
+  private subscriptions = new Set<string>()
+  private published = false
+  private closed = false
+  // resolves once both transports are created
+  private ready: Promise<void>
+
+  constructor(
+    private network: Network,
+    private onStream: (clientId: string, stream: MediaStream) => void,
+    private onFailure: () => void
+  ) {
+    this.ready = this.connect()
+    this.ready.catch((error) => this.fail(error))
+  }
+
+  private async connect() {
+    const { rtpCapabilities } = await this.network.sfuRequest<{
+      rtpCapabilities: types.RtpCapabilities
+    }>(Message.SFU_JOIN)
+    // throws if the browser is not supported by mediasoup-client
+    this.device = new Device()
+    await this.device.load({ routerRtpCapabilities: rtpCapabilities })
+    this.sendTransport = await this.createTransport(true)
+    this.recvTransport = await this.createTransport(false)
+  }
+
+  private async createTransport(producing: boolean) {
+    const info = await this.network.sfuRequest<TransportInfo>(Message.SFU_CREATE_TRANSPORT, {
+      producing,
+      rtpCapabilities: this.device!.rtpCapabilities,
+    })
+    // the TURN server also relays to the SFU when UDP to its ports is blocked
+    const options = { ...info, iceServers: rtcConfig.iceServers }
+    const transport = producing
+      ? this.device!.createSendTransport(options)
+      : this.device!.createRecvTransport(options)
+
+    transport.on('connect', ({ dtlsParameters }, callback, errback) => {
+      this.network
+        .sfuRequest(Message.SFU_CONNECT_TRANSPORT, { transportId: transport.id, dtlsParameters })
+        .then(() => callback())
+        .catch(errback)
+    })
+    transport.on('produce', ({ kind, rtpParameters }, callback, errback) => {
+      this.network
+        .sfuRequest<{ id: string }>(Message.SFU_PRODUCE, {
+          transportId: transport.id,
+          kind,
+          rtpParameters,
+        })
+        .then(callback)
+        .catch(errback)
+    })
+    transport.on('connectionstatechange', (state) => {
+      if (state === 'failed') this.fail(new Error(`SFU transport ${transport.id} failed`))
+    })
+    return transport
+  }
+
+  private fail(error: Error) {
+    if (this.closed) return
+    console.error('SFU connection failed', error)
+    this.close()
+    this.onFailure()
+  }
+
+  // send our camera and microphone to the SFU, only done once as the tracks never change
+  async publish(stream: MediaStream) {
+    if (this.published) return
+    this.published = true
+    try {
+      await this.ready
+      for (const track of stream.getTracks()) {
+        if (this.closed) return
+        await this.sendTransport!.produce({ track })
+      }
+    } catch (error) {
+      this.fail(error as Error)
+    }
+  }
+
+  // ask the server to forward the stream of a player (tracks arrive through addConsumer())
+  subscribe(clientId: string) {
+    this.subscriptions.add(clientId)
+    this.ready.then(() => this.network.sfuSubscribe(clientId)).catch(() => {})
+  }
+
+  unsubscribe(clientId: string) {
+    if (!this.subscriptions.delete(clientId)) return
+    this.network.sfuUnsubscribe(clientId)
+    this.consumers.forEach(({ clientId: id, consumer }, consumerId) => {
+      if (id !== clientId) return
+      consumer.close()
+      this.consumers.delete(consumerId)
+    })
+    this.streams.delete(clientId)
+  }
+
+  // when the server forwards a track of a player we subscribed to
+  async addConsumer({ clientId, id, producerId, kind, rtpParameters }: SfuConsumer) {
+    // the server may forward a track before it got our unsubscribe
+    if (!this.subscriptions.has(clientId)) return
+
+    try {
+      await this.ready
+      // a consumer is sent again when we subscribe again, e.g. after hanging up
+      if (!this.consumers.has(id)) {
+        const consumer = await this.recvTransport!.consume({ id, producerId, kind, rtpParameters })
+        if (this.closed || !this.subscriptions.has(clientId)) {
+          consumer.close()
+          return
+        }
+        this.consumers.set(id, { clientId, consumer })
+        let stream = this.streams.get(clientId)
+        if (!stream) {
+          stream = new MediaStream()
+          this.streams.set(clientId, stream)
+        }
+        stream.addTrack(consumer.track)
+        // consumers are created paused so that no packet is lost before the track is set up
+        this.network.resumeSfuConsumer(id)
+      }
+      const stream = this.streams.get(clientId)
+      if (stream) this.onStream(clientId, stream)
+    } catch (error) {
+      this.fail(error as Error)
+    }
+  }
+
+  // when the player stopped sending the track
+  removeConsumer(id: string) {
+    const entry = this.consumers.get(id)
+    if (!entry) return
+    entry.consumer.close()
+    this.consumers.delete(id)
+    this.streams.get(entry.clientId)?.removeTrack(entry.consumer.track)
+  }
+
+  close() {
+    if (this.closed) return
+    this.closed = true
+    // closing the transports also closes their producers and consumers
+    this.sendTransport?.close()
+    this.recvTransport?.close()
+    this.consumers.clear()
+    this.streams.clear()
+    this.subscriptions.clear()
+  }
+}
@@ -1,21 +1,56 @@
 import Peer from 'peerjs'
 import Network from '../services/Network'
+import { getPeerOptions } from './peerConfig'
 import store from '../stores'
 import { setVideoConnected } from '../stores/UserStore'
+import { getSpatialAudio } from './spatialAudio'
+import SfuConnection, { SfuConsumer } from './SfuConnection'
+import { MediaMode } from '../../../types/Media'
+import { IPlayer } from '../../../types/IOfficeState'
+import { PlayerStatus } from '../../../types/PlayerStatus'
+
+// seconds it takes a hung up call to fade out
+const FADE_OUT_DURATION = 1
+// time constant of the volume and panning changes, avoids clicks when players move
+const SMOOTHING = 0.1
+
+interface SpatialAudioNodes {
+  source: MediaStreamAudioSourceNode
+  gain: GainNode
+  panner: StereoPannerNode
+}
+
+interface PeerCall {
+  video: HTMLVideoElement
+  // ends the PeerJS call (mesh) or stops listening to the player (SFU)
+  close: () => void
+  // set once the peer's stream arrived, if it has an audio track
+  audio?: SpatialAudioNodes
+}
 
 export default class WebRTC {
   private myPeer: Peer
-  private peers = new Map<string, { call: Peer.MediaConnection; video: HTMLVideoElement }>()
-  private onCalledPeers = new Map<string, { call: Peer.MediaConnection; video: HTMLVideoElement }>()
+  private peers = new Map<string, PeerCall>()
+  private onCalledPeers = new Map<string, PeerCall>()
+  private audioContext?: AudioContext
   private videoGrid = document.querySelector('.video-grid')
   private buttonGrid = document.querySelector('.button-grid')
   private myVideo = document.createElement('video')
   private myStream?: MediaStream
   private network: Network
+  private mediaMode = MediaMode.MESH
+  // only set while the room uses the SFU
+  private sfu?: SfuConnection
+  // only set while we record a call, every source of the recording is connected to it
+  private recordingMix?: {
+    input: GainNode
+    destination: MediaStreamAudioDestinationNode
+    sources: MediaStreamAudioSourceNode[]
+  }
 
   constructor(userId: string, network: Network) {
     const sanitizedId = this.replaceInvalidId(userId)
-    this.myPeer = new Peer(sanitizedId)
+    this.myPeer = new Peer(sanitizedId, getPeerOptions())
     this.network = network
     console.log('userId:', userId)
     console.log('sanitizedId:', sanitizedId)
@@ -39,19 +74,40 @@ export default class WebRTC {
 
   initialize() {
     this.myPeer.on('call', (call) => {
-      if (!this.onCalledPeers.has(call.peer)) {
-        call.answer(this.myStream)
-        const video = document.createElement('video')
-        this.onCalledPeers.set(call.peer, { call, video })
-
-        call.on('stream', (userVideoStream) => {
-          this.addVideoStream(video, userVideoStream)
-        })
+      // a peer calling again (after one of us reconnected) replaces its previous call
+      this.deleteOnCalledVideoStream(call.peer)
+      // a late call from before the room switched to the SFU
+      if (this.usesSfu) return call.close()
+      if (!this.canAnswer(call.peer)) return call.close()
+      call.answer(this.myStream)
+      const peerCall: PeerCall = {
+        video: document.createElement('video'),
+        close: () => call.close(),
       }
+      this.onCalledPeers.set(call.peer, peerCall)
+
+      call.on('stream', (userVideoStream) => {
+        this.addPeerStream(peerCall, userVideoStream)
+      })
       // on close is triggered manually with deleteOnCalledVideoStream()
     })
   }
 
+  /**
+   * Players only call the ones in their zone and never while in do-not-disturb (see
+   * OtherPlayer.makeCall), a modified client could call anyone so the same rules are checked here.
+   */
+  private canAnswer(peerId: string) {
+    const players = this.network.getPlayers()
+    const me = players?.get(this.network.mySessionId)
+    if (!players || !me || me.status === PlayerStatus.DO_NOT_DISTURB) return false
+    let caller: IPlayer | undefined
+    players.forEach((player, id) => {
+      if (this.replaceInvalidId(id) === peerId) caller = player
+    })
+    return !!caller && caller.status !== PlayerStatus.DO_NOT_DISTURB && caller.zone === me.zone
+  }
+
   // check if permission has been granted before
   checkPreviousPermission() {
     const permissionName = 'microphone' as PermissionName
@@ -73,6 +129,7 @@ export default class WebRTC {
         this.setUpButtons()
         store.dispatch(setVideoConnected(true))
         this.network.videoConnected()
+        this.sfu?.publish(stream)
       })
       .catch((error) => {
         if (alertOnError) window.alert('No webcam or microphone found, or permission is blocked')
@@ -84,13 +141,33 @@ export default class WebRTC {
     if (this.myStream) {
       const sanitizedId = this.replaceInvalidId(userId)
       if (!this.peers.has(sanitizedId)) {
+        if (this.sfu) {
+          // the SFU forwards the stream of the player (see addSfuConsumer())
+          const { sfu } = this
+          const peerCall: PeerCall = {
+            video: document.createElement('video'),
+            close: () => {
+              // unless we subscribed again while the call was fading out
+              const current = this.peers.get(sanitizedId)
+              if (current && current !== peerCall) return
+              sfu.unsubscribe(userId)
+            },
+          }
+          this.peers.set(sanitizedId, peerCall)
+          sfu.subscribe(userId)
+          return
+        }
+
         console.log('calling', sanitizedId)
         const call = this.myPeer.call(sanitizedId, this.myStream)
-        const video = document.createElement('video')
-        this.peers.set(sanitizedId, { call, video })
+        const peerCall: PeerCall = {
+          video: document.createElement('video'),
+          close: () => call.close(),
+        }
+        this.peers.set(sanitizedId, peerCall)
 
         call.on('stream', (userVideoStream) => {
-          this.addVideoStream(video, userVideoStream)
+          this.addPeerStream(peerCall, userVideoStream)
         })
 
         // on close is triggered manually with deleteVideoStream()
@@ -109,13 +186,93 @@ export default class WebRTC {
     if (this.videoGrid) this.videoGrid.append(video)
   }
 
+  // method to add a peer's stream, its sound is played through Web Audio to make it spatial
+  private addPeerStream(peerCall: PeerCall, stream: MediaStream) {
+    // the stream event fires once per track with some browsers, SFU tracks also arrive one by one
+    if (!peerCall.video.srcObject) this.addVideoStream(peerCall.video, stream)
+    if (peerCall.audio || stream.getAudioTracks().length === 0) return
+
+    const audioContext = this.getAudioContext()
+    const source = audioContext.createMediaStreamSource(stream)
+    const gain = audioContext.createGain()
+    const panner = audioContext.createStereoPanner()
+    source.connect(gain).connect(panner).connect(audioContext.destination)
+    // the recording gets the peer at full volume wherever they stand
+    if (this.recordingMix) source.connect(this.recordingMix.input)
+    // the video element still has to play the stream for Chrome to feed it to Web Audio
+    peerCall.video.muted = true
+    peerCall.audio = { source, gain, panner }
+  }
+
+  private getAudioContext() {
+    if (!this.audioContext) this.audioContext = new AudioContext()
+    // browsers create the context suspended when the user has not interacted with the page yet
+    if (this.audioContext.state === 'suspended') this.audioContext.resume()
+    return this.audioContext
+  }
+
+  // mix our microphone, the calls and the given streams (e.g. shared screens) into one audio track
+  startRecordingMix(streams: MediaStream[]) {
+    this.stopRecordingMix()
+    const audioContext = this.getAudioContext()
+    const input = audioContext.createGain()
+    const destination = audioContext.createMediaStreamDestination()
+    input.connect(destination)
+
+    const sources = [this.myStream, ...streams]
+      .filter((stream) => stream && stream.getAudioTracks().length > 0)
+      .map((stream) => audioContext.createMediaStreamSource(stream!))
+    sources.forEach((source) => source.connect(input))
+    const connectPeer = ({ audio }: PeerCall) => audio?.source.connect(input)
+    this.peers.forEach(connectPeer)
+    this.onCalledPeers.forEach(connectPeer)
+
+    this.recordingMix = { input, destination, sources }
+    return destination.stream
+  }
+
+  stopRecordingMix() {
+    if (!this.recordingMix) return
+    const { input, sources } = this.recordingMix
+    sources.forEach((source) => source.disconnect())
+    // the peers stay connected to the input until they hang up, which is silent from now on
+    input.disconnect()
+    this.recordingMix = undefined
+  }
+
+  // method to set the volume and panning of a call from where the other player stands (dx, dy)
+  updateSpatialAudio(userId: string, dx: number, dy: number) {
+    const sanitizedId = this.replaceInvalidId(userId)
+    const audio = (this.peers.get(sanitizedId) ?? this.onCalledPeers.get(sanitizedId))?.audio
+    if (!audio || !this.audioContext) return
+
+    const { gain, pan } = getSpatialAudio(dx, dy)
+    const { currentTime } = this.audioContext
+    audio.gain.gain.setTargetAtTime(gain, currentTime, SMOOTHING)
+    audio.panner.pan.setTargetAtTime(pan, currentTime, SMOOTHING)
+  }
+
+  // fade the peer out instead of cutting the sound, then close the call
+  private hangUp(peerCall: PeerCall) {
+    const { video, audio } = peerCall
+    const close = () => {
+      audio?.source.disconnect()
+      audio?.panner.disconnect()
+      peerCall.close()
+      video.remove()
+    }
+    if (!audio || !this.audioContext) return close()
+
+    audio.gain.gain.setTargetAtTime(0, this.audioContext.currentTime, FADE_OUT_DURATION / 4)
+    window.setTimeout(close, FADE_OUT_DURATION * 1000)
+  }
+
   // method to remove video stream (when we are the host of the call)
   deleteVideoStream(userId: string) {
     const sanitizedId = this.replaceInvalidId(userId)
-    if (this.peers.has(sanitizedId)) {
-      const peer = this.peers.get(sanitizedId)
-      peer?.call.close()
-      peer?.video.remove()
+    const peer = this.peers.get(sanitizedId)
+    if (peer) {
+      this.hangUp(peer)
       this.peers.delete(sanitizedId)
     }
   }
@@ -123,14 +280,59 @@ export default class WebRTC {
   // method to remove video stream (when we are the guest of the call)
   deleteOnCalledVideoStream(userId: string) {
     const sanitizedId = this.replaceInvalidId(userId)
-    if (this.onCalledPeers.has(sanitizedId)) {
-      const onCalledPeer = this.onCalledPeers.get(sanitizedId)
-      onCalledPeer?.call.close()
-      onCalledPeer?.video.remove()
+    const onCalledPeer = this.onCalledPeers.get(sanitizedId)
+    if (onCalledPeer) {
+      this.hangUp(onCalledPeer)
       this.onCalledPeers.delete(sanitizedId)
     }
   }
 
+  // method to hang up every call after reconnecting to the room, calls are made again when close
+  reset() {
+    this.hangUpAll()
+    if (this.myPeer.disconnected && !this.myPeer.destroyed) this.myPeer.reconnect()
+  }
+
+  private hangUpAll() {
+    this.peers.forEach((peer, id) => this.deleteVideoStream(id))
+    this.onCalledPeers.forEach((peer, id) => this.deleteOnCalledVideoStream(id))
+  }
+
+  // in the SFU mode both players subscribe to each other, in the mesh mode only one calls
+  get usesSfu() {
+    return this.mediaMode === MediaMode.SFU
+  }
+
+  // method to switch between the mesh and the SFU, the players close by connect again afterwards
+  setMediaMode(mode: MediaMode) {
+    if (mode === this.mediaMode) return
+    this.hangUpAll()
+    this.sfu?.close()
+    this.sfu = undefined
+    this.mediaMode = mode
+    if (mode !== MediaMode.SFU) return
+
+    this.sfu = new SfuConnection(
+      this.network,
+      (clientId, stream) => {
+        const peer = this.peers.get(this.replaceInvalidId(clientId))
+        if (peer) this.addPeerStream(peer, stream)
+      },
+      // once most players reported it the whole room falls back to the mesh, which then calls
+      // setMediaMode() again
+      () => this.network.reportSfuUnavailable()
+    )
+    if (this.myStream) this.sfu.publish(this.myStream)
+  }
+
+  addSfuConsumer(consumer: SfuConsumer) {
+    this.sfu?.addConsumer(consumer)
+  }
+
+  removeSfuConsumer(consumerId: string) {
+    this.sfu?.removeConsumer(consumerId)
+  }
+
   // method to set up mute/unmute and video on/off buttons
   setUpButtons() {
     const audioButton = document.createElement('button')
@@ -0,0 +1,52 @@
+import Peer from 'peerjs'
+import { IIceConfig } from '../../../types/Media'
+import { getSessionToken, getToken } from '../utils/account'
+import { getServerEndpoint } from '../utils/helpers'
+
+const iceEndpoint = `${getServerEndpoint().replace(/^ws/, 'http')}/ice`
+// fetch new TURN credentials a while before the current ones expire
+const REFRESH_RATIO = 0.8
+
+/**
+ * RTC configuration shared by every peer connection. PeerJS keeps a reference to it, so the ICE
+ * servers can be filled in (and renewed) after the Peer objects were created.
+ */
+export const rtcConfig: RTCConfiguration = {}
+
+let refreshTimer: number | undefined
+
+// the server only gives the ICE servers to players in a room (see server/media/iceRoutes.ts)
+export async function loadIceServers() {
+  window.clearTimeout(refreshTimer)
+  const response = await fetch(iceEndpoint, {
+    headers: { Authorization: `Bearer ${await getToken()}` },
+  })
+  if (!response.ok) throw new Error(`Failed to get the ICE servers (${response.status})`)
+
+  const { iceServers, ttl }: IIceConfig = await response.json()
+  rtcConfig.iceServers = iceServers
+  if (ttl) {
+    refreshTimer = window.setTimeout(() => {
+      loadIceServers().catch((error) => console.error('failed to renew the ICE servers', error))
+    }, ttl * 1000 * REFRESH_RATIO)
+  }
+}
+
+/**
+ * PeerJS signals through the game server (see server/media/peerServer.ts), not the public cloud.
+ * The server only accepts our own peer ids with the token of the account we joined the room with.
+ */
+export function getPeerOptions(): Peer.PeerJSOption {
+  const { protocol, hostname, port } = new URL(getServerEndpoint())
+  const secure = protocol === 'wss:'
+  // the token option is missing from the PeerJS typings
+  const options: Peer.PeerJSOption & { token: string } = {
+    host: hostname,
+    port: port ? Number(port) : secure ? 443 : 80,
+    path: '/peerjs',
+    secure,
+    config: rtcConfig,
+    token: getSessionToken(),
+  }
+  return options
+}
@@ -0,0 +1,23 @@
+import { HEARING_DISTANCE } from '../../../types/Limits'
+
+// peers closer than this (in pixels) are heard at full volume, roughly when the avatars overlap
+const FULL_VOLUME_DISTANCE = 48
+// horizontal offset at which a peer is only heard on one side
+const FULL_PAN_DISTANCE = 160
+// how much of a peer stays audible on the opposite side
+const MAX_PAN = 0.8
+
+/**
+ * Volume (0 to 1) and stereo panning (-1 left to 1 right) of a peer standing dx, dy pixels away
+ * from us. The volume falls off smoothly between the two distances above.
+ */
+export function getSpatialAudio(dx: number, dy: number) {
+  const distance = Math.hypot(dx, dy)
+  const progress = Math.min(
+    Math.max((distance - FULL_VOLUME_DISTANCE) / (HEARING_DISTANCE - FULL_VOLUME_DISTANCE), 0),
+    1
+  )
+  const gain = (1 - progress) ** 2
+  const pan = Math.min(Math.max(dx / FULL_PAN_DISTANCE, -1), 1) * MAX_PAN
+  return { gain, pan }
+}
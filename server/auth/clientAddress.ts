@@ -0,0 +1,15 @@
+import http from 'http'
+
+/**
+ * Address of the client a request comes from. Behind a reverse proxy (e.g. on Heroku) set
+ * TRUST_PROXY=1, the address is then the last one the proxy added to X-Forwarded-For: the ones
+ * before it are sent by the client and can be anything.
+ */
+export function getClientAddress(req: http.IncomingMessage) {
+  const forwarded = req.headers['x-forwarded-for']
+  if (process.env.TRUST_PROXY && typeof forwarded === 'string') {
+    const addresses = forwarded.split(',')
+    return addresses[addresses.length - 1].trim()
+  }
+  return req.socket.remoteAddress ?? ''
+}
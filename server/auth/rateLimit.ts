@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from 'express'
+import TokenBucket from '../validation/TokenBucket'
+import { getClientAddress } from './clientAddress'
+
+/**
+ * Express middleware limiting how often a client address can call the routes it is used on, with
+ * a token bucket per address (see TokenBucket). Requests over the limit are answered with a 429.
+ */
+export default function rateLimit(capacity: number, refillPerSecond: number) {
+  const buckets = new Map<string, { bucket: TokenBucket; lastUsedAt: number }>()
+
+  // a bucket left alone for this long is full again, it can be forgotten
+  const idleTimeout = (capacity / refillPerSecond) * 1000
+  setInterval(() => {
+    const now = Date.now()
+    buckets.forEach(({ lastUsedAt }, address) => {
+      if (now - lastUsedAt > idleTimeout) buckets.delete(address)
+    })
+  }, idleTimeout).unref()
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const address = getClientAddress(req)
+    let entry = buckets.get(address)
+    if (!entry) {
+      entry = { bucket: new TokenBucket(capacity, refillPerSecond), lastUsedAt: 0 }
+      buckets.set(address, entry)
+    }
+    entry.lastUsedAt = Date.now()
+    if (!entry.bucket.take()) {
+      res.status(429).json({ error: 'Too many requests, please try again later' })
+      return
+    }
+    next()
+  }
+}
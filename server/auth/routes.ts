@@ -0,0 +1,183 @@
+import crypto from 'crypto'
+import bcrypt from 'bcrypt'
+import express, { NextFunction, Request, Response } from 'express'
+import {
+  IAccount,
+  IAuthResponse,
+  IProfile,
+  USERNAME_PATTERN,
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSWORD_LENGTH,
+} from '../../types/Accounts'
+import { BackgroundMode } from '../../types/BackgroundMode'
+import { playerTextures } from '../../types/Characters'
+import { MAX_PLAYER_NAME_LENGTH } from '../../types/Limits'
+import { AccountRecord, UsernameTakenError } from '../storage/AccountStorage'
+import { accountStorage } from '../storage'
+import { object, oneOf, optional, string } from '../validation/schema'
+import { signToken, verifyToken } from './tokens'
+import rateLimit from './rateLimit'
+
+const credentialsSchema = object({
+  username: string({ pattern: USERNAME_PATTERN }),
+  password: string({ min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH }),
+})
+
+// every field is optional, only the given ones are changed
+const profileSchema = object({
+  name: optional(string({ max: MAX_PLAYER_NAME_LENGTH })),
+  texture: optional(oneOf(playerTextures)),
+  preferences: optional(
+    object({
+      backgroundMode: optional(oneOf([BackgroundMode.DAY, BackgroundMode.NIGHT])),
+    })
+  ),
+})
+
+function createAccount(): AccountRecord {
+  return {
+    id: crypto.randomUUID(),
+    username: null,
+    passwordHash: null,
+    createdAt: Date.now(),
+    profile: { name: '', texture: '', preferences: {} },
+  }
+}
+
+function toAccount({ id, username, profile }: AccountRecord): IAccount {
+  return { id, username, profile }
+}
+
+function sendAuth(res: Response, account: AccountRecord) {
+  const body: IAuthResponse = { token: signToken(account.id), account: toAccount(account) }
+  res.json(body)
+}
+
+// reads the account of the bearer token, resolves to null when there is no valid token
+async function getAccount(req: Request) {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ')
+  const accountId = scheme === 'Bearer' ? verifyToken(token) : null
+  return accountId ? accountStorage.get(accountId) : null
+}
+
+// express 4 does not catch rejected promises of async handlers
+const handle =
+  (handler: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next)
+  }
+
+/**
+ * Accounts API, mounted on /auth. Guests get an account (and a token) on their first visit, they
+ * can later register a username and password to keep the same account on other devices.
+ */
+const router = express.Router()
+
+// both create accounts, a client address gets a few of them and then one every few minutes
+const accountCreationLimit = rateLimit(10, 1 / 300)
+// every attempt costs a bcrypt comparison, a few typos are fine but guessing passwords is not
+const loginLimit = rateLimit(10, 1 / 60)
+
+router.post(
+  '/guest',
+  accountCreationLimit,
+  handle(async (req, res) => {
+    const account = createAccount()
+    await accountStorage.save(account)
+    sendAuth(res, account)
+  })
+)
+
+// turns the guest account of the token into a registered one, or creates a new account
+router.post(
+  '/register',
+  accountCreationLimit,
+  handle(async (req, res) => {
+    const error = credentialsSchema(req.body)
+    if (error) {
+      res.status(400).json({ error })
+      return
+    }
+    const { username, password } = req.body
+    if (await accountStorage.findByUsername(username)) {
+      res.status(409).json({ error: 'This username is already taken' })
+      return
+    }
+
+    const current = await getAccount(req)
+    // the profile picked as a guest is kept, the stored account only changes once saved
+    const account: AccountRecord = {
+      ...(current && current.username === null ? current : createAccount()),
+      username,
+      passwordHash: await bcrypt.hash(password, 10),
+    }
+    try {
+      await accountStorage.save(account)
+    } catch (error) {
+      // registered by someone else while the password was hashed
+      if (!(error instanceof UsernameTakenError)) throw error
+      res.status(409).json({ error: 'This username is already taken' })
+      return
+    }
+    sendAuth(res, account)
+  })
+)
+
+router.post(
+  '/login',
+  loginLimit,
+  handle(async (req, res) => {
+    const error = credentialsSchema(req.body)
+    const account = error ? null : await accountStorage.findByUsername(req.body.username)
+    const valid =
+      !!account?.passwordHash && (await bcrypt.compare(req.body.password, account.passwordHash))
+    if (!valid) {
+      res.status(401).json({ error: 'Wrong username or password' })
+      return
+    }
+    sendAuth(res, account)
+  })
+)
+
+// restores the session of a returning player with a renewed token
+router.get(
+  '/me',
+  handle(async (req, res) => {
+    const account = await getAccount(req)
+    if (!account) {
+      res.status(401).json({ error: 'Invalid or expired token' })
+      return
+    }
+    account.lastSeenAt = Date.now()
+    await accountStorage.save(account)
+    sendAuth(res, account)
+  })
+)
+
+router.put(
+  '/profile',
+  handle(async (req, res) => {
+    const account = await getAccount(req)
+    if (!account) {
+      res.status(401).json({ error: 'Invalid or expired token' })
+      return
+    }
+    const error = profileSchema(req.body)
+    if (error) {
+      res.status(400).json({ error })
+      return
+    }
+
+    const { name, texture, preferences } = req.body as Partial<IProfile>
+    const { profile } = account
+    if (name !== undefined && name !== null) profile.name = name
+    if (texture !== undefined && texture !== null) profile.texture = texture
+    if (preferences?.backgroundMode !== undefined && preferences.backgroundMode !== null) {
+      profile.preferences.backgroundMode = preferences.backgroundMode
+    }
+    await accountStorage.save(account)
+    res.json(toAccount(account))
+  })
+)
+
+export default router
@@ -0,0 +1,52 @@
+import crypto from 'crypto'
+
+// tokens are renewed every time the client restores its session (GET /auth/me)
+export const TOKEN_LIFETIME = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Secret used to sign tokens. Without AUTH_SECRET a random one is generated, which means every
+ * token (and every guest account with it) is lost when the server restarts.
+ */
+const secret =
+  process.env.AUTH_SECRET ||
+  (() => {
+    console.warn('AUTH_SECRET is not set, tokens will not survive a server restart')
+    return crypto.randomBytes(32).toString('hex')
+  })()
+
+interface TokenPayload {
+  // account id
+  sub: string
+  // expiry timestamp in milliseconds
+  exp: number
+}
+
+function sign(content: string) {
+  return crypto.createHmac('sha256', secret).update(content).digest('base64url')
+}
+
+// token format: base64url(JSON payload).base64url(HMAC-SHA256 of the first part)
+export function signToken(accountId: string) {
+  const payload: TokenPayload = { sub: accountId, exp: Date.now() + TOKEN_LIFETIME }
+  const content = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${content}.${sign(content)}`
+}
+
+// returns the id of the account the token was issued for, or null if it is invalid or expired
+export function verifyToken(token: unknown) {
+  if (typeof token !== 'string' || token.length > 512) return null
+  const [content, signature] = token.split('.')
+  if (!content || !signature) return null
+
+  const expected = Buffer.from(sign(content))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(content, 'base64url').toString()) as TokenPayload
+    if (typeof payload.sub !== 'string' || !(payload.exp > Date.now())) return null
+    return payload.sub
+  } catch (e) {
+    return null
+  }
+}
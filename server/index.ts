@@ -2,23 +2,52 @@ import http from 'http'
 import express from 'express'
 import cors from 'cors'
 import { Server, LobbyRoom } from 'colyseus'
+import { WebSocketTransport } from '@colyseus/ws-transport'
 import { monitor } from '@colyseus/monitor'
 import { RoomType } from '../types/Rooms'
+import { DEFAULT_MAP_ID } from '../types/Maps'
+import { MediaMode } from '../types/Media'
 
 // import socialRoutes from "@colyseus/social/express"
 
 import { SkyOffice } from './rooms/SkyOffice'
+import authRoutes from './auth/routes'
+import { createPeerServer, PEER_PATH } from './media/peerServer'
+import iceRoutes from './media/iceRoutes'
+import recordingRoutes from './media/recordingRoutes'
+import { accountStorage } from './storage'
+import { TOKEN_LIFETIME } from './auth/tokens'
 
 const port = Number(process.env.PORT || 2567)
+// larger websocket frames are refused before they are parsed, a whiteboard import is the biggest
+const MAX_MESSAGE_SIZE = 4 * 1024 * 1024
 const app = express()
 
 app.use(cors())
 app.use(express.json())
 // app.use(express.static('dist'))
 
+// guest and registered accounts, rooms only accept players with a token issued here
+app.use('/auth', authRoutes)
+// STUN and TURN servers of the calls, with TURN credentials only valid for a while
+app.use('/ice', iceRoutes)
+// call recordings, uploaded by the recorder and listed per room
+app.use('/recordings', recordingRoutes)
+
+/**
+ * a guest who did not come back before their token expired has no way to use their account again,
+ * forget those accounts once a day
+ */
+const expireGuestAccounts = () =>
+  accountStorage
+    .removeGuestsNotSeenSince(Date.now() - TOKEN_LIFETIME)
+    .catch((error) => console.error('failed to expire guest accounts', error))
+expireGuestAccounts()
+setInterval(expireGuestAccounts, 24 * 60 * 60 * 1000).unref()
+
 const server = http.createServer(app)
 const gameServer = new Server({
-  server,
+  transport: new WebSocketTransport({ server, maxPayload: MAX_MESSAGE_SIZE }),
 })
 
 // register room handlers
@@ -28,9 +57,15 @@ gameServer.define(RoomType.PUBLIC, SkyOffice, {
   description: 'For making friends and familiarizing yourself with the controls',
   password: null,
   autoDispose: false,
+  mapId: DEFAULT_MAP_ID,
+  // set PUBLIC_MEDIA_MODE=sfu to forward the public lobby's calls through the server
+  mediaMode: process.env.PUBLIC_MEDIA_MODE === MediaMode.SFU ? MediaMode.SFU : MediaMode.MESH,
 })
 gameServer.define(RoomType.CUSTOM, SkyOffice).enableRealtimeListing()
 
+// signaling of the peer to peer calls and screen sharing, only open to players in a room
+app.use(PEER_PATH, createPeerServer(server))
+
 /**
  * Register @colyseus/social routes
  *
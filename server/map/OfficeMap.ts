@@ -0,0 +1,298 @@
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * The Tiled maps are shipped with the client, resolve them whether the server runs from source
+ * (server/map) or from the compiled output (server/lib/server/map).
+ */
+const MAP_DIR = [
+  path.resolve(__dirname, '../../client/public/assets/map'),
+  path.resolve(__dirname, '../../../../client/public/assets/map'),
+].find((dir) => fs.existsSync(dir))
+
+// object layers the client adds as colliders in Game.create
+const COLLIDING_OBJECT_LAYERS = [
+  'VendingMachine',
+  'ObjectsOnCollide',
+  'GenericObjectsOnCollide',
+  'Basement',
+]
+
+/**
+ * The player's physics body only covers the feet of the 32x48 sprite
+ * (see the collisionScale in MyPlayer), relative to the sprite's center.
+ */
+const PLAYER_BODY = { left: -8, right: 8, top: 14.4, bottom: 24 }
+
+// how far a sitting player can be from the center of a chair (covers sittingShiftData)
+const CHAIR_RANGE = 16
+
+// how far a player stuck in something (e.g. the desk next to their chair) may walk to get out of it
+const ESCAPE_DISTANCE = 16
+
+// Tiled stores flip flags in the highest bits of a gid
+const GID_MASK = 0x1fffffff
+
+interface TiledProperty {
+  name: string
+  type: string
+  value: any
+}
+
+interface TiledObject {
+  id: number
+  name: string
+  gid?: number
+  x: number
+  y: number
+  width: number
+  height: number
+  // relative to the object's position
+  polygon?: { x: number; y: number }[]
+  properties?: TiledProperty[]
+}
+
+interface TiledLayer {
+  name: string
+  type: 'tilelayer' | 'objectgroup'
+  data?: number[]
+  objects?: TiledObject[]
+}
+
+interface TiledTileset {
+  name: string
+  firstgid: number
+  tiles?: { id: number; properties?: TiledProperty[] }[]
+}
+
+interface TiledMap {
+  width: number
+  height: number
+  tilewidth: number
+  tileheight: number
+  layers: TiledLayer[]
+  tilesets: TiledTileset[]
+}
+
+interface Rect {
+  left: number
+  right: number
+  top: number
+  bottom: number
+}
+
+interface Zone {
+  name: string
+  points: { x: number; y: number }[]
+}
+
+// doors close off a zone when it is locked, see MeetingRoomLockCommand
+interface Door extends Rect {
+  zone: string
+}
+
+function overlaps(a: Rect, b: Rect) {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top
+}
+
+// ray casting: a point is inside if a ray going right from it crosses the outline an odd number of times
+function isInPolygon(x: number, y: number, points: { x: number; y: number }[]) {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]
+    const b = points[j]
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+const officeMaps = new Map<string, OfficeMap>()
+
+export default class OfficeMap {
+  readonly width: number
+  readonly height: number
+  private readonly tileWidth: number
+  private readonly tileHeight: number
+  private readonly columns: number
+  private readonly collidingTiles: boolean[]
+  private readonly colliders: Rect[]
+  private readonly chairs: { x: number; y: number }[]
+  private readonly zones: Zone[]
+  private readonly doors: Door[]
+
+  constructor(private readonly tiledMap: TiledMap) {
+    this.tileWidth = tiledMap.tilewidth
+    this.tileHeight = tiledMap.tileheight
+    this.columns = tiledMap.width
+    this.width = tiledMap.width * tiledMap.tilewidth
+    this.height = tiledMap.height * tiledMap.tileheight
+
+    // ground tiles collide if their tileset marks them with the "collides" property
+    const collidingGids = new Set<number>()
+    tiledMap.tilesets.forEach((tileset) => {
+      tileset.tiles?.forEach((tile) => {
+        if (tile.properties?.some((p) => p.name === 'collides' && p.value)) {
+          collidingGids.add(tileset.firstgid + tile.id)
+        }
+      })
+    })
+    const ground = this.getLayer('Ground')
+    this.collidingTiles = (ground?.data ?? []).map((gid) => collidingGids.has(gid & GID_MASK))
+
+    // tile objects are anchored at their bottom-left corner in Tiled
+    this.colliders = []
+    COLLIDING_OBJECT_LAYERS.forEach((layerName) => {
+      this.getObjects(layerName).forEach((obj) => {
+        this.colliders.push({
+          left: obj.x,
+          right: obj.x + obj.width,
+          top: obj.y - obj.height,
+          bottom: obj.y,
+        })
+      })
+    })
+
+    this.chairs = this.getObjects('Chair').map((obj) => ({
+      x: obj.x + obj.width * 0.5,
+      y: obj.y - obj.height * 0.5,
+    }))
+
+    // private meeting areas, drawn as polygons (or plain rectangles) in the "Zones" layer
+    this.zones = this.getObjects('Zones').map((obj) => ({
+      name: obj.name || `Zone ${obj.id}`,
+      points: (
+        obj.polygon ?? [
+          { x: 0, y: 0 },
+          { x: obj.width, y: 0 },
+          { x: obj.width, y: obj.height },
+          { x: 0, y: obj.height },
+        ]
+      ).map((point) => ({ x: obj.x + point.x, y: obj.y + point.y })),
+    }))
+
+    // plain rectangles (anchored at their top-left corner) with the name of the zone they close
+    this.doors = this.getObjects('Doors').map((obj) => ({
+      zone: obj.properties?.find((p) => p.name === 'zone')?.value ?? '',
+      left: obj.x,
+      right: obj.x + obj.width,
+      top: obj.y,
+      bottom: obj.y + obj.height,
+    }))
+  }
+
+  static load(fileName: string) {
+    let officeMap = officeMaps.get(fileName)
+    if (!officeMap) {
+      if (!MAP_DIR) throw new Error('Cannot find the client map assets directory')
+      const tiledMap = JSON.parse(fs.readFileSync(path.join(MAP_DIR, fileName), 'utf8'))
+      officeMap = new OfficeMap(tiledMap)
+      officeMaps.set(fileName, officeMap)
+    }
+    return officeMap
+  }
+
+  getLayer(name: string) {
+    return this.tiledMap.layers.find((layer) => layer.name === name)
+  }
+
+  getObjects(layerName: string) {
+    return this.getLayer(layerName)?.objects ?? []
+  }
+
+  /**
+   * whether a player standing at (x, y) would overlap a colliding tile or object, or a door of one
+   * of the closed zones
+   */
+  collides(x: number, y: number, closedZones: string[] = []) {
+    return this.getCollisions(x, y, closedZones).length > 0
+  }
+
+  // keys of everything a player standing at (x, y) overlaps
+  private getCollisions(x: number, y: number, closedZones: string[]) {
+    // shrink the body by a pixel so that touching a wall is not counted as overlapping it
+    const body: Rect = {
+      left: x + PLAYER_BODY.left + 1,
+      right: x + PLAYER_BODY.right - 1,
+      top: y + PLAYER_BODY.top + 1,
+      bottom: y + PLAYER_BODY.bottom - 1,
+    }
+    if (body.left < 0 || body.top < 0 || body.right > this.width || body.bottom > this.height) {
+      return ['bounds']
+    }
+
+    const collisions: string[] = []
+
+    const firstColumn = Math.floor(body.left / this.tileWidth)
+    const lastColumn = Math.floor(body.right / this.tileWidth)
+    const firstRow = Math.floor(body.top / this.tileHeight)
+    const lastRow = Math.floor(body.bottom / this.tileHeight)
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const tile = row * this.columns + column
+        if (this.collidingTiles[tile]) collisions.push(`tile-${tile}`)
+      }
+    }
+    this.colliders.forEach((rect, i) => {
+      if (overlaps(body, rect)) collisions.push(`object-${i}`)
+    })
+    this.doors.forEach((door, i) => {
+      if (closedZones.indexOf(door.zone) !== -1 && overlaps(body, door)) {
+        collisions.push(`door-${i}`)
+      }
+    })
+    return collisions
+  }
+
+  /**
+   * whether a player can walk in a straight line from one point to another. A player stuck in
+   * something (e.g. the desk next to a chair after standing up) may walk out of it, as long as they
+   * are out within ESCAPE_DISTANCE, touch nothing else and end up somewhere free.
+   */
+  canWalk(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    closedZones: string[] = [],
+    step = 4
+  ) {
+    if (fromX === toX && fromY === toY) return true
+    const stuckIn = this.getCollisions(fromX, fromY, closedZones)
+    const distance = Math.hypot(toX - fromX, toY - fromY)
+    const steps = Math.max(1, Math.ceil(distance / step))
+    let free = false
+    for (let i = 1; i <= steps; i++) {
+      const x = fromX + ((toX - fromX) * i) / steps
+      const y = fromY + ((toY - fromY) * i) / steps
+      const collisions = this.getCollisions(x, y, closedZones)
+      if (collisions.length === 0) {
+        free = true
+      } else if (
+        free ||
+        (distance * i) / steps > ESCAPE_DISTANCE ||
+        collisions.some((collision) => stuckIn.indexOf(collision) === -1)
+      ) {
+        return false
+      }
+    }
+    return free
+  }
+
+  isNearChair(x: number, y: number) {
+    return this.chairs.some((chair) => Math.hypot(chair.x - x, chair.y - y) <= CHAIR_RANGE)
+  }
+
+  // name of the zone a player standing at (x, y) is in, empty when outside of every zone
+  getZone(x: number, y: number) {
+    return this.zones.find((zone) => isInPolygon(x, y, zone.points))?.name ?? ''
+  }
+
+  // zones that have doors, they are the meeting rooms that can be locked
+  getLockableZones() {
+    return this.zones
+      .map((zone) => zone.name)
+      .filter((name) => this.doors.some((door) => door.zone === name))
+  }
+}
@@ -0,0 +1,245 @@
+import { types } from 'mediasoup'
+import { Message } from '../../types/Messages'
+import { getWorker, mediaCodecs, onWorkerDied, webRtcTransportOptions } from './sfu'
+
+interface MediaPeer {
+  // what the client's browser can receive, sent when it creates its transports
+  rtpCapabilities?: types.RtpCapabilities
+  sendTransport?: types.WebRtcTransport
+  recvTransport?: types.WebRtcTransport
+  producers: Map<string, types.Producer>
+  // streams of other peers forwarded to this one, keyed by consumer id
+  consumers: Map<string, types.Consumer>
+  // ids of the producers a consumer is being created for
+  pendingConsumers: Set<string>
+  // session ids of the peers this one listens to
+  subscriptions: Set<string>
+}
+
+type Send = (peerId: string, type: Message, message: any) => void
+
+/**
+ * Selective forwarding unit of a SkyOffice room: every player publishes their stream once and the
+ * router forwards it to the players who subscribed to it, which are the ones close to them (see
+ * OtherPlayer.makeCall). Peers are keyed by session id.
+ */
+export default class MediaRoom {
+  private peers = new Map<string, MediaPeer>()
+  private closed = false
+  private stopListening: () => void
+
+  private constructor(private router: types.Router, private send: Send, onClose: () => void) {
+    this.stopListening = onWorkerDied(() => {
+      this.close()
+      onClose()
+    })
+  }
+
+  // resolves to null when the SFU is unavailable
+  static async create(send: Send, onClose: () => void) {
+    const worker = await getWorker()
+    if (!worker) return null
+    try {
+      const router = await worker.createRouter({ mediaCodecs })
+      return new MediaRoom(router, send, onClose)
+    } catch (error) {
+      console.error('cannot create a mediasoup router', error)
+      return null
+    }
+  }
+
+  get rtpCapabilities() {
+    return this.router.rtpCapabilities
+  }
+
+  private getPeer(peerId: string) {
+    let peer = this.peers.get(peerId)
+    if (!peer) {
+      peer = {
+        producers: new Map(),
+        consumers: new Map(),
+        pendingConsumers: new Set(),
+        subscriptions: new Set(),
+      }
+      this.peers.set(peerId, peer)
+    }
+    return peer
+  }
+
+  async createTransport(
+    peerId: string,
+    producing: boolean,
+    rtpCapabilities: types.RtpCapabilities
+  ) {
+    const peer = this.getPeer(peerId)
+    peer.rtpCapabilities = rtpCapabilities
+    const transport = await this.router.createWebRtcTransport(webRtcTransportOptions)
+
+    // the player may have left in the meantime
+    if (this.peers.get(peerId) !== peer) {
+      transport.close()
+      throw new Error('The player left the room')
+    }
+    // a client that connects again replaces its previous transport
+    if (producing) {
+      peer.sendTransport?.close()
+      peer.sendTransport = transport
+    } else {
+      peer.recvTransport?.close()
+      peer.recvTransport = transport
+    }
+
+    const { id, iceParameters, iceCandidates, dtlsParameters } = transport
+    return { id, iceParameters, iceCandidates, dtlsParameters }
+  }
+
+  async connectTransport(
+    peerId: string,
+    transportId: string,
+    dtlsParameters: types.DtlsParameters
+  ) {
+    const peer = this.peers.get(peerId)
+    const transport = [peer?.sendTransport, peer?.recvTransport].find(
+      (transport) => transport?.id === transportId
+    )
+    if (!transport) throw new Error('Unknown transport')
+    await transport.connect({ dtlsParameters })
+  }
+
+  async produce(
+    peerId: string,
+    transportId: string,
+    kind: types.MediaKind,
+    rtpParameters: types.RtpParameters
+  ) {
+    const peer = this.peers.get(peerId)
+    if (!peer?.sendTransport || peer.sendTransport.id !== transportId) {
+      throw new Error('Unknown transport')
+    }
+    // players send at most their camera and microphone
+    if (Array.from(peer.producers.values()).some((producer) => producer.kind === kind)) {
+      throw new Error(`Already sending ${kind}`)
+    }
+
+    const producer = await peer.sendTransport.produce({ kind, rtpParameters })
+    peer.producers.set(producer.id, producer)
+    producer.on('transportclose', () => peer.producers.delete(producer.id))
+
+    // forward the new stream to everyone already listening to this peer
+    this.peers.forEach((other, otherId) => {
+      if (other.subscriptions.has(peerId)) this.consume(otherId, peerId, producer)
+    })
+    return producer.id
+  }
+
+  // start forwarding the streams of the target to the peer, including the ones published later
+  subscribe(peerId: string, targetId: string) {
+    const peer = this.peers.get(peerId)
+    if (!peer || peerId === targetId) return
+    peer.subscriptions.add(targetId)
+    this.peers.get(targetId)?.producers.forEach((producer) => {
+      this.consume(peerId, targetId, producer)
+    })
+  }
+
+  unsubscribe(peerId: string, targetId: string) {
+    const peer = this.peers.get(peerId)
+    if (!peer) return
+    peer.subscriptions.delete(targetId)
+    peer.consumers.forEach((consumer, consumerId) => {
+      if (consumer.appData.peerId !== targetId) return
+      peer.consumers.delete(consumerId)
+      consumer.close()
+    })
+  }
+
+  // stop forwarding the streams a peer may no longer receive, e.g. once the target walked away
+  revokeSubscriptions(isAllowed: (peerId: string, targetId: string) => boolean) {
+    this.peers.forEach((peer, peerId) => {
+      peer.subscriptions.forEach((targetId) => {
+        if (isAllowed(peerId, targetId)) return
+        peer.consumers.forEach((consumer, id) => {
+          if (consumer.appData.peerId === targetId) {
+            this.send(peerId, Message.SFU_CONSUMER_CLOSED, { clientId: targetId, id })
+          }
+        })
+        this.unsubscribe(peerId, targetId)
+      })
+    })
+  }
+
+  // consumers start paused, the client resumes them once it is ready to play them
+  async resumeConsumer(peerId: string, consumerId: string) {
+    await this.peers.get(peerId)?.consumers.get(consumerId)?.resume()
+  }
+
+  removePeer(peerId: string) {
+    const peer = this.peers.get(peerId)
+    if (!peer) return
+    this.peers.delete(peerId)
+    // closing the send transport closes the consumers of the other peers too
+    peer.sendTransport?.close()
+    peer.recvTransport?.close()
+  }
+
+  close() {
+    if (this.closed) return
+    this.closed = true
+    this.stopListening()
+    this.peers.clear()
+    this.router.close()
+  }
+
+  /**
+   * Sends the consumer parameters to the peer, subscribing again to the same target sends the
+   * existing consumers (e.g. after the client reconnected and dropped its own).
+   */
+  private async consume(peerId: string, targetId: string, producer: types.Producer) {
+    const peer = this.peers.get(peerId)
+    if (!peer?.recvTransport || !peer.rtpCapabilities) return
+    if (peer.pendingConsumers.has(producer.id)) return
+
+    let consumer = Array.from(peer.consumers.values()).find((c) => c.producerId === producer.id)
+    if (!consumer) {
+      const { rtpCapabilities, recvTransport } = peer
+      if (!this.router.canConsume({ producerId: producer.id, rtpCapabilities })) return
+
+      peer.pendingConsumers.add(producer.id)
+      try {
+        consumer = await recvTransport.consume({
+          producerId: producer.id,
+          rtpCapabilities,
+          paused: true,
+          appData: { peerId: targetId },
+        })
+      } catch (error) {
+        console.error('cannot forward a stream', error)
+        return
+      } finally {
+        peer.pendingConsumers.delete(producer.id)
+      }
+
+      // the peer may have unsubscribed or left in the meantime
+      if (this.peers.get(peerId) !== peer || !peer.subscriptions.has(targetId)) {
+        consumer.close()
+        return
+      }
+      const consumerId = consumer.id
+      peer.consumers.set(consumerId, consumer)
+      consumer.on('transportclose', () => peer.consumers.delete(consumerId))
+      consumer.on('producerclose', () => {
+        peer.consumers.delete(consumerId)
+        this.send(peerId, Message.SFU_CONSUMER_CLOSED, { clientId: targetId, id: consumerId })
+      })
+    }
+
+    const { id, kind, rtpParameters } = consumer
+    this.send(peerId, Message.SFU_NEW_CONSUMER, {
+      clientId: targetId,
+      id,
+      producerId: producer.id,
+      kind,
+      rtpParameters,
+    })
+  }
+}
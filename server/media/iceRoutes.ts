@@ -0,0 +1,61 @@
+import crypto from 'crypto'
+import express from 'express'
+import { IIceConfig, IIceServer } from '../../types/Media'
+import { verifyToken } from '../auth/tokens'
+import { isIdentityInRoom } from '../rooms/sessions'
+
+function parseUrls(value = '') {
+  return value
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url !== '')
+}
+
+/**
+ * Comma separated lists of STUN and TURN urls. ICE_STUN_URLS can be set to an empty string on a
+ * network without internet access. TURN_SECRET is the secret shared with the TURN server (e.g.
+ * coturn's static-auth-secret), the credentials derived from it expire after TURN_CREDENTIAL_TTL.
+ */
+const STUN_URLS = parseUrls(process.env.ICE_STUN_URLS ?? 'stun:stun.l.google.com:19302')
+const TURN_URLS = parseUrls(process.env.TURN_URLS)
+const TURN_SECRET = process.env.TURN_SECRET
+const TURN_CREDENTIAL_TTL = Number(process.env.TURN_CREDENTIAL_TTL || 60 * 60)
+
+// credentials of the TURN REST API, the TURN server computes the same HMAC to check them
+function createTurnCredentials(identity: string) {
+  const expiresAt = Math.floor(Date.now() / 1000) + TURN_CREDENTIAL_TTL
+  const username = `${expiresAt}:${identity}`
+  const credential = crypto.createHmac('sha1', TURN_SECRET!).update(username).digest('base64')
+  return { username, credential }
+}
+
+/**
+ * ICE servers of the calls, mounted on /ice. Only players currently in a room get them, so that
+ * the TURN server cannot be used as a relay by anyone who found the page.
+ */
+const router = express.Router()
+
+router.get('/', (req, res) => {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ')
+  const identity = scheme === 'Bearer' ? verifyToken(token) : null
+  if (!identity) {
+    res.status(401).json({ error: 'Not signed in' })
+    return
+  }
+  if (!isIdentityInRoom(identity)) {
+    res.status(403).json({ error: 'Join a room first' })
+    return
+  }
+
+  const iceServers: IIceServer[] = STUN_URLS.length > 0 ? [{ urls: STUN_URLS }] : []
+  const config: IIceConfig = { iceServers }
+  if (TURN_URLS.length > 0 && TURN_SECRET) {
+    iceServers.push({ urls: TURN_URLS, ...createTurnCredentials(identity) })
+    config.ttl = TURN_CREDENTIAL_TTL
+  }
+  // the credentials are personal
+  res.set('Cache-Control', 'no-store')
+  res.json(config)
+})
+
+export default router
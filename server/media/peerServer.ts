@@ -0,0 +1,78 @@
+import http from 'http'
+import { Duplex } from 'stream'
+import { ExpressPeerServer, IClient } from 'peer'
+import { WebSocketServer } from 'ws'
+import { verifyToken } from '../auth/tokens'
+import { getSession, getSessionIds, onSessionRemoved } from '../rooms/sessions'
+
+// where the PeerJS signaling server is mounted, the clients connect to `${PEER_PATH}/peerjs`
+export const PEER_PATH = '/peerjs'
+
+const peerClients = new Map<string, IClient>()
+
+/**
+ * the clients derive their PeerJS ids from their session id: the calls use the sanitized session
+ * id and screen sharing adds `-ss` to it (see client/src/web/WebRTC.ts and ShareScreenManager.ts)
+ */
+function getPeerIds(sessionId: string) {
+  const sanitizedId = sessionId.replace(/[^0-9a-z]/gi, 'G')
+  return [sanitizedId, `${sanitizedId}-ss`]
+}
+
+/**
+ * only the players currently in a room can connect to the signaling server, with the ids of their
+ * own session: the clients pass their account token as the PeerJS token
+ */
+function isAllowedId(peerId: string, token: string) {
+  const identity = verifyToken(token)
+  const sessionId = getSessionIds().find((id) => getPeerIds(id).indexOf(peerId) !== -1)
+  return !!identity && !!sessionId && getSession(sessionId)?.identity === identity
+}
+
+// and they are disconnected once they left it
+onSessionRemoved((sessionId) => {
+  getPeerIds(sessionId).forEach((id) => peerClients.get(id)?.getSocket()?.close())
+})
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`)
+  socket.destroy()
+}
+
+/**
+ * PeerJS signaling server for the calls and screen sharing, served by the game server instead of
+ * the public PeerJS cloud so that it also works without internet access. It has to be created
+ * after the colyseus server, which answers every websocket upgrade of the http server otherwise.
+ */
+export function createPeerServer(server: http.Server) {
+  let wss: WebSocketServer | undefined
+  let wssPath = ''
+  const peerServer = ExpressPeerServer(server, {
+    // upgrades are routed below, PeerJS only gets the ones of allowed ids
+    createWebSocketServer: ({ path }) => {
+      wssPath = path ?? ''
+      wss = new WebSocketServer({ noServer: true, path })
+      return wss
+    },
+  })
+
+  peerServer.on('connection', (client) => peerClients.set(client.getId(), client))
+  peerServer.on('disconnect', (client) => {
+    if (peerClients.get(client.getId()) === client) peerClients.delete(client.getId())
+  })
+
+  const colyseusListeners = server.listeners('upgrade')
+  server.removeAllListeners('upgrade')
+  server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname, searchParams } = new URL(req.url ?? '', 'http://localhost')
+    if (!wss || pathname !== wssPath) {
+      colyseusListeners.forEach((listener) => listener.call(server, req, socket, head))
+      return
+    }
+    const allowed = isAllowedId(searchParams.get('id') ?? '', searchParams.get('token') ?? '')
+    if (!allowed) return reject(socket, '403 Forbidden')
+    wss.handleUpgrade(req, socket, head, (ws) => wss!.emit('connection', ws, req))
+  })
+
+  return peerServer
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto'
+import express, { NextFunction, Request, Response } from 'express'
+import { IRecordingInfo, MAX_RECORDING_SIZE } from '../../types/Recordings'
+import { verifyToken } from '../auth/tokens'
+import { getSession } from '../rooms/sessions'
+import { recordingStorage } from '../storage'
+
+// how long the recorder has to upload a recording once it stopped
+const UPLOAD_WINDOW = 10 * 60 * 1000
+const mimeTypes = ['audio/webm', 'video/webm']
+
+interface Upload {
+  channel: string
+  // account of the recorder, only they can upload the file
+  identity: string
+  title: string
+  createdAt: number
+  expiresAt: number
+}
+
+// recordings that stopped and wait for their file, keyed by upload id
+const uploads = new Map<string, Upload>()
+
+/**
+ * Called by the room when a recording stops, returns the id the recorder uploads the file with.
+ * Every participant consented to what was recorded, the room makes sure of that.
+ */
+export function expectRecordingUpload(upload: Omit<Upload, 'expiresAt'>) {
+  const now = Date.now()
+  uploads.forEach(({ expiresAt }, id) => {
+    if (expiresAt <= now) uploads.delete(id)
+  })
+  const uploadId = crypto.randomUUID()
+  uploads.set(uploadId, { ...upload, expiresAt: now + UPLOAD_WINDOW })
+  return uploadId
+}
+
+// MediaRecorder types come with codecs parameters that are not valid in a Content-Type header
+function getMimeType(req: Request) {
+  return (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase()
+}
+
+function getIdentity(req: Request) {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ')
+  return scheme === 'Bearer' ? verifyToken(token) : null
+}
+
+/**
+ * channel of the room the player of the sessionId query parameter is in, as long as the token
+ * belongs to that player
+ */
+function getChannel(req: Request) {
+  const identity = getIdentity(req)
+  const session = getSession(String(req.query.sessionId))
+  return identity && session?.identity === identity ? session.channel : null
+}
+
+// express 4 does not catch rejected promises of async handlers
+const handle =
+  (handler: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next)
+  }
+
+/**
+ * Recordings of computer and zone calls, mounted on /recordings. The players of a room can list
+ * and download the recordings made in it.
+ */
+const router = express.Router()
+
+router.post(
+  '/upload/:uploadId',
+  express.raw({
+    type: (req) => mimeTypes.indexOf(getMimeType(req as Request)) !== -1,
+    limit: MAX_RECORDING_SIZE,
+  }),
+  handle(async (req, res) => {
+    const upload = uploads.get(req.params.uploadId)
+    if (!upload || upload.expiresAt <= Date.now() || upload.identity !== getIdentity(req)) {
+      res.status(403).json({ error: 'This recording cannot be uploaded' })
+      return
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'The recording is empty' })
+      return
+    }
+    uploads.delete(req.params.uploadId)
+
+    const { channel, title, createdAt } = upload
+    const info: IRecordingInfo = {
+      id: crypto.randomUUID(),
+      title,
+      createdAt,
+      size: req.body.length,
+      mimeType: getMimeType(req),
+    }
+    await recordingStorage.save(channel, info, req.body)
+    res.status(201).json(info)
+  })
+)
+
+router.get(
+  '/',
+  handle(async (req, res) => {
+    const channel = getChannel(req)
+    if (!channel) {
+      res.status(403).json({ error: 'Join the room first' })
+      return
+    }
+    res.json(await recordingStorage.list(channel))
+  })
+)
+
+router.get(
+  '/:recordingId',
+  handle(async (req, res) => {
+    const channel = getChannel(req)
+    if (!channel) {
+      res.status(403).json({ error: 'Join the room first' })
+      return
+    }
+    const recording = await recordingStorage.load(channel, req.params.recordingId)
+    if (!recording) {
+      res.status(404).json({ error: 'No such recording' })
+      return
+    }
+    res.set('Content-Type', recording.info.mimeType)
+    res.send(recording.data)
+  })
+)
+
+export default router
@@ -0,0 +1,67 @@
+import * as mediasoup from 'mediasoup'
+
+/**
+ * The SFU runs in a mediasoup worker process next to the game server. Clients reach it directly
+ * over UDP (or TCP) on the RTC port range, so SFU_ANNOUNCED_IP has to be set to the public address
+ * of the machine when the server is not only used locally.
+ */
+const LISTEN_IP = process.env.SFU_LISTEN_IP || '127.0.0.1'
+const ANNOUNCED_IP = process.env.SFU_ANNOUNCED_IP || undefined
+const RTC_MIN_PORT = Number(process.env.SFU_RTC_MIN_PORT || 40000)
+const RTC_MAX_PORT = Number(process.env.SFU_RTC_MAX_PORT || 40999)
+
+export const mediaCodecs: mediasoup.types.RouterOptions['mediaCodecs'] = [
+  { kind: 'audio', mimeType: 'audio/opus', clockRate: 48000, channels: 2 },
+  { kind: 'video', mimeType: 'video/VP8', clockRate: 90000 },
+]
+
+export const webRtcTransportOptions: mediasoup.types.WebRtcTransportOptions = {
+  listenIps: [{ ip: LISTEN_IP, announcedIp: ANNOUNCED_IP }],
+  enableUdp: true,
+  enableTcp: true,
+  preferUdp: true,
+}
+
+// every room shares the same worker, it is started with the first room that uses the SFU
+let workerPromise: Promise<mediasoup.types.Worker> | null = null
+const diedListeners = new Set<() => void>()
+
+/**
+ * Resolves to null when the worker cannot be started (e.g. the mediasoup binary was not built),
+ * the rooms then fall back to the mesh mode.
+ */
+export async function getWorker() {
+  if (!workerPromise) {
+    workerPromise = mediasoup.createWorker({
+      logLevel: 'warn',
+      rtcMinPort: RTC_MIN_PORT,
+      rtcMaxPort: RTC_MAX_PORT,
+    })
+    workerPromise
+      .then((worker) => {
+        worker.on('died', (error) => {
+          console.error('mediasoup worker died', error)
+          // the next room to use the SFU starts a new worker
+          workerPromise = null
+          diedListeners.forEach((listener) => listener())
+        })
+      })
+      .catch(() => {
+        workerPromise = null
+      })
+  }
+  try {
+    return await workerPromise
+  } catch (error) {
+    console.error('cannot start the mediasoup worker', error)
+    return null
+  }
+}
+
+// called when the worker dies, the routers created on it are closed with it
+export function onWorkerDied(listener: () => void) {
+  diedListeners.add(listener)
+  return () => {
+    diedListeners.delete(listener)
+  }
+}
@@ -0,0 +1,79 @@
+import { Client } from 'colyseus'
+import { Message } from '../../types/Messages'
+import TokenBucket from '../validation/TokenBucket'
+import { messageRules } from './messageRules'
+
+// clients are disconnected once they pile up this many violations within the window
+const MAX_VIOLATIONS = 20
+const VIOLATION_WINDOW = 60 * 1000
+
+interface ClientRecord {
+  buckets: Map<Message, TokenBucket>
+  // messages dropped quietly over the rate limit of rules that tolerate bursts
+  overruns: Map<Message, number>
+  violations: number[]
+}
+
+/**
+ * Checks every incoming message against its rule (see messageRules): messages over the client's
+ * rate limit or with an invalid payload are dropped and counted as violations.
+ */
+export default class MessageGuard {
+  private clients = new Map<string, ClientRecord>()
+
+  constructor(private roomId: string, private onRepeatedViolations: (client: Client) => void) {}
+
+  accept(client: Client, type: Message, message: unknown) {
+    let record = this.clients.get(client.sessionId)
+    if (!record) {
+      record = { buckets: new Map(), overruns: new Map(), violations: [] }
+      this.clients.set(client.sessionId, record)
+    }
+
+    const rule = messageRules[type]
+    if (!rule) return this.reject(client, record, type, 'no rule for this message type')
+
+    let bucket = record.buckets.get(type)
+    if (!bucket) {
+      bucket = new TokenBucket(rule.capacity, rule.refillPerSecond)
+      record.buckets.set(type, bucket)
+    }
+    if (!bucket.take()) {
+      // a dropped position update is corrected by the next one, a client that keeps sending too
+      // many of them still piles up violations
+      if (rule.tolerateBursts) {
+        const overruns = (record.overruns.get(type) ?? 0) + 1
+        record.overruns.set(type, overruns % rule.capacity)
+        if (overruns < rule.capacity) return false
+      }
+      return this.reject(client, record, type, 'rate limit exceeded')
+    }
+
+    const error = rule.schema(message)
+    if (error) return this.reject(client, record, type, error)
+
+    return true
+  }
+
+  forget(client: Client) {
+    this.clients.delete(client.sessionId)
+  }
+
+  private reject(client: Client, record: ClientRecord, type: Message, reason: string) {
+    const now = Date.now()
+    record.violations = record.violations.filter((at) => now - at < VIOLATION_WINDOW)
+    record.violations.push(now)
+    console.warn(
+      `room ${this.roomId}: dropped ${Message[type] ?? type} from ${client.sessionId} (${reason})`
+    )
+
+    if (record.violations.length >= MAX_VIOLATIONS) {
+      console.warn(
+        `room ${this.roomId}: disconnecting ${client.sessionId} after repeated violations`
+      )
+      this.clients.delete(client.sessionId)
+      this.onRepeatedViolations(client)
+    }
+    return false
+  }
+}
@@ -1,12 +1,31 @@
+import crypto from 'crypto'
+import http from 'http'
 import bcrypt from 'bcrypt'
 import { Room, Client, ServerError } from 'colyseus'
 import { Dispatcher } from '@colyseus/command'
-import { Player, OfficeState, Computer, Whiteboard } from './schema/OfficeState'
+import {
+  Player,
+  OfficeState,
+  Computer,
+  Whiteboard,
+  MeetingRoom,
+  ChatMessage,
+} from './schema/OfficeState'
 import { Message } from '../../types/Messages'
-import { IRoomData } from '../../types/Rooms'
-import { whiteboardRoomIds } from './schema/OfficeState'
+import { IRoomData, RoomLeaveCode, RoomType } from '../../types/Rooms'
+import { ChatMode } from '../../types/ChatMode'
+import { PlayerRole } from '../../types/PlayerRole'
+import { PlayerStatus } from '../../types/PlayerStatus'
+import { HEARING_DISTANCE } from '../../types/Limits'
+import { MapId, DEFAULT_MAP_ID, isMapId, mapLayouts } from '../../types/Maps'
+import { IWhiteboardDocument, IWhiteboardStroke } from '../../types/Whiteboard'
+import { MediaMode } from '../../types/Media'
+import { RecordingScope } from '../../types/Recordings'
+import { IScreenAnnotation, IScreenPointer } from '../../types/ScreenAnnotations'
+import { IRemoteInputEvent } from '../../types/RemoteControl'
 import PlayerUpdateCommand from './commands/PlayerUpdateCommand'
 import PlayerUpdateNameCommand from './commands/PlayerUpdateNameCommand'
+import PlayerUpdateTextureCommand from './commands/PlayerUpdateTextureCommand'
 import {
   ComputerAddUserCommand,
   ComputerRemoveUserCommand,
@@ -15,19 +34,85 @@ import {
   WhiteboardAddUserCommand,
   WhiteboardRemoveUserCommand,
 } from './commands/WhiteboardUpdateArrayCommand'
+import {
+  WhiteboardAddStrokeCommand,
+  WhiteboardUndoStrokeCommand,
+  WhiteboardImportCommand,
+  rejectWhiteboardStroke,
+} from './commands/WhiteboardStrokeCommand'
 import ChatMessageUpdateCommand from './commands/ChatMessageUpdateCommand'
+import {
+  PlayerKickCommand,
+  PlayerBanCommand,
+  PlayerMuteCommand,
+  HostTransferCommand,
+} from './commands/ModerationCommand'
+import {
+  MeetingRoomLockCommand,
+  MeetingRoomKnockCommand,
+  MeetingRoomAnswerKnockCommand,
+  MeetingRoomExpireCommand,
+  setOccupantZone,
+  removeFromMeetingRooms,
+} from './commands/MeetingRoomCommand'
+import {
+  RecordingStartCommand,
+  RecordingAnswerCommand,
+  RecordingStopCommand,
+  RecordingSyncCommand,
+} from './commands/RecordingCommand'
+import { ScreenAnnotateCommand, ScreenPointerCommand } from './commands/ScreenAnnotationCommand'
+import {
+  RemoteControlRequestCommand,
+  RemoteControlAnswerCommand,
+  RemoteControlRevokeCommand,
+  RemoteControlEventCommand,
+  releaseRemoteControls,
+} from './commands/RemoteControlCommand'
+import OfficeMap from '../map/OfficeMap'
+import MediaRoom from '../media/MediaRoom'
+import MessageGuard from './MessageGuard'
+import { addSession, removeSession } from './sessions'
+import removeClient, { wasRemoved } from './removeClient'
+import { accountStorage, banStorage, chatStorage, whiteboardStorage } from '../storage'
+import { BanList } from '../storage/BanStorage'
+import { verifyToken } from '../auth/tokens'
+import { getClientAddress } from '../auth/clientAddress'
+
+// number of older chat messages sent per "load older messages" request
+const CHAT_HISTORY_PAGE_SIZE = 50
+// distance (in pixels) within which players receive messages sent to the nearby chat
+const NEARBY_CHAT_RADIUS = Number(process.env.NEARBY_CHAT_RADIUS || 200)
+// seconds a player who lost their connection keeps their seat (and items) for
+const RECONNECTION_GRACE_SECONDS = Number(process.env.RECONNECTION_GRACE_SECONDS || 20)
+// extra distance (in pixels) before the SFU stops forwarding the streams of players who walked
+// apart, the clients only hang up after being out of reach for a moment (see OtherPlayer.preUpdate)
+const HEARING_SLACK = 200
 
 export class SkyOffice extends Room<OfficeState> {
   private dispatcher = new Dispatcher(this)
   private name: string
   private description: string
   private password: string | null = null
+  private mapId: MapId
+  private officeMap: OfficeMap
+  private chatChannel: string
+  // drawings of every whiteboard, keyed by whiteboard id
+  private whiteboardStrokes = new Map<string, IWhiteboardStroke[]>()
+  // players banned by the host, checked in onAuth and persisted under the chat channel
+  private bans: BanList = { identities: [], addresses: [] }
+  private messageGuard: MessageGuard
+  // set while the room uses the SFU (see MediaMode)
+  private mediaRoom: MediaRoom | null = null
+  // players whose client reported that it cannot reach the SFU
+  private sfuUnavailable = new Set<string>()
 
-  async onCreate(options: IRoomData) {
-    const { name, description, password, autoDispose } = options
+  async onCreate(options: IRoomData & { token?: string }) {
+    const { name, description, password, autoDispose, mapId, mediaMode } = options
     this.name = name
     this.description = description
     this.autoDispose = autoDispose
+    this.mapId = isMapId(mapId) ? mapId : DEFAULT_MAP_ID
 
     let hasPassword = false
     if (password) {
@@ -35,58 +120,131 @@ export class SkyOffice extends Room<OfficeState> {
       this.password = await bcrypt.hash(password, salt)
       hasPassword = true
     }
-    this.setMetadata({ name, description, hasPassword })
+    this.setMetadata({ name, description, hasPassword, mapId: this.mapId })
 
     this.setState(new OfficeState())
 
-    // HARD-CODED: Add 5 computers in a room
-    for (let i = 0; i < 5; i++) {
-      this.state.computers.set(String(i), new Computer())
-    }
+    // clients that keep sending invalid or too many messages are disconnected
+    this.messageGuard = new MessageGuard(this.roomId, (client) =>
+      removeClient(client, RoomLeaveCode.TOO_MANY_VIOLATIONS)
+    )
+
+    // load the same Tiled map the client renders to validate player movement against
+    this.officeMap = OfficeMap.load(mapLayouts[this.mapId].file)
 
-    // HARD-CODED: Add 3 whiteboards in a room
-    for (let i = 0; i < 3; i++) {
-      this.state.whiteboards.set(String(i), new Whiteboard())
+    /**
+     * Rooms get a new id whenever they are created again (after a server restart or once everyone
+     * left), so their history is stored under a stable channel: a fixed one for the public lobby,
+     * and one per creator and room name for custom rooms, so that recreating a room brings its
+     * history back without letting anyone else open it by picking the same name.
+     */
+    this.chatChannel = this.roomName === RoomType.PUBLIC ? RoomType.PUBLIC : this.roomId
+    const creatorId = verifyToken(options.token)
+    if (this.roomName === RoomType.CUSTOM && creatorId) {
+      const hash = crypto.createHash('sha256').update(`${creatorId}\n${name}`).digest('hex')
+      this.chatChannel = `${RoomType.CUSTOM}-${hash.slice(0, 32)}`
     }
 
-    // when a player connect to a computer, add to the computer connectedUser array
-    this.onMessage(Message.CONNECT_TO_COMPUTER, (client, message: { computerId: string }) => {
-      this.dispatcher.dispatch(new ComputerAddUserCommand(), {
-        client,
-        computerId: message.computerId,
-      })
+    this.bans = await banStorage.load(this.chatChannel)
+
+    // restore the latest messages (the chatMessages array holds at most 100 of them)
+    const recentMessages = await chatStorage.load(this.chatChannel, Infinity, 100)
+    recentMessages.forEach((message) => {
+      this.state.chatMessages.push(new ChatMessage().assign(message))
     })
 
-    // when a player disconnect from a computer, remove from the computer connectedUser array
-    this.onMessage(Message.DISCONNECT_FROM_COMPUTER, (client, message: { computerId: string }) => {
-      this.dispatcher.dispatch(new ComputerRemoveUserCommand(), {
-        client,
-        computerId: message.computerId,
+    // add a computer for every object in the map's Computer layer, keyed by its Tiled object id
+    this.officeMap.getObjects('Computer').forEach((obj) => {
+      this.state.computers.set(String(obj.id), new Computer())
+    })
+
+    /**
+     * add a whiteboard for every object in the map's Whiteboard layer, keyed by its Tiled object id,
+     * its drawings are persisted under the same channel as the chat history
+     */
+    await Promise.all(
+      this.officeMap.getObjects('Whiteboard').map(async (obj) => {
+        const whiteboard = new Whiteboard().assign({ roomId: `${this.chatChannel}-${obj.id}` })
+        this.state.whiteboards.set(String(obj.id), whiteboard)
+        this.whiteboardStrokes.set(String(obj.id), await whiteboardStorage.load(whiteboard.roomId))
       })
+    )
+
+    // add a meeting room for every zone of the map that has doors, keyed by the zone's name
+    this.officeMap.getLockableZones().forEach((zone) => {
+      this.state.meetingRooms.set(zone, new MeetingRoom())
     })
+    this.clock.setInterval(() => this.dispatcher.dispatch(new MeetingRoomExpireCommand()), 1000)
+    // players who walked apart or into another zone stop receiving each other's streams
+    this.clock.setInterval(() => {
+      this.mediaRoom?.revokeSubscriptions((peerId, targetId) =>
+        this.canHear(peerId, targetId, HEARING_DISTANCE + HEARING_SLACK)
+      )
+    }, 1000)
+
+    if (mediaMode === MediaMode.SFU) await this.startSfu()
+
+    // when a player connect to a computer, add to the computer connectedUser array
+    this.onValidatedMessage(
+      Message.CONNECT_TO_COMPUTER,
+      (client, message: { computerId: string }) => {
+        this.dispatcher.dispatch(new ComputerAddUserCommand(), {
+          client,
+          computerId: message.computerId,
+        })
+        this.syncRecordings()
+      }
+    )
+
+    // when a player disconnect from a computer, remove from the computer connectedUser array
+    this.onValidatedMessage(
+      Message.DISCONNECT_FROM_COMPUTER,
+      (client, message: { computerId: string }) => {
+        this.dispatcher.dispatch(new ComputerRemoveUserCommand(), {
+          client,
+          computerId: message.computerId,
+        })
+        this.syncRecordings()
+      }
+    )
 
     // when a player stop sharing screen
-    this.onMessage(Message.STOP_SCREEN_SHARE, (client, message: { computerId: string }) => {
-      const computer = this.state.computers.get(message.computerId)
-      computer.connectedUser.forEach((id) => {
-        this.clients.forEach((cli) => {
-          if (cli.sessionId === id && cli.sessionId !== client.sessionId) {
-            cli.send(Message.STOP_SCREEN_SHARE, client.sessionId)
-          }
+    this.onValidatedMessage(
+      Message.STOP_SCREEN_SHARE,
+      (client, message: { computerId: string }) => {
+        const computer = this.state.computers.get(message.computerId)
+        if (!computer) return
+        // nobody can control a screen that is not shared anymore
+        computer.remoteControls.delete(client.sessionId)
+        computer.connectedUser.forEach((id) => {
+          this.clients.forEach((cli) => {
+            if (cli.sessionId === id && cli.sessionId !== client.sessionId) {
+              cli.send(Message.STOP_SCREEN_SHARE, client.sessionId)
+            }
+          })
         })
-      })
-    })
+      }
+    )
 
     // when a player connect to a whiteboard, add to the whiteboard connectedUser array
-    this.onMessage(Message.CONNECT_TO_WHITEBOARD, (client, message: { whiteboardId: string }) => {
-      this.dispatcher.dispatch(new WhiteboardAddUserCommand(), {
-        client,
-        whiteboardId: message.whiteboardId,
-      })
-    })
+    this.onValidatedMessage(
+      Message.CONNECT_TO_WHITEBOARD,
+      (client, message: { whiteboardId: string }) => {
+        this.dispatcher.dispatch(new WhiteboardAddUserCommand(), {
+          client,
+          whiteboardId: message.whiteboardId,
+        })
+
+        // send everything drawn so far
+        const strokes = this.whiteboardStrokes.get(message.whiteboardId)
+        if (strokes) {
+          client.send(Message.LOAD_WHITEBOARD, { whiteboardId: message.whiteboardId, strokes })
+        }
+      }
+    )
 
     // when a player disconnect from a whiteboard, remove from the whiteboard connectedUser array
-    this.onMessage(
+    this.onValidatedMessage(
       Message.DISCONNECT_FROM_WHITEBOARD,
       (client, message: { whiteboardId: string }) => {
         this.dispatcher.dispatch(new WhiteboardRemoveUserCommand(), {
@@ -96,41 +254,106 @@ export class SkyOffice extends Room<OfficeState> {
       }
     )
 
+    // when a player draws on a whiteboard, store the stroke and relay it to every user of the board
+    this.onValidatedMessage(
+      Message.ADD_WHITEBOARD_STROKE,
+      (client, message: { whiteboardId: string; stroke: IWhiteboardStroke }) => {
+        this.dispatcher.dispatch(new WhiteboardAddStrokeCommand(), {
+          client,
+          whiteboardId: message.whiteboardId,
+          stroke: message.stroke,
+          boards: this.whiteboardStrokes,
+          whiteboardStorage,
+        })
+      },
+      (client, message) => rejectWhiteboardStroke(client, message?.whiteboardId, message?.stroke)
+    )
+
+    // when a player undoes their last stroke on a whiteboard
+    this.onValidatedMessage(
+      Message.UNDO_WHITEBOARD_STROKE,
+      (client, message: { whiteboardId: string }) => {
+        this.dispatcher.dispatch(new WhiteboardUndoStrokeCommand(), {
+          client,
+          whiteboardId: message.whiteboardId,
+          boards: this.whiteboardStrokes,
+          whiteboardStorage,
+        })
+      }
+    )
+
+    // when a player imports a JSON whiteboard document onto a whiteboard
+    this.onValidatedMessage(
+      Message.IMPORT_WHITEBOARD,
+      (client, message: { whiteboardId: string; document: IWhiteboardDocument }) => {
+        this.dispatcher.dispatch(new WhiteboardImportCommand(), {
+          client,
+          whiteboardId: message.whiteboardId,
+          document: message.document,
+          boards: this.whiteboardStrokes,
+          whiteboardStorage,
+        })
+      }
+    )
+
     // when receiving updatePlayer message, call the PlayerUpdateCommand
-    this.onMessage(
+    this.onValidatedMessage(
       Message.UPDATE_PLAYER,
       (client, message: { x: number; y: number; anim: string }) => {
+        const zone = this.state.players.get(client.sessionId)?.zone
         this.dispatcher.dispatch(new PlayerUpdateCommand(), {
           client,
           x: message.x,
           y: message.y,
           anim: message.anim,
+          officeMap: this.officeMap,
         })
+        if (this.state.players.get(client.sessionId)?.zone !== zone) this.syncRecordings()
       }
     )
 
     // when receiving updatePlayerName message, call the PlayerUpdateNameCommand
-    this.onMessage(Message.UPDATE_PLAYER_NAME, (client, message: { name: string }) => {
+    this.onValidatedMessage(Message.UPDATE_PLAYER_NAME, (client, message: { name: string }) => {
       this.dispatcher.dispatch(new PlayerUpdateNameCommand(), {
         client,
         name: message.name,
       })
     })
 
+    // when a player picks their character, call the PlayerUpdateTextureCommand
+    this.onValidatedMessage(
+      Message.UPDATE_PLAYER_TEXTURE,
+      (client, message: { texture: string }) => {
+        this.dispatcher.dispatch(new PlayerUpdateTextureCommand(), {
+          client,
+          texture: message.texture,
+        })
+      }
+    )
+
+    // when a player changes their presence status (available, busy, do-not-disturb or away)
+    this.onValidatedMessage(
+      Message.UPDATE_PLAYER_STATUS,
+      (client, message: { status: PlayerStatus }) => {
+        const player = this.state.players.get(client.sessionId)
+        if (player) player.status = message.status
+      }
+    )
+
     // when a player is ready to connect, call the PlayerReadyToConnectCommand
-    this.onMessage(Message.READY_TO_CONNECT, (client) => {
+    this.onValidatedMessage(Message.READY_TO_CONNECT, (client) => {
       const player = this.state.players.get(client.sessionId)
       if (player) player.readyToConnect = true
     })
 
     // when a player is ready to connect, call the PlayerReadyToConnectCommand
-    this.onMessage(Message.VIDEO_CONNECTED, (client) => {
+    this.onValidatedMessage(Message.VIDEO_CONNECTED, (client) => {
       const player = this.state.players.get(client.sessionId)
       if (player) player.videoConnected = true
     })
 
     // when a player disconnect a stream, broadcast the signal to the other player connected to the stream
-    this.onMessage(Message.DISCONNECT_STREAM, (client, message: { clientId: string }) => {
+    this.onValidatedMessage(Message.DISCONNECT_STREAM, (client, message: { clientId: string }) => {
       this.clients.forEach((cli) => {
         if (cli.sessionId === message.clientId) {
           cli.send(Message.DISCONNECT_STREAM, client.sessionId)
@@ -139,63 +362,483 @@ export class SkyOffice extends Room<OfficeState> {
     })
 
     // when a player send a chat message, update the message array and broadcast to all connected clients except the sender
-    this.onMessage(Message.ADD_CHAT_MESSAGE, (client, message: { content: string }) => {
-      // update the message array (so that players join later can also see the message)
-      this.dispatcher.dispatch(new ChatMessageUpdateCommand(), {
+    this.onValidatedMessage(
+      Message.ADD_CHAT_MESSAGE,
+      (client, message: { content: string; mode?: ChatMode }) => {
+        if (this.state.players.get(client.sessionId)?.muted) return
+
+        if (message.mode === ChatMode.NEARBY) {
+          this.sendNearbyChatMessage(client, message.content)
+          return
+        }
+
+        // update the message array (so that players join later can also see the message)
+        this.dispatcher.dispatch(new ChatMessageUpdateCommand(), {
+          client,
+          content: message.content,
+          chatStorage,
+          channel: this.chatChannel,
+        })
+
+        // broadcast to all currently connected clients except the sender (to render in-game dialog on top of the character)
+        this.broadcast(
+          Message.ADD_CHAT_MESSAGE,
+          { clientId: client.sessionId, content: message.content, mode: ChatMode.ROOM },
+          { except: client }
+        )
+      }
+    )
+
+    // when a player sends a direct message, only deliver it to the recipient (never stored in the state)
+    this.onValidatedMessage(
+      Message.SEND_DIRECT_MESSAGE,
+      (client, message: { recipientId: string; content: string }) => {
+        const sender = this.state.players.get(client.sessionId)
+        const recipient = this.clients.find((cli) => cli.sessionId === message.recipientId)
+        if (!sender || sender.muted || !recipient || recipient === client || !message.content)
+          return
+
+        recipient.send(Message.SEND_DIRECT_MESSAGE, {
+          clientId: client.sessionId,
+          author: sender.name,
+          createdAt: new Date().getTime(),
+          content: message.content,
+        })
+      }
+    )
+
+    // moderation messages, only executed when sent by the host (see HostCommand)
+    this.onValidatedMessage(Message.KICK_PLAYER, (client, message: { clientId: string }) => {
+      this.dispatcher.dispatch(new PlayerKickCommand(), { client, clientId: message.clientId })
+    })
+
+    this.onValidatedMessage(
+      Message.BAN_PLAYER,
+      (client, message: { clientId: string; banAddress?: boolean }) => {
+        this.dispatcher.dispatch(new PlayerBanCommand(), {
+          client,
+          clientId: message.clientId,
+          banAddress: !!message.banAddress,
+          bans: this.bans,
+          channel: this.chatChannel,
+          banStorage,
+        })
+      }
+    )
+
+    this.onValidatedMessage(
+      Message.MUTE_PLAYER,
+      (client, message: { clientId: string; muted: boolean }) => {
+        this.dispatcher.dispatch(new PlayerMuteCommand(), {
+          client,
+          clientId: message.clientId,
+          muted: message.muted,
+        })
+      }
+    )
+
+    this.onValidatedMessage(Message.TRANSFER_HOST, (client, message: { clientId: string }) => {
+      this.dispatcher.dispatch(new HostTransferCommand(), { client, clientId: message.clientId })
+    })
+
+    // meeting room messages, locking and answering knocks is only executed when sent from inside
+    this.onValidatedMessage(
+      Message.LOCK_MEETING_ROOM,
+      (client, message: { zone: string; locked: boolean }) => {
+        const { zone, locked } = message
+        this.dispatcher.dispatch(new MeetingRoomLockCommand(), { client, zone, locked })
+      }
+    )
+
+    this.onValidatedMessage(Message.KNOCK_MEETING_ROOM, (client, message: { zone: string }) => {
+      this.dispatcher.dispatch(new MeetingRoomKnockCommand(), { client, zone: message.zone })
+    })
+
+    this.onValidatedMessage(
+      Message.ANSWER_KNOCK,
+      (client, message: { zone: string; clientId: string; admitted: boolean }) => {
+        const { zone, clientId, admitted } = message
+        this.dispatcher.dispatch(new MeetingRoomAnswerKnockCommand(), {
+          client,
+          zone,
+          clientId,
+          admitted,
+        })
+      }
+    )
+
+    // recordings of a computer or a zone, see RecordingCommand
+    this.onValidatedMessage(
+      Message.START_RECORDING,
+      (client, message: { scope: RecordingScope; target: string }) => {
+        this.dispatcher.dispatch(new RecordingStartCommand(), {
+          client,
+          scope: message.scope,
+          target: message.target,
+          channel: this.chatChannel,
+        })
+      }
+    )
+
+    this.onValidatedMessage(
+      Message.ANSWER_RECORDING,
+      (client, message: { recordingId: string; consent: boolean }) => {
+        this.dispatcher.dispatch(new RecordingAnswerCommand(), {
+          client,
+          recordingId: message.recordingId,
+          consent: message.consent,
+          channel: this.chatChannel,
+        })
+      }
+    )
+
+    this.onValidatedMessage(Message.STOP_RECORDING, (client, message: { recordingId: string }) => {
+      this.dispatcher.dispatch(new RecordingStopCommand(), {
         client,
-        content: message.content,
+        recordingId: message.recordingId,
+        channel: this.chatChannel,
       })
+    })
 
-      // broadcast to all currently connected clients except the sender (to render in-game dialog on top of the character)
-      this.broadcast(
-        Message.ADD_CHAT_MESSAGE,
-        { clientId: client.sessionId, content: message.content },
-        { except: client }
-      )
+    // annotations and laser pointers over the screens shared at a computer
+    this.onValidatedMessage(
+      Message.ANNOTATE_SCREEN,
+      (client, message: { computerId: string; annotation: IScreenAnnotation }) => {
+        const { computerId, annotation } = message
+        this.dispatcher.dispatch(new ScreenAnnotateCommand(), { client, computerId, annotation })
+      }
+    )
+
+    this.onValidatedMessage(
+      Message.MOVE_SCREEN_POINTER,
+      (client, message: { computerId: string; pointer?: IScreenPointer | null }) => {
+        const { computerId, pointer } = message
+        this.dispatcher.dispatch(new ScreenPointerCommand(), { client, computerId, pointer })
+      }
+    )
+
+    // remote control of the screens shared at a computer, see RemoteControlCommand
+    this.onValidatedMessage(
+      Message.REQUEST_REMOTE_CONTROL,
+      (client, message: { computerId: string; presenterId: string }) => {
+        const { computerId, presenterId } = message
+        this.dispatcher.dispatch(new RemoteControlRequestCommand(), {
+          client,
+          computerId,
+          presenterId,
+        })
+      }
+    )
+
+    this.onValidatedMessage(
+      Message.ANSWER_REMOTE_CONTROL,
+      (client, message: { computerId: string; clientId: string; granted: boolean }) => {
+        const { computerId, clientId, granted } = message
+        this.dispatcher.dispatch(new RemoteControlAnswerCommand(), {
+          client,
+          computerId,
+          clientId,
+          granted,
+        })
+      }
+    )
+
+    this.onValidatedMessage(
+      Message.REVOKE_REMOTE_CONTROL,
+      (client, message: { computerId: string; presenterId: string }) => {
+        const { computerId, presenterId } = message
+        this.dispatcher.dispatch(new RemoteControlRevokeCommand(), {
+          client,
+          computerId,
+          presenterId,
+        })
+      }
+    )
+
+    this.onValidatedMessage(
+      Message.REMOTE_CONTROL_EVENT,
+      (client, message: { computerId: string; presenterId: string; event: IRemoteInputEvent }) => {
+        const { computerId, presenterId, event } = message
+        this.dispatcher.dispatch(new RemoteControlEventCommand(), {
+          client,
+          computerId,
+          presenterId,
+          event,
+        })
+      }
+    )
+
+    // SFU signaling, the media itself goes straight to the mediasoup worker
+    this.onSfuRequest(Message.SFU_JOIN, async (mediaRoom) => ({
+      rtpCapabilities: mediaRoom.rtpCapabilities,
+    }))
+
+    this.onSfuRequest(Message.SFU_CREATE_TRANSPORT, (mediaRoom, client, message) =>
+      mediaRoom.createTransport(client.sessionId, message.producing, message.rtpCapabilities)
+    )
+
+    this.onSfuRequest(Message.SFU_CONNECT_TRANSPORT, (mediaRoom, client, message) =>
+      mediaRoom.connectTransport(client.sessionId, message.transportId, message.dtlsParameters)
+    )
+
+    this.onSfuRequest(Message.SFU_PRODUCE, async (mediaRoom, client, message) => ({
+      id: await mediaRoom.produce(
+        client.sessionId,
+        message.transportId,
+        message.kind,
+        message.rtpParameters
+      ),
+    }))
+
+    // the client asks for the streams of the players it calls (see OtherPlayer.makeCall), the
+    // server makes sure it could call them rather than trusting it
+    this.onValidatedMessage(Message.SFU_SUBSCRIBE, (client, message: { clientId: string }) => {
+      if (!this.canCall(client.sessionId, message.clientId)) return
+      this.mediaRoom?.subscribe(client.sessionId, message.clientId)
+    })
+
+    this.onValidatedMessage(Message.SFU_UNSUBSCRIBE, (client, message: { clientId: string }) => {
+      this.mediaRoom?.unsubscribe(client.sessionId, message.clientId)
+    })
+
+    this.onValidatedMessage(
+      Message.SFU_RESUME_CONSUMER,
+      (client, message: { consumerId: string }) => {
+        this.mediaRoom
+          ?.resumeConsumer(client.sessionId, message.consumerId)
+          .catch((error) => console.error('failed to resume a consumer', error))
+      }
+    )
+
+    /**
+     * A client that cannot reach the SFU (e.g. UDP and TCP to the RTC ports are blocked) does not
+     * hear anyone. The whole room goes back to calling each other directly once most of its players
+     * are in that case, a single client cannot switch everyone else over.
+     */
+    this.onValidatedMessage(Message.SFU_UNAVAILABLE, (client) => {
+      if (!this.mediaRoom) return
+      this.sfuUnavailable.add(client.sessionId)
+      if (this.sfuUnavailable.size * 2 <= this.clients.length) return
+      console.warn('room', this.roomId, 'falls back to the mesh mode, the SFU is unreachable')
+      this.stopSfu()
+    })
+
+    // when a player scrolls to the top of the chat, send them a page of older messages
+    this.onValidatedMessage(Message.LOAD_CHAT_HISTORY, (client, message: { before: number }) => {
+      chatStorage
+        .load(this.chatChannel, message.before, CHAT_HISTORY_PAGE_SIZE)
+        .then((messages) => {
+          client.send(Message.LOAD_CHAT_HISTORY, {
+            messages,
+            hasMore: messages.length === CHAT_HISTORY_PAGE_SIZE,
+          })
+        })
+        .catch((error) => console.error('failed to load chat history', error))
+    })
+  }
+
+  // same rules as OtherPlayer.isInReach
+  private canHear(clientId: string, otherId: string, maxDistance = HEARING_DISTANCE) {
+    const player = this.state.players.get(clientId)
+    const other = this.state.players.get(otherId)
+    if (!player || !other || player.zone !== other.zone) return false
+    // everyone in the same private zone is in one call
+    if (player.zone) return true
+    return Math.hypot(player.x - other.x, player.y - other.y) <= maxDistance
+  }
+
+  // nobody gets called while in do-not-disturb (see OtherPlayer.makeCall)
+  private canCall(clientId: string, otherId: string) {
+    const isAvailable = (id: string) =>
+      this.state.players.get(id)?.status !== PlayerStatus.DO_NOT_DISTURB
+    return isAvailable(clientId) && isAvailable(otherId) && this.canHear(clientId, otherId)
+  }
+
+  // register a message handler that only runs for payloads accepted by the MessageGuard, the
+  // optional onDropped handler gets the ones it drops
+  private onValidatedMessage<T = any>(
+    type: Message,
+    callback: (client: Client, message: T) => void,
+    onDropped?: (client: Client, message: any) => void
+  ) {
+    this.onMessage(type, (client, message: T) => {
+      if (this.messageGuard.accept(client, type, message)) {
+        callback(client, message)
+      } else if (onDropped) {
+        onDropped(client, message)
+      }
     })
   }
 
-  async onAuth(client: Client, options: { password: string | null }) {
+  // players may have joined or left a computer or a zone that is being recorded
+  private syncRecordings() {
+    this.dispatcher.dispatch(new RecordingSyncCommand(), { channel: this.chatChannel })
+  }
+
+  // SFU requests are answered with the same message type and requestId (see Network.sfuRequest)
+  private onSfuRequest(
+    type: Message,
+    handler: (mediaRoom: MediaRoom, client: Client, message: any) => Promise<object | void>
+  ) {
+    this.onValidatedMessage(type, (client, message: { requestId: number }) => {
+      const { requestId } = message
+      const mediaRoom = this.mediaRoom
+      const reply = mediaRoom
+        ? handler(mediaRoom, client, message)
+        : Promise.reject(new Error('The SFU is not available'))
+      reply
+        .then((data) => client.send(type, { requestId, ...data }))
+        .catch((error) => client.send(type, { requestId, error: error.message }))
+    })
+  }
+
+  private async startSfu() {
+    this.mediaRoom = await MediaRoom.create(
+      (peerId, type, message) => {
+        this.clients.find((cli) => cli.sessionId === peerId)?.send(type, message)
+      },
+      // the mediasoup worker died
+      () => this.stopSfu()
+    )
+    if (!this.mediaRoom) console.warn('room', this.roomId, 'falls back to the mesh mode')
+    this.state.mediaMode = this.mediaRoom ? MediaMode.SFU : MediaMode.MESH
+  }
+
+  private stopSfu() {
+    this.mediaRoom?.close()
+    this.mediaRoom = null
+    this.sfuUnavailable.clear()
+    this.state.mediaMode = MediaMode.MESH
+  }
+
+  // nearby messages only go to players close to the sender and are not kept in the state or history
+  private sendNearbyChatMessage(client: Client, content: string) {
+    const sender = this.state.players.get(client.sessionId)
+    if (!sender) return
+
+    this.clients.forEach((cli) => {
+      const player = this.state.players.get(cli.sessionId)
+      if (
+        cli !== client &&
+        player &&
+        // what is said in a private zone stays in it
+        player.zone === sender.zone &&
+        Math.hypot(player.x - sender.x, player.y - sender.y) <= NEARBY_CHAT_RADIUS
+      ) {
+        cli.send(Message.ADD_CHAT_MESSAGE, {
+          clientId: client.sessionId,
+          content,
+          mode: ChatMode.NEARBY,
+          author: sender.name,
+          createdAt: new Date().getTime(),
+        })
+      }
+    })
+  }
+
+  async onAuth(
+    client: Client,
+    options: { password: string | null; token?: string },
+    request: http.IncomingMessage
+  ) {
+    // the token is issued by the accounts API (see server/auth/routes.ts)
+    const accountId = verifyToken(options.token)
+    const account = accountId ? await accountStorage.get(accountId) : null
+    if (!account) {
+      throw new ServerError(401, 'Your session has expired, please reload the page!')
+    }
+    // bans apply to the account rather than to a single session, and to the address the player
+    // joined from when the host asked for it (see PlayerBanCommand)
+    const identity = account.id
+    const address = getClientAddress(request)
+    const { identities, addresses } = this.bans
+    if (identities.indexOf(identity) !== -1 || (address && addresses.indexOf(address) !== -1)) {
+      throw new ServerError(403, 'You have been banned from this room!')
+    }
+
     if (this.password) {
       const validPassword = await bcrypt.compare(options.password, this.password)
       if (!validPassword) {
         throw new ServerError(403, 'Password is incorrect!')
       }
     }
-    return true
+    return { identity, address, username: account.username }
   }
 
   onJoin(client: Client, options: any) {
-    this.state.players.set(client.sessionId, new Player())
+    const { spawn } = mapLayouts[this.mapId]
+    const player = new Player().assign(spawn)
+    player.zone = this.officeMap.getZone(spawn.x, spawn.y)
+    setOccupantZone(this.state, client.sessionId, player.zone)
+    player.username = client.auth.username ?? ''
+
+    // the first player of a custom room is the one who created it
+    if (this.roomName === RoomType.CUSTOM && this.state.players.size === 0) {
+      player.role = PlayerRole.HOST
+    }
+    this.state.players.set(client.sessionId, player)
+    addSession(client.sessionId, { identity: client.auth.identity, channel: this.chatChannel })
     client.send(Message.SEND_ROOM_DATA, {
       id: this.roomId,
       name: this.name,
       description: this.description,
+      mapId: this.mapId,
     })
   }
 
-  onLeave(client: Client, consented: boolean) {
-    if (this.state.players.has(client.sessionId)) {
+  async onLeave(client: Client, consented: boolean) {
+    /**
+     * keep the player, and the computer or whiteboard they were using, while they try to reconnect
+     * (see Network.reconnect), the new client takes over the same session id
+     */
+    if (!consented && !wasRemoved(client)) {
+      try {
+        const newClient = await this.allowReconnection(client, RECONNECTION_GRACE_SECONDS)
+        // the other players drop their calls with the old peer, it will call them again
+        const clientId = newClient.sessionId
+        this.broadcast(Message.PLAYER_RECONNECTED, { clientId }, { except: newClient })
+        return
+      } catch (e) {
+        // the grace window expired, remove the player below
+      }
+    }
+
+    this.removePlayer(client)
+  }
+
+  private removePlayer(client: Client) {
+    this.messageGuard.forget(client)
+    const player = this.state.players.get(client.sessionId)
+    if (player) {
       this.state.players.delete(client.sessionId)
     }
+
+    // hand the host role over to the player who has been in the room the longest
+    if (player?.role === PlayerRole.HOST) {
+      const nextHost = this.clients.find((cli) => this.state.players.has(cli.sessionId))
+      if (nextHost) this.state.players.get(nextHost.sessionId).role = PlayerRole.HOST
+    }
     this.state.computers.forEach((computer) => {
       if (computer.connectedUser.has(client.sessionId)) {
         computer.connectedUser.delete(client.sessionId)
       }
+      releaseRemoteControls(computer, client.sessionId)
     })
     this.state.whiteboards.forEach((whiteboard) => {
       if (whiteboard.connectedUser.has(client.sessionId)) {
         whiteboard.connectedUser.delete(client.sessionId)
       }
     })
+    removeFromMeetingRooms(this.state, client.sessionId)
+    this.syncRecordings()
+    this.mediaRoom?.removePeer(client.sessionId)
+    this.sfuUnavailable.delete(client.sessionId)
+    removeSession(client.sessionId)
   }
 
   onDispose() {
-    this.state.whiteboards.forEach((whiteboard) => {
-      if (whiteboardRoomIds.has(whiteboard.roomId)) whiteboardRoomIds.delete(whiteboard.roomId)
-    })
-
     console.log('room', this.roomId, 'disposing...')
     this.dispatcher.stop()
+    this.mediaRoom?.close()
   }
 }
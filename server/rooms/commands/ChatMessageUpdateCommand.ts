@@ -2,15 +2,18 @@ import { Command } from '@colyseus/command'
 import { Client } from 'colyseus'
 import { IOfficeState } from '../../../types/IOfficeState'
 import { ChatMessage } from '../schema/OfficeState'
+import { IChatStorage } from '../../storage/ChatStorage'
 
 type Payload = {
   client: Client
   content: string
+  chatStorage: IChatStorage
+  channel: string
 }
 
 export default class ChatMessageUpdateCommand extends Command<IOfficeState, Payload> {
   execute(data: Payload) {
-    const { client, content } = data
+    const { client, content, chatStorage, channel } = data
     const player = this.room.state.players.get(client.sessionId)
     const chatMessages = this.room.state.chatMessages
 
@@ -22,9 +25,18 @@ export default class ChatMessageUpdateCommand extends Command<IOfficeState, Payl
      */
     if (chatMessages.length >= 100) chatMessages.shift()
 
+    // the room restored the latest messages of the history, so the last one has the highest seq
+    const lastMessage = chatMessages[chatMessages.length - 1]
     const newMessage = new ChatMessage()
+    newMessage.seq = lastMessage ? lastMessage.seq + 1 : 0
     newMessage.author = player.name
     newMessage.content = content
     chatMessages.push(newMessage)
+
+    // also keep the message in the chat history storage so it outlives the room
+    const { seq, author, createdAt } = newMessage
+    chatStorage.append(channel, { seq, author, createdAt, content }).catch((error) => {
+      console.error('failed to store chat message', error)
+    })
   }
 }
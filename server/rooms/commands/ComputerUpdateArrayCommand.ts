@@ -1,6 +1,7 @@
 import { Command } from '@colyseus/command'
 import { Client } from 'colyseus'
 import { IOfficeState } from '../../../types/IOfficeState'
+import { releaseRemoteControls } from './RemoteControlCommand'
 
 type Payload = {
   client: Client
@@ -23,8 +24,9 @@ export class ComputerRemoveUserCommand extends Command<IOfficeState, Payload> {
     const { client, computerId } = data
     const computer = this.state.computers.get(computerId)
 
-    if (computer.connectedUser.has(client.sessionId)) {
+    if (computer?.connectedUser.has(client.sessionId)) {
       computer.connectedUser.delete(client.sessionId)
+      releaseRemoteControls(computer, client.sessionId)
     }
   }
 }
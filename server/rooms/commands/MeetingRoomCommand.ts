@@ -0,0 +1,124 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IMeetingRoom, IOfficeState } from '../../../types/IOfficeState'
+
+type Payload = {
+  client: Client
+  // name of the zone the meeting room covers
+  zone: string
+}
+
+// how long an unanswered knock waits, and how long a player who was let in has to walk in (ms)
+const KNOCK_DURATION = 60000
+const PASS_DURATION = 30000
+
+function unlock(meetingRoom: IMeetingRoom) {
+  meetingRoom.locked = false
+  // whoever was waiting at the doors can walk in now
+  meetingRoom.knocks.clear()
+  meetingRoom.passes.clear()
+}
+
+// zones whose doors the player cannot walk through
+export function getClosedZones(state: IOfficeState, clientId: string) {
+  const closedZones: string[] = []
+  state.meetingRooms.forEach((meetingRoom, zone) => {
+    if (
+      meetingRoom.locked &&
+      !meetingRoom.occupants.has(clientId) &&
+      !meetingRoom.passes.has(clientId)
+    ) {
+      closedZones.push(zone)
+    }
+  })
+  return closedZones
+}
+
+// keep the occupants in sync with the zone of the player, '' takes them out of every room
+export function setOccupantZone(state: IOfficeState, clientId: string, zone: string) {
+  state.meetingRooms.forEach((meetingRoom, name) => {
+    if (name === zone) {
+      meetingRoom.occupants.add(clientId)
+      // the pass is used up once inside
+      meetingRoom.knocks.delete(clientId)
+      meetingRoom.passes.delete(clientId)
+    } else if (meetingRoom.occupants.has(clientId)) {
+      meetingRoom.occupants.delete(clientId)
+      // a locked room nobody is in could never be opened again
+      if (meetingRoom.occupants.size === 0) unlock(meetingRoom)
+    }
+  })
+}
+
+export function removeFromMeetingRooms(state: IOfficeState, clientId: string) {
+  setOccupantZone(state, clientId, '')
+  state.meetingRooms.forEach((meetingRoom) => {
+    meetingRoom.knocks.delete(clientId)
+    meetingRoom.passes.delete(clientId)
+  })
+}
+
+/**
+ * Locking a meeting room and letting someone in are only executed when sent by a player inside it.
+ */
+abstract class OccupantCommand<P extends Payload = Payload> extends Command<IOfficeState, P> {
+  validate(data: P) {
+    return !!this.state.meetingRooms.get(data.zone)?.occupants.has(data.client.sessionId)
+  }
+}
+
+export class MeetingRoomLockCommand extends OccupantCommand<Payload & { locked: boolean }> {
+  execute(data: Payload & { locked: boolean }) {
+    const meetingRoom = this.state.meetingRooms.get(data.zone)
+    if (data.locked) meetingRoom.locked = true
+    else unlock(meetingRoom)
+  }
+}
+
+export class MeetingRoomAnswerKnockCommand extends OccupantCommand<
+  Payload & { clientId: string; admitted: boolean }
+> {
+  validate(data: Payload & { clientId: string; admitted: boolean }) {
+    return super.validate(data) && this.state.meetingRooms.get(data.zone).knocks.has(data.clientId)
+  }
+
+  execute(data: Payload & { clientId: string; admitted: boolean }) {
+    const meetingRoom = this.state.meetingRooms.get(data.zone)
+    meetingRoom.knocks.delete(data.clientId)
+    if (data.admitted) meetingRoom.passes.set(data.clientId, Date.now() + PASS_DURATION)
+  }
+}
+
+export class MeetingRoomKnockCommand extends Command<IOfficeState, Payload> {
+  // only outsiders can knock on a locked room, and once until someone answers
+  validate(data: Payload) {
+    const meetingRoom = this.state.meetingRooms.get(data.zone)
+    const { sessionId } = data.client
+    return (
+      !!meetingRoom?.locked &&
+      !meetingRoom.occupants.has(sessionId) &&
+      !meetingRoom.knocks.has(sessionId) &&
+      !meetingRoom.passes.has(sessionId)
+    )
+  }
+
+  execute(data: Payload) {
+    const meetingRoom = this.state.meetingRooms.get(data.zone)
+    meetingRoom.knocks.set(data.client.sessionId, Date.now() + KNOCK_DURATION)
+  }
+}
+
+// drop the knocks and passes that expired, run every second by SkyOffice
+export class MeetingRoomExpireCommand extends Command<IOfficeState> {
+  execute() {
+    const now = Date.now()
+    this.state.meetingRooms.forEach((meetingRoom) => {
+      meetingRoom.knocks.forEach((expiresAt, clientId) => {
+        if (expiresAt <= now) meetingRoom.knocks.delete(clientId)
+      })
+      meetingRoom.passes.forEach((expiresAt, clientId) => {
+        if (expiresAt <= now) meetingRoom.passes.delete(clientId)
+      })
+    })
+  }
+}
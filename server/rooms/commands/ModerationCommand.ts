@@ -0,0 +1,83 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { PlayerRole } from '../../../types/PlayerRole'
+import { RoomLeaveCode } from '../../../types/Rooms'
+import { BanList, IBanStorage } from '../../storage/BanStorage'
+import removeClient from '../removeClient'
+
+type Payload = {
+  client: Client
+  // session id of the player being moderated
+  clientId: string
+}
+
+/**
+ * Moderation commands are only executed when sent by the host of the room and aimed at another
+ * player in the room.
+ */
+abstract class HostCommand<P extends Payload = Payload> extends Command<IOfficeState, P> {
+  validate(data: P) {
+    const host = this.state.players.get(data.client.sessionId)
+    return (
+      host?.role === PlayerRole.HOST &&
+      data.clientId !== data.client.sessionId &&
+      this.state.players.has(data.clientId)
+    )
+  }
+
+  protected getTargetClient(clientId: string) {
+    return this.room.clients.find((cli) => cli.sessionId === clientId)
+  }
+}
+
+export class PlayerKickCommand extends HostCommand {
+  execute(data: Payload) {
+    const target = this.getTargetClient(data.clientId)
+    if (target) removeClient(target, RoomLeaveCode.KICKED)
+  }
+}
+
+type BanPayload = Payload & {
+  // also ban the network address of the player
+  banAddress: boolean
+  bans: BanList
+  channel: string
+  banStorage: IBanStorage
+}
+
+export class PlayerBanCommand extends HostCommand<BanPayload> {
+  execute(data: BanPayload) {
+    const target = this.getTargetClient(data.clientId)
+    if (!target) return
+
+    /**
+     * The identity is kept by the browser across sessions, so rejoining does not lift the ban. The
+     * address keeps out new guest accounts created to get around it, but it is shared by everyone
+     * on the same network (office NAT, VPN), which is why it is only banned on request.
+     */
+    const { identity, address } = target.auth
+    const { bans } = data
+    if (bans.identities.indexOf(identity) === -1) bans.identities.push(identity)
+    if (data.banAddress && address && bans.addresses.indexOf(address) === -1) {
+      bans.addresses.push(address)
+    }
+    data.banStorage
+      .save(data.channel, bans)
+      .catch((error) => console.error('failed to save the ban list', error))
+    removeClient(target, RoomLeaveCode.BANNED)
+  }
+}
+
+export class PlayerMuteCommand extends HostCommand<Payload & { muted: boolean }> {
+  execute(data: Payload & { muted: boolean }) {
+    this.state.players.get(data.clientId).muted = !!data.muted
+  }
+}
+
+export class HostTransferCommand extends HostCommand {
+  execute(data: Payload) {
+    this.state.players.get(data.client.sessionId).role = PlayerRole.MEMBER
+    this.state.players.get(data.clientId).role = PlayerRole.HOST
+  }
+}
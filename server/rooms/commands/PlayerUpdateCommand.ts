@@ -1,23 +1,94 @@
 import { Command } from '@colyseus/command'
 import { Client } from 'colyseus'
 import { IOfficeState } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import { playerAnims } from '../../../types/Characters'
+import OfficeMap from '../../map/OfficeMap'
+import { getClosedZones, setOccupantZone } from './MeetingRoomCommand'
 
 type Payload = {
   client: Client
   x: number
   y: number
   anim: string
+  officeMap: OfficeMap
 }
 
+// same as the speed in MyPlayer.update (pixels per second)
+const MAX_SPEED = 200
+// allow some extra distance to absorb network jitter and frame timing differences
+const SPEED_TOLERANCE = 1.2
+// a player can bank at most one second worth of movement while standing still
+const MAX_MOVE_BUDGET = MAX_SPEED * SPEED_TOLERANCE
+
 export default class PlayerUpdateCommand extends Command<IOfficeState, Payload> {
   execute(data: Payload) {
-    const { client, x, y, anim } = data
+    const { client, x, y, anim, officeMap } = data
 
     const player = this.room.state.players.get(client.sessionId)
 
     if (!player) return
+
+    /**
+     * Movement is tracked as a budget of distance that refills at the max speed, so updates that
+     * arrive in bursts are still accepted while teleporting or speeding up is not.
+     */
+    const now = Date.now()
+    const { lastMoveAt = now, moveBudget = MAX_MOVE_BUDGET } = client.userData ?? {}
+    const budget = Math.min(
+      moveBudget + ((now - lastMoveAt) / 1000) * MAX_SPEED * SPEED_TOLERANCE,
+      MAX_MOVE_BUDGET
+    )
+    const distance = Math.hypot(x - player.x, y - player.y)
+
+    // locked meeting rooms close their doors to the players who were not let in
+    const closedZones = getClosedZones(this.state, client.sessionId)
+
+    if (
+      !this.isValidMove(player.x, player.y, x, y, anim, player.texture, officeMap, closedZones) ||
+      distance > budget
+    ) {
+      // snap the client back to its last valid position
+      client.send(Message.RESET_PLAYER_POSITION, { x: player.x, y: player.y })
+      return
+    }
+
+    client.userData = { ...client.userData, lastMoveAt: now, moveBudget: budget - distance }
     player.x = x
     player.y = y
     player.anim = anim
+
+    const zone = officeMap.getZone(x, y)
+    if (zone !== player.zone) {
+      player.zone = zone
+      setOccupantZone(this.state, client.sessionId, zone)
+    }
+  }
+
+  private isValidMove(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    anim: string,
+    texture: string,
+    officeMap: OfficeMap,
+    closedZones: string[]
+  ) {
+    if (!Number.isFinite(toX) || !Number.isFinite(toY) || !playerAnims.has(anim)) return false
+    // animations have to belong to the character the player picked
+    if (anim.split('_')[0] !== texture) return false
+
+    /**
+     * sitting moves the player onto the chair, which may overlap the desk next to it, so the move
+     * is checked the other way around: it has to be possible to get back up from the chair
+     */
+    if (anim.split('_')[1] === 'sit') {
+      return (
+        officeMap.isNearChair(toX, toY) && officeMap.canWalk(toX, toY, fromX, fromY, closedZones)
+      )
+    }
+
+    return officeMap.canWalk(fromX, fromY, toX, toY, closedZones)
   }
 }
@@ -0,0 +1,21 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../../types/IOfficeState'
+
+type Payload = {
+  client: Client
+  texture: string
+}
+
+export default class PlayerUpdateTextureCommand extends Command<IOfficeState, Payload> {
+  execute(data: Payload) {
+    const { client, texture } = data
+
+    const player = this.room.state.players.get(client.sessionId)
+
+    if (!player) return
+    player.texture = texture
+    // keep the current animation (e.g. sitting) with the new character
+    player.anim = `${texture}_${player.anim.split('_').slice(1).join('_')}`
+  }
+}
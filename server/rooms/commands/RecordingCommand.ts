@@ -0,0 +1,140 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import {
+  getRecordingId,
+  getRecordingTitle,
+  RecordingScope,
+  RecordingStatus,
+} from '../../../types/Recordings'
+import { Recording } from '../schema/OfficeState'
+import { expectRecordingUpload } from '../../media/recordingRoutes'
+
+type Payload = {
+  // storage channel of the room, the recordings are listed per channel
+  channel: string
+}
+
+type ClientPayload = Payload & {
+  client: Client
+  recordingId: string
+}
+
+/**
+ * Nothing is recorded until every player at the computer (or in the zone) consented, players who
+ * come by later have to consent as well and the recording pauses until they did.
+ */
+abstract class RecordingCommand<P extends Payload> extends Command<IOfficeState, P> {
+  // players who have to consent to the recording
+  protected getMembers(scope: RecordingScope, target: string) {
+    const members: string[] = []
+    if (scope === RecordingScope.COMPUTER) {
+      this.state.computers.get(target)?.connectedUser.forEach((id) => members.push(id))
+    } else {
+      this.state.players.forEach((player, id) => {
+        if (player.zone === target) members.push(id)
+      })
+    }
+    return members
+  }
+
+  // follow the players coming and going, and pause while someone has not consented yet
+  protected sync(recordingId: string, channel: string) {
+    const recording = this.state.recordings.get(recordingId)
+    const members = this.getMembers(recording.scope, recording.target)
+    if (members.indexOf(recording.recorder) === -1) return this.end(recordingId, channel)
+
+    recording.participants.forEach((id) => {
+      if (members.indexOf(id) !== -1) return
+      recording.participants.delete(id)
+      recording.consents.delete(id)
+    })
+    members.forEach((id) => recording.participants.add(id))
+
+    let everyoneConsented = true
+    recording.participants.forEach((id) => {
+      if (!recording.consents.has(id)) everyoneConsented = false
+    })
+    recording.status = everyoneConsented ? RecordingStatus.RECORDING : RecordingStatus.PENDING
+    if (everyoneConsented && !recording.startedAt) recording.startedAt = Date.now()
+  }
+
+  // the recorder uploads what was recorded, if anything
+  protected end(recordingId: string, channel: string) {
+    const recording = this.state.recordings.get(recordingId)
+    this.state.recordings.delete(recordingId)
+    const recorder = this.room.clients.find((cli) => cli.sessionId === recording.recorder)
+    if (!recording.startedAt || !recorder) return
+
+    const uploadId = expectRecordingUpload({
+      channel,
+      identity: recorder.auth.identity,
+      title: getRecordingTitle(recording.scope, recording.target),
+      createdAt: recording.startedAt,
+    })
+    recorder.send(Message.RECORDING_UPLOAD, { recordingId, uploadId })
+  }
+}
+
+export class RecordingStartCommand extends RecordingCommand<
+  Payload & { client: Client; scope: RecordingScope; target: string }
+> {
+  // the recorder has to be a member and records one computer or zone at a time
+  validate(data: Payload & { client: Client; scope: RecordingScope; target: string }) {
+    const { client, scope, target } = data
+    if (scope === RecordingScope.ZONE && !target) return false
+    let recording = false
+    this.state.recordings.forEach((rec) => {
+      if (rec.recorder === client.sessionId) recording = true
+    })
+    return (
+      !recording &&
+      !this.state.recordings.has(getRecordingId(scope, target)) &&
+      this.getMembers(scope, target).indexOf(client.sessionId) !== -1
+    )
+  }
+
+  execute(data: Payload & { client: Client; scope: RecordingScope; target: string }) {
+    const { client, scope, target, channel } = data
+    const recordingId = getRecordingId(scope, target)
+    const recording = new Recording().assign({ scope, target, recorder: client.sessionId })
+    // asking for the recording is the recorder's consent
+    recording.consents.add(client.sessionId)
+    this.state.recordings.set(recordingId, recording)
+    this.sync(recordingId, channel)
+  }
+}
+
+export class RecordingAnswerCommand extends RecordingCommand<ClientPayload & { consent: boolean }> {
+  validate(data: ClientPayload & { consent: boolean }) {
+    const recording = this.state.recordings.get(data.recordingId)
+    const { sessionId } = data.client
+    return !!recording?.participants.has(sessionId) && recording.recorder !== sessionId
+  }
+
+  // declining, or withdrawing the consent later on, ends the recording for everyone
+  execute(data: ClientPayload & { consent: boolean }) {
+    const { client, recordingId, consent, channel } = data
+    if (!consent) return this.end(recordingId, channel)
+    this.state.recordings.get(recordingId).consents.add(client.sessionId)
+    this.sync(recordingId, channel)
+  }
+}
+
+export class RecordingStopCommand extends RecordingCommand<ClientPayload> {
+  validate(data: ClientPayload) {
+    return this.state.recordings.get(data.recordingId)?.recorder === data.client.sessionId
+  }
+
+  execute(data: ClientPayload) {
+    this.end(data.recordingId, data.channel)
+  }
+}
+
+// run by SkyOffice whenever players may have joined or left a computer or a zone
+export class RecordingSyncCommand extends RecordingCommand<Payload> {
+  execute(data: Payload) {
+    this.state.recordings.forEach((recording, recordingId) => this.sync(recordingId, data.channel))
+  }
+}
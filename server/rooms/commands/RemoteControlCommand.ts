@@ -0,0 +1,139 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IComputer, IOfficeState } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import { IRemoteInputEvent } from '../../../types/RemoteControl'
+
+type Payload = {
+  client: Client
+  computerId: string
+}
+
+/**
+ * A viewer asks the presenter of a shared screen for control, the presenter grants it and either of
+ * them can end it. Requests and input events only go to the users of the same computer.
+ */
+abstract class RemoteControlCommand<P extends Payload> extends Command<IOfficeState, P> {
+  protected getComputer(data: P) {
+    const computer = this.state.computers.get(data.computerId)
+    return computer?.connectedUser.has(data.client.sessionId) ? computer : undefined
+  }
+
+  protected sendTo(sessionId: string, type: Message, message: object) {
+    this.room.clients.find((cli) => cli.sessionId === sessionId)?.send(type, message)
+  }
+}
+
+export class RemoteControlRequestCommand extends RemoteControlCommand<
+  Payload & { presenterId: string }
+> {
+  validate(data: Payload & { presenterId: string }) {
+    const { client, presenterId } = data
+    const computer = this.getComputer(data)
+    return (
+      !!computer?.connectedUser.has(presenterId) &&
+      presenterId !== client.sessionId &&
+      computer.remoteControls.get(presenterId) !== client.sessionId
+    )
+  }
+
+  execute(data: Payload & { presenterId: string }) {
+    const { client, computerId, presenterId } = data
+    this.sendTo(presenterId, Message.REQUEST_REMOTE_CONTROL, {
+      computerId,
+      clientId: client.sessionId,
+    })
+  }
+}
+
+export class RemoteControlAnswerCommand extends RemoteControlCommand<
+  Payload & { clientId: string; granted: boolean }
+> {
+  validate(data: Payload & { clientId: string; granted: boolean }) {
+    const { client, clientId } = data
+    return !!this.getComputer(data)?.connectedUser.has(clientId) && clientId !== client.sessionId
+  }
+
+  // granting replaces whoever controlled the screen before
+  execute(data: Payload & { clientId: string; granted: boolean }) {
+    const { client, computerId, clientId, granted } = data
+    if (granted) {
+      this.getComputer(data)!.remoteControls.set(client.sessionId, clientId)
+    } else {
+      this.sendTo(clientId, Message.ANSWER_REMOTE_CONTROL, {
+        computerId,
+        presenterId: client.sessionId,
+        granted,
+      })
+    }
+  }
+}
+
+export class RemoteControlRevokeCommand extends RemoteControlCommand<
+  Payload & { presenterId: string }
+> {
+  // the presenter takes control back or the controller gives it back
+  execute(data: Payload & { presenterId: string }) {
+    const { client, presenterId } = data
+    const computer = this.getComputer(data)
+    const controllerId = computer?.remoteControls.get(presenterId)
+    if (client.sessionId === presenterId || client.sessionId === controllerId) {
+      computer?.remoteControls.delete(presenterId)
+    }
+  }
+}
+
+export class RemoteControlEventCommand extends RemoteControlCommand<
+  Payload & { presenterId: string; event: IRemoteInputEvent }
+> {
+  validate(data: Payload & { presenterId: string; event: IRemoteInputEvent }) {
+    return this.getComputer(data)?.remoteControls.get(data.presenterId) === data.client.sessionId
+  }
+
+  execute(data: Payload & { presenterId: string; event: IRemoteInputEvent }) {
+    const { client, computerId, presenterId, event } = data
+    this.sendTo(presenterId, Message.REMOTE_CONTROL_EVENT, {
+      computerId,
+      clientId: client.sessionId,
+      event: copyEvent(event),
+    })
+  }
+}
+
+const eventFields: (keyof IRemoteInputEvent)[] = [
+  'type',
+  'x',
+  'y',
+  'button',
+  'deltaX',
+  'deltaY',
+  'key',
+  'code',
+  'altKey',
+  'ctrlKey',
+  'metaKey',
+  'shiftKey',
+]
+
+// copy of the defined `keys` of `source`
+function pick<T, K extends keyof T>(source: T, keys: K[]) {
+  const copy = {} as Pick<T, K>
+  keys.forEach((key) => {
+    if (source[key] !== undefined) copy[key] = source[key]
+  })
+  return copy
+}
+
+// only forward the known fields, the presenter's companion agent applies them
+function copyEvent(event: IRemoteInputEvent): IRemoteInputEvent {
+  return pick(event, eventFields)
+}
+
+// the control ends when the presenter or the controller leaves the computer
+export function releaseRemoteControls(computer: IComputer, sessionId: string) {
+  computer.remoteControls.forEach((controllerId, presenterId) => {
+    if (presenterId === sessionId || controllerId === sessionId) {
+      computer.remoteControls.delete(presenterId)
+    }
+  })
+}
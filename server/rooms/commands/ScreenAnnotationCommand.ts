@@ -0,0 +1,53 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import { IScreenAnnotation, IScreenPointer } from '../../../types/ScreenAnnotations'
+
+type Payload = {
+  client: Client
+  computerId: string
+}
+
+/**
+ * Annotations and laser pointers are ephemeral: they are relayed to the other users of the
+ * computer and never stored, the users of a computer are the only ones who see its screens.
+ */
+abstract class ScreenAnnotationCommand<P extends Payload> extends Command<IOfficeState, P> {
+  validate(data: P) {
+    const computer = this.state.computers.get(data.computerId)
+    return !!computer?.connectedUser.has(data.client.sessionId)
+  }
+
+  protected relay(data: P, type: Message, message: object) {
+    const { client, computerId } = data
+    const computer = this.state.computers.get(computerId)
+    this.room.clients.forEach((cli) => {
+      if (cli !== client && computer.connectedUser.has(cli.sessionId)) {
+        cli.send(type, { computerId, author: client.sessionId, ...message })
+      }
+    })
+  }
+}
+
+export class ScreenAnnotateCommand extends ScreenAnnotationCommand<
+  Payload & { annotation: IScreenAnnotation }
+> {
+  execute(data: Payload & { annotation: IScreenAnnotation }) {
+    const { streamId, color, points } = data.annotation
+    if (points.length < 2 || points.length % 2 !== 0) return
+    // only relay the known fields
+    this.relay(data, Message.ANNOTATE_SCREEN, { annotation: { streamId, color, points } })
+  }
+}
+
+export class ScreenPointerCommand extends ScreenAnnotationCommand<
+  Payload & { pointer?: IScreenPointer | null }
+> {
+  execute(data: Payload & { pointer?: IScreenPointer | null }) {
+    const { pointer } = data
+    this.relay(data, Message.MOVE_SCREEN_POINTER, {
+      pointer: pointer ? { streamId: pointer.streamId, x: pointer.x, y: pointer.y } : null,
+    })
+  }
+}
@@ -0,0 +1,183 @@
+import { Command } from '@colyseus/command'
+import { Client } from 'colyseus'
+import { IOfficeState } from '../../../types/IOfficeState'
+import { Message } from '../../../types/Messages'
+import {
+  IWhiteboardDocument,
+  IWhiteboardStroke,
+  WhiteboardTool,
+  WHITEBOARD_DOCUMENT_VERSION,
+} from '../../../types/Whiteboard'
+import { IWhiteboardStorage } from '../../storage/WhiteboardStorage'
+
+type Payload = {
+  client: Client
+  whiteboardId: string
+  // strokes of every whiteboard in the room, keyed by whiteboard id
+  boards: Map<string, IWhiteboardStroke[]>
+  whiteboardStorage: IWhiteboardStorage
+}
+
+// limits that keep a single board file at a reasonable size, points are counted as coordinates
+const MAX_STROKES = 5000
+const MAX_POINTS = 10000
+const MAX_BOARD_POINTS = 500000
+const MAX_TEXT_LENGTH = 500
+const MAX_SIZE = 64
+
+// only keep known fields and never trust the author sent by the client
+function copyStroke(stroke: IWhiteboardStroke, author: string, id = stroke.id) {
+  const { tool, color, size, points, text } = stroke
+  const copy: IWhiteboardStroke = { id, author, tool, color, size, points }
+  if (tool === WhiteboardTool.TEXT) copy.text = text
+  return copy
+}
+
+function countPoints(strokes: IWhiteboardStroke[]) {
+  return strokes.reduce((count, stroke) => count + stroke.points.length, 0)
+}
+
+function isValidStroke(stroke: IWhiteboardStroke) {
+  if (!stroke || typeof stroke.id !== 'string' || !stroke.id || stroke.id.length > 64) return false
+  if (!(stroke.tool in WhiteboardTool) || typeof stroke.tool !== 'number') return false
+  if (typeof stroke.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(stroke.color)) return false
+  if (!Number.isFinite(stroke.size) || stroke.size <= 0 || stroke.size > MAX_SIZE) return false
+
+  const { points } = stroke
+  if (!Array.isArray(points) || points.length < 2 || points.length % 2 !== 0) return false
+  if (points.length > MAX_POINTS || !points.every((n) => Number.isFinite(n))) return false
+
+  if (stroke.tool === WhiteboardTool.TEXT) {
+    return (
+      typeof stroke.text === 'string' && stroke.text !== '' && stroke.text.length <= MAX_TEXT_LENGTH
+    )
+  }
+  return true
+}
+
+// returns why the document cannot be imported, if it cannot
+function getImportError(document: IWhiteboardDocument, strokes: IWhiteboardStroke[]) {
+  if (!document || document.version !== WHITEBOARD_DOCUMENT_VERSION) {
+    return 'Unsupported whiteboard document'
+  }
+  if (!Array.isArray(document.strokes) || !document.strokes.every(isValidStroke)) {
+    return 'The whiteboard document contains invalid strokes'
+  }
+  if (
+    strokes.length + document.strokes.length > MAX_STROKES ||
+    countPoints(strokes) + countPoints(document.strokes) > MAX_BOARD_POINTS
+  ) {
+    return 'The whiteboard is too full to import this document'
+  }
+  return null
+}
+
+/**
+ * The sender draws its strokes right away, they are confirmed by sending them back along with the
+ * other users of the board, or taken back when rejected (see rejectWhiteboardStroke).
+ */
+export class WhiteboardAddStrokeCommand extends Command<
+  IOfficeState,
+  Payload & { stroke: IWhiteboardStroke }
+> {
+  execute(data: Payload & { stroke: IWhiteboardStroke }) {
+    const { client, whiteboardId, boards, whiteboardStorage } = data
+    const whiteboard = this.state.whiteboards.get(whiteboardId)
+    const strokes = boards.get(whiteboardId)
+
+    if (
+      !whiteboard ||
+      !strokes ||
+      !whiteboard.connectedUser.has(client.sessionId) ||
+      !isValidStroke(data.stroke) ||
+      strokes.length >= MAX_STROKES ||
+      countPoints(strokes) + data.stroke.points.length > MAX_BOARD_POINTS
+    ) {
+      rejectWhiteboardStroke(client, whiteboardId, data.stroke)
+      return
+    }
+    // already added, the stroke was confirmed then
+    if (strokes.some((s) => s.id === data.stroke.id)) return
+
+    const stroke = copyStroke(data.stroke, client.sessionId)
+    strokes.push(stroke)
+
+    this.room.clients.forEach((cli) => {
+      if (whiteboard.connectedUser.has(cli.sessionId)) {
+        cli.send(Message.ADD_WHITEBOARD_STROKE, { whiteboardId, stroke })
+      }
+    })
+    whiteboardStorage
+      .save(whiteboard.roomId, strokes)
+      .catch((error) => console.error('failed to save whiteboard', error))
+  }
+}
+
+// tell the sender to take back a stroke it drew locally, whatever made the server drop it
+export function rejectWhiteboardStroke(client: Client, whiteboardId: unknown, stroke: unknown) {
+  const strokeId = (stroke as Partial<IWhiteboardStroke> | null)?.id
+  if (typeof whiteboardId !== 'string' || typeof strokeId !== 'string') return
+  client.send(Message.REMOVE_WHITEBOARD_STROKE, { whiteboardId, strokeId })
+}
+
+export class WhiteboardUndoStrokeCommand extends Command<IOfficeState, Payload> {
+  execute(data: Payload) {
+    const { client, whiteboardId, boards, whiteboardStorage } = data
+    const whiteboard = this.state.whiteboards.get(whiteboardId)
+    const strokes = boards.get(whiteboardId)
+
+    if (!whiteboard || !strokes || !whiteboard.connectedUser.has(client.sessionId)) return
+
+    // players can only undo their own strokes
+    let index = strokes.length - 1
+    while (index >= 0 && strokes[index].author !== client.sessionId) index--
+    if (index < 0) return
+    const [stroke] = strokes.splice(index, 1)
+
+    this.room.clients.forEach((cli) => {
+      if (whiteboard.connectedUser.has(cli.sessionId)) {
+        cli.send(Message.REMOVE_WHITEBOARD_STROKE, { whiteboardId, strokeId: stroke.id })
+      }
+    })
+    whiteboardStorage
+      .save(whiteboard.roomId, strokes)
+      .catch((error) => console.error('failed to save whiteboard', error))
+  }
+}
+
+export class WhiteboardImportCommand extends Command<
+  IOfficeState,
+  Payload & { document: IWhiteboardDocument }
+> {
+  execute(data: Payload & { document: IWhiteboardDocument }) {
+    const { client, whiteboardId, document, boards, whiteboardStorage } = data
+    const whiteboard = this.state.whiteboards.get(whiteboardId)
+    const strokes = boards.get(whiteboardId)
+
+    if (!whiteboard || !strokes || !whiteboard.connectedUser.has(client.sessionId)) return
+
+    const error = getImportError(document, strokes)
+    if (error) {
+      client.send(Message.IMPORT_WHITEBOARD, { whiteboardId, error })
+      return
+    }
+
+    /**
+     * imported strokes are added on top of the board and belong to the importer (so that they can
+     * be undone), they get new ids as the document may have been exported from this very board
+     */
+    const importId = Date.now().toString(36)
+    document.strokes.forEach((stroke, index) => {
+      strokes.push(copyStroke(stroke, client.sessionId, `${importId}-${index}`))
+    })
+
+    this.room.clients.forEach((cli) => {
+      if (whiteboard.connectedUser.has(cli.sessionId)) {
+        cli.send(Message.LOAD_WHITEBOARD, { whiteboardId, strokes })
+      }
+    })
+    whiteboardStorage
+      .save(whiteboard.roomId, strokes)
+      .catch((error) => console.error('failed to save whiteboard', error))
+  }
+}
@@ -0,0 +1,253 @@
+import { Message } from '../../types/Messages'
+import { ChatMode } from '../../types/ChatMode'
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_PLAYER_NAME_LENGTH } from '../../types/Limits'
+import { playerStatuses } from '../../types/PlayerStatus'
+import { playerTextures } from '../../types/Characters'
+import { recordingScopes } from '../../types/Recordings'
+import { annotationColors, MAX_ANNOTATION_POINTS } from '../../types/ScreenAnnotations'
+import { remoteInputTypes } from '../../types/RemoteControl'
+import {
+  Schema,
+  string,
+  number,
+  boolean,
+  oneOf,
+  optional,
+  object,
+  anyObject,
+  array,
+  empty,
+} from '../validation/schema'
+
+export interface MessageRule {
+  schema: Schema
+  // token bucket settings: burst size and sustained messages per second
+  capacity: number
+  refillPerSecond: number
+  // messages over the rate limit are dropped quietly, only every `capacity`th one counts as a
+  // violation so that sustained overruns still disconnect the client
+  tolerateBursts?: boolean
+}
+
+// session ids, computer/whiteboard ids (Tiled object ids) and stroke ids are all short strings
+const id = string({ min: 1, max: 64 })
+const chatContent = string({ min: 1, max: MAX_CHAT_MESSAGE_LENGTH })
+// meeting rooms are keyed by the name of their zone in the Tiled map
+const zone = string({ min: 1, max: 64 })
+// recordings are keyed by their scope and target (see getRecordingId)
+const recordingId = string({ min: 1, max: 80 })
+// annotations are placed relative to the shared screen
+const screenCoordinate = number({ min: 0, max: 1 })
+
+// SFU requests are answered with the same requestId, the mediasoup parameters are checked by it
+const sfuRule = (shape = {}): MessageRule => ({
+  schema: object({ requestId: number(), ...shape }),
+  capacity: 10,
+  refillPerSecond: 2,
+})
+
+const itemRule = (key: string): MessageRule => ({
+  schema: object({ [key]: id }),
+  capacity: 10,
+  refillPerSecond: 2,
+})
+
+const moderationRule = (shape = {}): MessageRule => ({
+  schema: object({ clientId: id, ...shape }),
+  capacity: 10,
+  refillPerSecond: 2,
+})
+
+/**
+ * Rules for every message a client may send to a SkyOffice room. Detailed checks that need the
+ * room state (e.g. whether a computer exists) stay in the commands.
+ */
+export const messageRules: { [type: number]: MessageRule } = {
+  // sent while moving, throttled to 30 per second by the client (see Network.updatePlayer)
+  [Message.UPDATE_PLAYER]: {
+    schema: object({ x: number(), y: number(), anim: string({ max: 64 }) }),
+    capacity: 10,
+    refillPerSecond: 40,
+    tolerateBursts: true,
+  },
+  [Message.UPDATE_PLAYER_NAME]: {
+    schema: object({ name: string({ min: 1, max: MAX_PLAYER_NAME_LENGTH }) }),
+    capacity: 5,
+    refillPerSecond: 1,
+  },
+  [Message.UPDATE_PLAYER_TEXTURE]: {
+    schema: object({ texture: oneOf(playerTextures) }),
+    capacity: 5,
+    refillPerSecond: 1,
+  },
+  // also sent automatically when the player goes idle or comes back
+  [Message.UPDATE_PLAYER_STATUS]: {
+    schema: object({ status: oneOf(playerStatuses) }),
+    capacity: 5,
+    refillPerSecond: 1,
+  },
+  [Message.READY_TO_CONNECT]: { schema: empty(), capacity: 5, refillPerSecond: 1 },
+  [Message.VIDEO_CONNECTED]: { schema: empty(), capacity: 5, refillPerSecond: 1 },
+  [Message.DISCONNECT_STREAM]: {
+    schema: object({ clientId: id }),
+    capacity: 20,
+    refillPerSecond: 10,
+  },
+  [Message.CONNECT_TO_COMPUTER]: itemRule('computerId'),
+  [Message.DISCONNECT_FROM_COMPUTER]: itemRule('computerId'),
+  [Message.STOP_SCREEN_SHARE]: itemRule('computerId'),
+  [Message.CONNECT_TO_WHITEBOARD]: itemRule('whiteboardId'),
+  [Message.DISCONNECT_FROM_WHITEBOARD]: itemRule('whiteboardId'),
+  [Message.ADD_CHAT_MESSAGE]: {
+    schema: object({
+      content: chatContent,
+      mode: optional(oneOf([ChatMode.ROOM, ChatMode.NEARBY])),
+    }),
+    capacity: 10,
+    refillPerSecond: 2,
+  },
+  [Message.SEND_DIRECT_MESSAGE]: {
+    schema: object({ recipientId: id, content: chatContent }),
+    capacity: 10,
+    refillPerSecond: 2,
+  },
+  [Message.LOAD_CHAT_HISTORY]: {
+    schema: object({ before: number({ min: 0 }) }),
+    capacity: 5,
+    refillPerSecond: 1,
+  },
+  // strokes and documents are checked in detail by the whiteboard commands
+  [Message.ADD_WHITEBOARD_STROKE]: {
+    schema: object({ whiteboardId: id, stroke: anyObject() }),
+    capacity: 60,
+    refillPerSecond: 30,
+  },
+  [Message.UNDO_WHITEBOARD_STROKE]: {
+    schema: object({ whiteboardId: id }),
+    capacity: 20,
+    refillPerSecond: 10,
+  },
+  [Message.IMPORT_WHITEBOARD]: {
+    schema: object({ whiteboardId: id, document: anyObject() }),
+    capacity: 2,
+    refillPerSecond: 0.1,
+  },
+  [Message.KICK_PLAYER]: moderationRule(),
+  [Message.BAN_PLAYER]: moderationRule({ banAddress: optional(boolean()) }),
+  [Message.MUTE_PLAYER]: moderationRule({ muted: boolean() }),
+  [Message.TRANSFER_HOST]: moderationRule(),
+  [Message.LOCK_MEETING_ROOM]: {
+    schema: object({ zone, locked: boolean() }),
+    capacity: 5,
+    refillPerSecond: 1,
+  },
+  [Message.KNOCK_MEETING_ROOM]: {
+    schema: object({ zone }),
+    capacity: 5,
+    refillPerSecond: 0.5,
+  },
+  [Message.ANSWER_KNOCK]: {
+    schema: object({ zone, clientId: id, admitted: boolean() }),
+    capacity: 10,
+    refillPerSecond: 2,
+  },
+  [Message.SFU_JOIN]: sfuRule(),
+  [Message.SFU_CREATE_TRANSPORT]: sfuRule({ producing: boolean(), rtpCapabilities: anyObject() }),
+  [Message.SFU_CONNECT_TRANSPORT]: sfuRule({ transportId: id, dtlsParameters: anyObject() }),
+  [Message.SFU_PRODUCE]: sfuRule({
+    transportId: id,
+    kind: oneOf(['audio', 'video']),
+    rtpParameters: anyObject(),
+  }),
+  // sent while walking past other players
+  [Message.SFU_SUBSCRIBE]: {
+    schema: object({ clientId: id }),
+    capacity: 30,
+    refillPerSecond: 10,
+  },
+  [Message.SFU_UNSUBSCRIBE]: {
+    schema: object({ clientId: id }),
+    capacity: 30,
+    refillPerSecond: 10,
+  },
+  [Message.SFU_RESUME_CONSUMER]: {
+    schema: object({ consumerId: id }),
+    capacity: 60,
+    refillPerSecond: 20,
+  },
+  [Message.SFU_UNAVAILABLE]: { schema: empty(), capacity: 2, refillPerSecond: 0.1 },
+  [Message.START_RECORDING]: {
+    schema: object({ scope: oneOf(recordingScopes), target: id }),
+    capacity: 3,
+    refillPerSecond: 0.2,
+  },
+  [Message.ANSWER_RECORDING]: {
+    schema: object({ recordingId, consent: boolean() }),
+    capacity: 10,
+    refillPerSecond: 2,
+  },
+  [Message.STOP_RECORDING]: {
+    schema: object({ recordingId }),
+    capacity: 5,
+    refillPerSecond: 1,
+  },
+  [Message.ANNOTATE_SCREEN]: {
+    schema: object({
+      computerId: id,
+      annotation: object({
+        streamId: id,
+        color: oneOf(annotationColors),
+        points: array(screenCoordinate, { max: MAX_ANNOTATION_POINTS * 2 }),
+      }),
+    }),
+    capacity: 20,
+    refillPerSecond: 5,
+  },
+  // sent while moving the laser pointer, a null pointer hides it
+  [Message.MOVE_SCREEN_POINTER]: {
+    schema: object({
+      computerId: id,
+      pointer: optional(object({ streamId: id, x: screenCoordinate, y: screenCoordinate })),
+    }),
+    capacity: 40,
+    refillPerSecond: 25,
+  },
+  [Message.REQUEST_REMOTE_CONTROL]: {
+    schema: object({ computerId: id, presenterId: id }),
+    capacity: 5,
+    refillPerSecond: 0.5,
+  },
+  [Message.ANSWER_REMOTE_CONTROL]: {
+    schema: object({ computerId: id, clientId: id, granted: boolean() }),
+    capacity: 10,
+    refillPerSecond: 2,
+  },
+  [Message.REVOKE_REMOTE_CONTROL]: {
+    schema: object({ computerId: id, presenterId: id }),
+    capacity: 10,
+    refillPerSecond: 2,
+  },
+  // pointer moves are throttled by the client, keys and clicks are sent as they happen
+  [Message.REMOTE_CONTROL_EVENT]: {
+    schema: object({
+      computerId: id,
+      presenterId: id,
+      event: object({
+        type: oneOf(remoteInputTypes),
+        x: optional(screenCoordinate),
+        y: optional(screenCoordinate),
+        button: optional(number({ min: 0, max: 4 })),
+        deltaX: optional(number({ min: -10000, max: 10000 })),
+        deltaY: optional(number({ min: -10000, max: 10000 })),
+        key: optional(string({ max: 32 })),
+        code: optional(string({ max: 32 })),
+        altKey: optional(boolean()),
+        ctrlKey: optional(boolean()),
+        metaKey: optional(boolean()),
+        shiftKey: optional(boolean()),
+      }),
+    }),
+    capacity: 120,
+    refillPerSecond: 60,
+  },
+}
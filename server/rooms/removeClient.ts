@@ -0,0 +1,15 @@
+import { Client } from 'colyseus'
+import { RoomLeaveCode } from '../../types/Rooms'
+
+/**
+ * Disconnects a client on purpose (kick, ban, abuse). Clients removed this way are not given the
+ * reconnection grace window that players who lost their connection get in SkyOffice.onLeave.
+ */
+export default function removeClient(client: Client, code: RoomLeaveCode) {
+  client.userData = { ...client.userData, removed: true }
+  client.leave(code)
+}
+
+export function wasRemoved(client: Client) {
+  return !!client.userData?.removed
+}
@@ -4,8 +4,14 @@ import {
   IOfficeState,
   IComputer,
   IWhiteboard,
+  IMeetingRoom,
+  IRecording,
   IChatMessage,
 } from '../../../types/IOfficeState'
+import { PlayerRole } from '../../../types/PlayerRole'
+import { PlayerStatus } from '../../../types/PlayerStatus'
+import { MediaMode } from '../../../types/Media'
+import { RecordingScope, RecordingStatus } from '../../../types/Recordings'
 
 export class Player extends Schema implements IPlayer {
   @type('string') name = ''
@@ -14,18 +20,51 @@ export class Player extends Schema implements IPlayer {
   @type('string') anim = 'adam_idle_down'
   @type('boolean') readyToConnect = false
   @type('boolean') videoConnected = false
+  @type('string') role = PlayerRole.MEMBER
+  // muted players cannot send chat messages
+  @type('boolean') muted = false
+  // username of the player's account, empty for guests
+  @type('string') username = ''
+  @type('string') status = PlayerStatus.AVAILABLE
+  // one of playerTextures, picked at login
+  @type('string') texture = 'adam'
+  // name of the private zone (see OfficeMap.getZone) the player is in, empty when outside
+  @type('string') zone = ''
 }
 
 export class Computer extends Schema implements IComputer {
   @type({ set: 'string' }) connectedUser = new SetSchema<string>()
+  @type({ map: 'string' }) remoteControls = new MapSchema<string>()
 }
 
 export class Whiteboard extends Schema implements IWhiteboard {
-  @type('string') roomId = getRoomId()
+  @type('string') roomId = ''
   @type({ set: 'string' }) connectedUser = new SetSchema<string>()
 }
 
+export class MeetingRoom extends Schema implements IMeetingRoom {
+  // locked doors collide for everyone but the occupants and the players they let in
+  @type('boolean') locked = false
+  // session ids of the players inside the room's zone
+  @type({ set: 'string' }) occupants = new SetSchema<string>()
+  // players waiting at the doors for an occupant to let them in
+  @type({ map: 'number' }) knocks = new MapSchema<number>()
+  // players who were let in and can walk through the locked doors until their pass expires
+  @type({ map: 'number' }) passes = new MapSchema<number>()
+}
+
+export class Recording extends Schema implements IRecording {
+  @type('string') scope = RecordingScope.COMPUTER
+  @type('string') target = ''
+  @type('string') recorder = ''
+  @type('string') status = RecordingStatus.PENDING
+  @type({ set: 'string' }) participants = new SetSchema<string>()
+  @type({ set: 'string' }) consents = new SetSchema<string>()
+  @type('number') startedAt = 0
+}
+
 export class ChatMessage extends Schema implements IChatMessage {
+  @type('number') seq = 0
   @type('string') author = ''
   @type('number') createdAt = new Date().getTime()
   @type('string') content = ''
@@ -41,24 +80,17 @@ export class OfficeState extends Schema implements IOfficeState {
   @type({ map: Whiteboard })
   whiteboards = new MapSchema<Whiteboard>()
 
-  @type([ChatMessage])
-  chatMessages = new ArraySchema<ChatMessage>()
-}
+  // keyed by the name of the zone the meeting room covers
+  @type({ map: MeetingRoom })
+  meetingRooms = new MapSchema<MeetingRoom>()
+
+  // keyed by getRecordingId()
+  @type({ map: Recording })
+  recordings = new MapSchema<Recording>()
 
-export const whiteboardRoomIds = new Set<string>()
-const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-const charactersLength = characters.length
+  @type('string')
+  mediaMode = MediaMode.MESH
 
-function getRoomId(): string {
-  let result = ''
-  for (let i = 0; i < 12; i++) {
-    result += characters.charAt(Math.floor(Math.random() * charactersLength))
-  }
-  if (!whiteboardRoomIds.has(result)) {
-    whiteboardRoomIds.add(result)
-    return result
-  } else {
-    console.log('roomId exists, remaking another one.')
-    return getRoomId()
-  }
+  @type([ChatMessage])
+  chatMessages = new ArraySchema<ChatMessage>()
 }
@@ -0,0 +1,38 @@
+interface Session {
+  // account id the player joined with
+  identity: string
+  // storage channel of the room (see SkyOffice.chatChannel)
+  channel: string
+}
+
+/**
+ * Players currently in a SkyOffice room (of any room of this process). The HTTP endpoints that are
+ * only open to joined players check it.
+ */
+const sessions = new Map<string, Session>()
+const removedListeners: ((sessionId: string) => void)[] = []
+
+export function addSession(sessionId: string, session: Session) {
+  sessions.set(sessionId, session)
+}
+
+export function removeSession(sessionId: string) {
+  if (!sessions.delete(sessionId)) return
+  removedListeners.forEach((listener) => listener(sessionId))
+}
+
+export function getSession(sessionId: string) {
+  return sessions.get(sessionId)
+}
+
+export function getSessionIds() {
+  return Array.from(sessions.keys())
+}
+
+export function isIdentityInRoom(identity: string) {
+  return Array.from(sessions.values()).some((session) => session.identity === identity)
+}
+
+export function onSessionRemoved(listener: (sessionId: string) => void) {
+  removedListeners.push(listener)
+}
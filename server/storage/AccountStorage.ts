@@ -0,0 +1,43 @@
+import { IAccount } from '../../types/Accounts'
+
+export interface AccountRecord extends IAccount {
+  // bcrypt hash, null for guest accounts
+  passwordHash: string | null
+  createdAt: number
+  // when the session was last restored (GET /auth/me), accounts saved before it was added lack it
+  lastSeenAt?: number
+}
+
+// guest accounts are not used anymore once they are not seen for this long (see index.ts)
+export const isGuestNotSeenSince = (account: AccountRecord, time: number) =>
+  account.username === null && (account.lastSeenAt ?? account.createdAt) < time
+
+// rejected by IAccountStorage.save, registrations racing for the same username only make one
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`The username ${username} is already taken`)
+    this.name = 'UsernameTakenError'
+  }
+}
+
+// the account among the given ones that uses the username, matched case insensitively
+export function findByUsername(accounts: Iterable<AccountRecord>, username: string) {
+  const lowerCased = username.toLowerCase()
+  for (const account of accounts) {
+    if (account.username?.toLowerCase() === lowerCased) return account
+  }
+  return null
+}
+
+/**
+ * Storage adapter for player accounts (both registered and guest ones), usernames are matched case
+ * insensitively.
+ */
+export interface IAccountStorage {
+  get(id: string): Promise<AccountRecord | null>
+  findByUsername(username: string): Promise<AccountRecord | null>
+  // rejects with a UsernameTakenError when another account has the same username
+  save(account: AccountRecord): Promise<void>
+  // deletes the guest accounts last seen before the given time, resolves to how many there were
+  removeGuestsNotSeenSince(time: number): Promise<number>
+}
@@ -0,0 +1,15 @@
+/**
+ * Players banned from a room by its host, kept under the room's chat channel so that bans outlive
+ * the room instance (see SkyOffice.onCreate).
+ */
+export interface BanList {
+  // account ids
+  identities: string[]
+  // network addresses, only banned when the host asks for it
+  addresses: string[]
+}
+
+export interface IBanStorage {
+  load(channel: string): Promise<BanList>
+  save(channel: string, bans: BanList): Promise<void>
+}
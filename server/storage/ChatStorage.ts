@@ -0,0 +1,16 @@
+export interface ChatRecord {
+  // position of the message in its channel (0, 1, 2...), pages of history are requested by it
+  seq: number
+  author: string
+  createdAt: number
+  content: string
+}
+
+/**
+ * Storage adapter for chat history, messages are grouped by channel (one channel per office room).
+ */
+export interface IChatStorage {
+  append(channel: string, message: ChatRecord): Promise<void>
+  // returns at most `limit` messages whose seq is lower than `before`, oldest first
+  load(channel: string, before: number, limit: number): Promise<ChatRecord[]>
+}
@@ -0,0 +1,78 @@
+import fs from 'fs'
+import path from 'path'
+import {
+  AccountRecord,
+  IAccountStorage,
+  UsernameTakenError,
+  findByUsername,
+  isGuestNotSeenSince,
+} from './AccountStorage'
+
+/**
+ * Stores every account in a single JSON file inside `dir`. The file is read once and kept in
+ * memory, each save rewrites it after the previous write finished.
+ */
+export default class FileAccountStorage implements IAccountStorage {
+  private accounts?: Promise<Map<string, AccountRecord>>
+  private lastWrite: Promise<void> = Promise.resolve()
+  private filePath: string
+
+  constructor(dir: string) {
+    fs.mkdirSync(dir, { recursive: true })
+    this.filePath = path.join(dir, 'accounts.json')
+  }
+
+  private load() {
+    if (!this.accounts) {
+      this.accounts = fs.promises
+        .readFile(this.filePath, 'utf8')
+        .then((content) => JSON.parse(content) as AccountRecord[])
+        .catch((error) => {
+          // no account has been created yet
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+          throw error
+        })
+        .then((accounts) => new Map(accounts.map((account) => [account.id, account])))
+    }
+    return this.accounts
+  }
+
+  async get(id: string) {
+    const accounts = await this.load()
+    return accounts.get(id) ?? null
+  }
+
+  async findByUsername(username: string) {
+    const accounts = await this.load()
+    return findByUsername(accounts.values(), username)
+  }
+
+  async save(account: AccountRecord) {
+    const accounts = await this.load()
+    // checked and set without waiting in between, so that concurrent saves cannot both pass
+    const owner = account.username && findByUsername(accounts.values(), account.username)
+    if (owner && owner.id !== account.id) throw new UsernameTakenError(account.username)
+    accounts.set(account.id, account)
+    return this.write(accounts)
+  }
+
+  async removeGuestsNotSeenSince(time: number) {
+    const accounts = await this.load()
+    let removed = 0
+    accounts.forEach((account, id) => {
+      if (!isGuestNotSeenSince(account, time)) return
+      accounts.delete(id)
+      removed++
+    })
+    if (removed) await this.write(accounts)
+    return removed
+  }
+
+  private write(accounts: Map<string, AccountRecord>) {
+    const write = this.lastWrite
+      .catch(() => undefined)
+      .then(() => fs.promises.writeFile(this.filePath, JSON.stringify([...accounts.values()])))
+    this.lastWrite = write
+    return write
+  }
+}
@@ -0,0 +1,44 @@
+import fs from 'fs'
+import path from 'path'
+import { BanList, IBanStorage } from './BanStorage'
+
+// stores the ban list of every channel as a JSON file inside `dir`
+export default class FileBanStorage implements IBanStorage {
+  // pending write per channel, so that saves of the same list never overlap
+  private writes = new Map<string, Promise<void>>()
+
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+
+  private getFilePath(channel: string) {
+    return path.join(this.dir, `${encodeURIComponent(channel)}.json`)
+  }
+
+  async load(channel: string) {
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(channel), 'utf8')
+      return JSON.parse(content) as BanList
+    } catch (error) {
+      // nobody has been banned from this room yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+        return { identities: [], addresses: [] }
+      throw error
+    }
+  }
+
+  save(channel: string, bans: BanList) {
+    const content = JSON.stringify(bans)
+    const previous = this.writes.get(channel) ?? Promise.resolve()
+    const write = previous
+      .catch(() => undefined)
+      .then(() => fs.promises.writeFile(this.getFilePath(channel), content))
+    this.writes.set(channel, write)
+    write
+      .catch(() => undefined)
+      .then(() => {
+        if (this.writes.get(channel) === write) this.writes.delete(channel)
+      })
+    return write
+  }
+}
@@ -0,0 +1,105 @@
+import fs from 'fs'
+import path from 'path'
+import { ChatRecord, IChatStorage } from './ChatStorage'
+
+// seq of every line of a channel's file and the byte offset it starts at, plus the end of the file
+interface ChannelIndex {
+  seqs: number[]
+  offsets: number[]
+}
+
+/**
+ * Stores every channel as a JSON lines file (one message per line) inside `dir`. A channel's file
+ * is indexed the first time it is used, a page of history then only reads its own lines.
+ */
+export default class FileChatStorage implements IChatStorage {
+  // appends are chained on the index of their channel, so that it always matches the file
+  private indexes = new Map<string, Promise<ChannelIndex>>()
+
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+
+  private getFilePath(channel: string) {
+    return path.join(this.dir, `${encodeURIComponent(channel)}.jsonl`)
+  }
+
+  private getIndex(channel: string) {
+    let index = this.indexes.get(channel)
+    if (!index) {
+      index = this.readIndex(channel)
+      this.indexes.set(channel, index)
+    }
+    return index
+  }
+
+  private async readIndex(channel: string) {
+    const index: ChannelIndex = { seqs: [], offsets: [0] }
+    let content: Buffer
+    try {
+      content = await fs.promises.readFile(this.getFilePath(channel))
+    } catch (error) {
+      // nothing has been said in this channel yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return index
+      throw error
+    }
+
+    let start = 0
+    while (start < content.length) {
+      const newline = content.indexOf('\n', start)
+      const end = newline === -1 ? content.length : newline + 1
+      const message: Partial<ChatRecord> = JSON.parse(content.toString('utf8', start, end))
+      // the messages stored before they had a seq are numbered by their line
+      index.seqs.push(message.seq ?? index.seqs.length)
+      index.offsets.push(end)
+      start = end
+    }
+    return index
+  }
+
+  async append(channel: string, message: ChatRecord) {
+    const appended = this.getIndex(channel).then(async (index) => {
+      const line = `${JSON.stringify(message)}\n`
+      await fs.promises.appendFile(this.getFilePath(channel), line)
+      index.seqs.push(message.seq)
+      index.offsets.push(index.offsets[index.offsets.length - 1] + Buffer.byteLength(line))
+      return index
+    })
+    // the file may not be what the index says after a failed append, index it again
+    this.indexes.set(
+      channel,
+      appended.catch(() => this.readIndex(channel))
+    )
+    await appended
+  }
+
+  async load(channel: string, before: number, limit: number) {
+    const { seqs, offsets } = await this.getIndex(channel)
+    // the seqs grow with every message, find the first one that is not older than `before`
+    let low = 0
+    let high = seqs.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (seqs[middle] < before) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    const start = Math.max(low - limit, 0)
+    if (start === low) return []
+
+    const buffer = Buffer.alloc(offsets[low] - offsets[start])
+    const file = await fs.promises.open(this.getFilePath(channel), 'r')
+    try {
+      await file.read(buffer, 0, buffer.length, offsets[start])
+    } finally {
+      await file.close()
+    }
+    return buffer
+      .toString('utf8')
+      .split('\n')
+      .filter((line) => line)
+      .map((line, i): ChatRecord => ({ ...JSON.parse(line), seq: seqs[start + i] }))
+  }
+}
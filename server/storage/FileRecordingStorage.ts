@@ -0,0 +1,55 @@
+import fs from 'fs'
+import path from 'path'
+import { IRecordingInfo } from '../../types/Recordings'
+import { IRecordingStorage } from './RecordingStorage'
+
+/**
+ * stores the recordings of every channel in their own directory inside `dir`, next to a JSON lines
+ * index of their details (one recording per line)
+ */
+export default class FileRecordingStorage implements IRecordingStorage {
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+
+  private getChannelDir(channel: string) {
+    return path.join(this.dir, encodeURIComponent(channel))
+  }
+
+  private getFilePath(channel: string, id: string) {
+    return path.join(this.getChannelDir(channel), `${encodeURIComponent(id)}.webm`)
+  }
+
+  async save(channel: string, info: IRecordingInfo, data: Buffer) {
+    await fs.promises.mkdir(this.getChannelDir(channel), { recursive: true })
+    await fs.promises.writeFile(this.getFilePath(channel, info.id), data)
+    // only listed once the file is complete
+    const index = path.join(this.getChannelDir(channel), 'index.jsonl')
+    await fs.promises.appendFile(index, `${JSON.stringify(info)}\n`)
+  }
+
+  async list(channel: string) {
+    let content: string
+    try {
+      content = await fs.promises.readFile(
+        path.join(this.getChannelDir(channel), 'index.jsonl'),
+        'utf8'
+      )
+    } catch (error) {
+      // nothing has been recorded in this channel yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+    return content
+      .split('\n')
+      .filter((line) => line !== '')
+      .map((line) => JSON.parse(line) as IRecordingInfo)
+      .reverse()
+  }
+
+  async load(channel: string, id: string) {
+    const info = (await this.list(channel)).find((recording) => recording.id === id)
+    if (!info) return null
+    return { info, data: await fs.promises.readFile(this.getFilePath(channel, id)) }
+  }
+}
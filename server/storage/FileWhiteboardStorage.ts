@@ -0,0 +1,65 @@
+import fs from 'fs'
+import path from 'path'
+import { IWhiteboardStroke } from '../../types/Whiteboard'
+import { IWhiteboardStorage } from './WhiteboardStorage'
+
+// a board is written at most this often (ms), the changes made in between go in the same write
+const SAVE_DELAY = 2000
+
+// stores every board as a JSON file inside `dir`
+export default class FileWhiteboardStorage implements IWhiteboardStorage {
+  // pending write per board, so that saves of the same board never overlap
+  private writes = new Map<string, Promise<void>>()
+  // saves waiting for SAVE_DELAY, with the latest strokes of the board
+  private scheduled = new Map<string, { strokes: IWhiteboardStroke[]; done: Promise<void> }>()
+
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+
+  private getFilePath(boardId: string) {
+    return path.join(this.dir, `${encodeURIComponent(boardId)}.json`)
+  }
+
+  async load(boardId: string) {
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(boardId), 'utf8')
+      return JSON.parse(content) as IWhiteboardStroke[]
+    } catch (error) {
+      // nothing has been drawn on this board yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  save(boardId: string, strokes: IWhiteboardStroke[]) {
+    const scheduled = this.scheduled.get(boardId)
+    if (scheduled) {
+      scheduled.strokes = strokes
+      return scheduled.done
+    }
+
+    const done = new Promise<void>((resolve) => setTimeout(resolve, SAVE_DELAY)).then(() => {
+      const { strokes: latest } = this.scheduled.get(boardId)!
+      this.scheduled.delete(boardId)
+      return this.write(boardId, latest)
+    })
+    this.scheduled.set(boardId, { strokes, done })
+    return done
+  }
+
+  private write(boardId: string, strokes: IWhiteboardStroke[]) {
+    const content = JSON.stringify(strokes)
+    const previous = this.writes.get(boardId) ?? Promise.resolve()
+    const write = previous
+      .catch(() => undefined)
+      .then(() => fs.promises.writeFile(this.getFilePath(boardId), content))
+    this.writes.set(boardId, write)
+    write
+      .catch(() => undefined)
+      .then(() => {
+        if (this.writes.get(boardId) === write) this.writes.delete(boardId)
+      })
+    return write
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  AccountRecord,
+  IAccountStorage,
+  UsernameTakenError,
+  findByUsername,
+  isGuestNotSeenSince,
+} from './AccountStorage'
+
+// keeps accounts in memory only, useful for tests and throwaway servers
+export default class MemoryAccountStorage implements IAccountStorage {
+  private accounts = new Map<string, AccountRecord>()
+
+  async get(id: string) {
+    return this.accounts.get(id) ?? null
+  }
+
+  async findByUsername(username: string) {
+    return findByUsername(this.accounts.values(), username)
+  }
+
+  async save(account: AccountRecord) {
+    const owner = account.username && findByUsername(this.accounts.values(), account.username)
+    if (owner && owner.id !== account.id) throw new UsernameTakenError(account.username)
+    this.accounts.set(account.id, account)
+  }
+
+  async removeGuestsNotSeenSince(time: number) {
+    let removed = 0
+    this.accounts.forEach((account, id) => {
+      if (!isGuestNotSeenSince(account, time)) return
+      this.accounts.delete(id)
+      removed++
+    })
+    return removed
+  }
+}
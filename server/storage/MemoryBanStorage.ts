@@ -0,0 +1,17 @@
+import { BanList, IBanStorage } from './BanStorage'
+
+// keeps ban lists in memory only, useful for tests and throwaway servers
+export default class MemoryBanStorage implements IBanStorage {
+  private bans = new Map<string, BanList>()
+
+  async load(channel: string) {
+    return this.bans.get(channel) ?? { identities: [], addresses: [] }
+  }
+
+  async save(channel: string, bans: BanList) {
+    this.bans.set(channel, {
+      identities: bans.identities.slice(),
+      addresses: bans.addresses.slice(),
+    })
+  }
+}
@@ -0,0 +1,21 @@
+import { ChatRecord, IChatStorage } from './ChatStorage'
+
+// keeps chat history in memory only, useful for tests and throwaway servers
+export default class MemoryChatStorage implements IChatStorage {
+  private channels = new Map<string, ChatRecord[]>()
+
+  async append(channel: string, message: ChatRecord) {
+    const messages = this.channels.get(channel)
+    if (messages) {
+      messages.push(message)
+    } else {
+      this.channels.set(channel, [message])
+    }
+  }
+
+  async load(channel: string, before: number, limit: number) {
+    const messages = this.channels.get(channel) ?? []
+    const older = messages.filter((message) => message.seq < before)
+    return older.slice(Math.max(older.length - limit, 0))
+  }
+}
@@ -0,0 +1,21 @@
+import { IRecordingInfo } from '../../types/Recordings'
+import { IRecordingStorage } from './RecordingStorage'
+
+// keeps recordings in memory only, useful for tests and throwaway servers
+export default class MemoryRecordingStorage implements IRecordingStorage {
+  private channels = new Map<string, { info: IRecordingInfo; data: Buffer }[]>()
+
+  async save(channel: string, info: IRecordingInfo, data: Buffer) {
+    const recordings = this.channels.get(channel) ?? []
+    recordings.push({ info, data })
+    this.channels.set(channel, recordings)
+  }
+
+  async list(channel: string) {
+    return (this.channels.get(channel) ?? []).map(({ info }) => info).reverse()
+  }
+
+  async load(channel: string, id: string) {
+    return (this.channels.get(channel) ?? []).find(({ info }) => info.id === id) ?? null
+  }
+}
@@ -0,0 +1,15 @@
+import { IWhiteboardStroke } from '../../types/Whiteboard'
+import { IWhiteboardStorage } from './WhiteboardStorage'
+
+// keeps whiteboards in memory only, useful for tests and throwaway servers
+export default class MemoryWhiteboardStorage implements IWhiteboardStorage {
+  private boards = new Map<string, IWhiteboardStroke[]>()
+
+  async load(boardId: string) {
+    return this.boards.get(boardId) ?? []
+  }
+
+  async save(boardId: string, strokes: IWhiteboardStroke[]) {
+    this.boards.set(boardId, strokes.slice())
+  }
+}
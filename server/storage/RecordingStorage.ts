@@ -0,0 +1,13 @@
+import { IRecordingInfo } from '../../types/Recordings'
+
+/**
+ * Storage adapter for call recordings, grouped by channel like the chat history (one channel per
+ * office room).
+ */
+export interface IRecordingStorage {
+  save(channel: string, info: IRecordingInfo, data: Buffer): Promise<void>
+  // newest first
+  list(channel: string): Promise<IRecordingInfo[]>
+  // resolves to null when the channel has no such recording
+  load(channel: string, id: string): Promise<{ info: IRecordingInfo; data: Buffer } | null>
+}
@@ -0,0 +1,11 @@
+import { IWhiteboardStroke } from '../../types/Whiteboard'
+
+/**
+ * Storage adapter for whiteboard drawings, every board is saved as a whole under its
+ * Whiteboard.roomId whenever a stroke is added or undone. Adapters may coalesce the saves of a
+ * board made in quick succession, the strokes array is then read when it is actually written.
+ */
+export interface IWhiteboardStorage {
+  load(boardId: string): Promise<IWhiteboardStroke[]>
+  save(boardId: string, strokes: IWhiteboardStroke[]): Promise<void>
+}
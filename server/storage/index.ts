@@ -0,0 +1,43 @@
+import path from 'path'
+import { IChatStorage } from './ChatStorage'
+import FileChatStorage from './FileChatStorage'
+import MemoryChatStorage from './MemoryChatStorage'
+import { IWhiteboardStorage } from './WhiteboardStorage'
+import FileWhiteboardStorage from './FileWhiteboardStorage'
+import MemoryWhiteboardStorage from './MemoryWhiteboardStorage'
+import { IAccountStorage } from './AccountStorage'
+import FileAccountStorage from './FileAccountStorage'
+import MemoryAccountStorage from './MemoryAccountStorage'
+import { IRecordingStorage } from './RecordingStorage'
+import FileRecordingStorage from './FileRecordingStorage'
+import MemoryRecordingStorage from './MemoryRecordingStorage'
+import { IBanStorage } from './BanStorage'
+import FileBanStorage from './FileBanStorage'
+import MemoryBanStorage from './MemoryBanStorage'
+
+/**
+ * Persistent data is written to DATA_DIR (defaults to ./data relative to where the server runs),
+ * set STORAGE=memory to keep everything in memory instead.
+ */
+const dataDir = process.env.DATA_DIR || path.resolve('data')
+const inMemory = process.env.STORAGE === 'memory'
+
+export const chatStorage: IChatStorage = inMemory
+  ? new MemoryChatStorage()
+  : new FileChatStorage(path.join(dataDir, 'chat'))
+
+export const whiteboardStorage: IWhiteboardStorage = inMemory
+  ? new MemoryWhiteboardStorage()
+  : new FileWhiteboardStorage(path.join(dataDir, 'whiteboards'))
+
+export const accountStorage: IAccountStorage = inMemory
+  ? new MemoryAccountStorage()
+  : new FileAccountStorage(path.join(dataDir, 'accounts'))
+
+export const recordingStorage: IRecordingStorage = inMemory
+  ? new MemoryRecordingStorage()
+  : new FileRecordingStorage(path.join(dataDir, 'recordings'))
+
+export const banStorage: IBanStorage = inMemory
+  ? new MemoryBanStorage()
+  : new FileBanStorage(path.join(dataDir, 'bans'))
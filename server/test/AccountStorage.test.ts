@@ -0,0 +1,71 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { AccountRecord, IAccountStorage, UsernameTakenError } from '../storage/AccountStorage'
+import FileAccountStorage from '../storage/FileAccountStorage'
+import MemoryAccountStorage from '../storage/MemoryAccountStorage'
+
+function createAccount(id: string, username: string | null, createdAt = 0): AccountRecord {
+  return {
+    id,
+    username,
+    passwordHash: null,
+    createdAt,
+    profile: { name: '', texture: '', preferences: {} },
+  }
+}
+
+const storages: [string, () => IAccountStorage][] = [
+  ['MemoryAccountStorage', () => new MemoryAccountStorage()],
+  [
+    'FileAccountStorage',
+    () => new FileAccountStorage(fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'))),
+  ],
+]
+
+storages.forEach(([name, create]) => {
+  describe(name, () => {
+    let storage: IAccountStorage
+
+    beforeEach(() => {
+      storage = create()
+    })
+
+    it('finds accounts by id and by username, case insensitively', async () => {
+      await storage.save(createAccount('a', 'Alice'))
+      assert.strictEqual((await storage.get('a'))?.username, 'Alice')
+      assert.strictEqual((await storage.findByUsername('alice'))?.id, 'a')
+      assert.strictEqual(await storage.findByUsername('bob'), null)
+    })
+
+    it('lets an account be saved again with its own username', async () => {
+      await storage.save(createAccount('a', 'alice'))
+      await storage.save(createAccount('a', 'alice', 1))
+      assert.strictEqual((await storage.get('a'))?.createdAt, 1)
+    })
+
+    it('rejects a username taken by another account, even by concurrent saves', async () => {
+      const results = await Promise.allSettled([
+        storage.save(createAccount('a', 'alice')),
+        storage.save(createAccount('b', 'Alice')),
+      ])
+      assert.deepStrictEqual(
+        results.map(({ status }) => status),
+        ['fulfilled', 'rejected']
+      )
+      assert.ok((results[1] as PromiseRejectedResult).reason instanceof UsernameTakenError)
+      assert.strictEqual(await storage.get('b'), null)
+    })
+
+    it('removes the guests not seen since the given time', async () => {
+      await storage.save(createAccount('old', null, 0))
+      await storage.save({ ...createAccount('seen', null, 0), lastSeenAt: 100 })
+      await storage.save(createAccount('registered', 'alice', 0))
+      assert.strictEqual(await storage.removeGuestsNotSeenSince(50), 1)
+      assert.strictEqual(await storage.get('old'), null)
+      assert.ok(await storage.get('seen'))
+      assert.ok(await storage.get('registered'))
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ChatRecord, IChatStorage } from '../storage/ChatStorage'
+import FileChatStorage from '../storage/FileChatStorage'
+import MemoryChatStorage from '../storage/MemoryChatStorage'
+
+// messages sent in the same millisecond
+function createMessages(count: number): ChatRecord[] {
+  return Array.from({ length: count }, (_, seq) => ({
+    seq,
+    author: 'alice',
+    createdAt: 1000,
+    content: `message ${seq}`,
+  }))
+}
+
+const storages: [string, () => IChatStorage][] = [
+  ['MemoryChatStorage', () => new MemoryChatStorage()],
+  ['FileChatStorage', () => new FileChatStorage(fs.mkdtempSync(path.join(os.tmpdir(), 'chat-')))],
+]
+
+storages.forEach(([name, create]) => {
+  describe(name, () => {
+    let storage: IChatStorage
+
+    beforeEach(() => {
+      storage = create()
+    })
+
+    it('has no history for a new channel', async () => {
+      assert.deepStrictEqual(await storage.load('room', Infinity, 10), [])
+    })
+
+    it('pages through the messages without skipping those of the same millisecond', async () => {
+      const messages = createMessages(5)
+      await Promise.all(messages.map((message) => storage.append('room', message)))
+      await storage.append('other', createMessages(1)[0])
+
+      assert.deepStrictEqual(await storage.load('room', Infinity, 2), messages.slice(3))
+      assert.deepStrictEqual(await storage.load('room', 3, 2), messages.slice(1, 3))
+      assert.deepStrictEqual(await storage.load('room', 1, 2), messages.slice(0, 1))
+      assert.deepStrictEqual(await storage.load('room', 0, 2), [])
+    })
+  })
+})
+
+describe('FileChatStorage', () => {
+  it('numbers the messages stored without a seq by their line', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-'))
+    const lines = ['first', 'second'].map((content) => {
+      return `${JSON.stringify({ author: 'alice', createdAt: 1000, content })}\n`
+    })
+    fs.writeFileSync(path.join(dir, 'room.jsonl'), lines.join(''))
+
+    const storage = new FileChatStorage(dir)
+    await storage.append('room', { seq: 2, author: 'bob', createdAt: 2000, content: 'third' })
+    const contents = (await storage.load('room', Infinity, 10)).map(({ seq, content }) => ({
+      seq,
+      content,
+    }))
+    assert.deepStrictEqual(contents, [
+      { seq: 0, content: 'first' },
+      { seq: 1, content: 'second' },
+      { seq: 2, content: 'third' },
+    ])
+  })
+})
@@ -0,0 +1,143 @@
+import assert from 'assert'
+import { Client } from 'colyseus'
+import { Message } from '../../types/Messages'
+import MessageGuard from '../rooms/MessageGuard'
+import TokenBucket from '../validation/TokenBucket'
+
+// replaces Date.now with a clock the tests move forward by hand
+function useFakeClock() {
+  const clock = { now: 0 }
+  const realNow = Date.now
+  const realWarn = console.warn
+  beforeEach(() => {
+    clock.now = 1000000
+    Date.now = () => clock.now
+    // the guard logs every dropped message
+    console.warn = () => undefined
+  })
+  afterEach(() => {
+    Date.now = realNow
+    console.warn = realWarn
+  })
+  return clock
+}
+
+describe('TokenBucket', () => {
+  const clock = useFakeClock()
+
+  it('accepts a burst up to its capacity', () => {
+    const bucket = new TokenBucket(3, 1)
+    assert.deepStrictEqual(
+      [1, 2, 3, 4].map(() => bucket.take()),
+      [true, true, true, false]
+    )
+  })
+
+  it('refills over time without going over its capacity', () => {
+    const bucket = new TokenBucket(2, 2)
+    bucket.take()
+    bucket.take()
+    clock.now += 500
+    assert.strictEqual(bucket.take(), true)
+    assert.strictEqual(bucket.take(), false)
+
+    clock.now += 60000
+    assert.deepStrictEqual(
+      [1, 2, 3].map(() => bucket.take()),
+      [true, true, false]
+    )
+  })
+})
+
+describe('MessageGuard', () => {
+  const clock = useFakeClock()
+  const client = { sessionId: 'player' } as Client
+  let disconnected: Client[]
+  let guard: MessageGuard
+
+  beforeEach(() => {
+    disconnected = []
+    guard = new MessageGuard('room', (cli) => disconnected.push(cli))
+  })
+
+  it('accepts valid messages within the rate limit', () => {
+    assert.strictEqual(guard.accept(client, Message.ADD_CHAT_MESSAGE, { content: 'hi' }), true)
+  })
+
+  it('drops invalid payloads and message types without a rule', () => {
+    assert.strictEqual(guard.accept(client, Message.ADD_CHAT_MESSAGE, { content: '' }), false)
+    assert.strictEqual(guard.accept(client, Message.ADD_CHAT_MESSAGE, 'hi'), false)
+    assert.strictEqual(guard.accept(client, -1 as Message, {}), false)
+  })
+
+  it('drops messages over the rate limit until the bucket refills', () => {
+    const send = () => guard.accept(client, Message.ADD_CHAT_MESSAGE, { content: 'hi' })
+    for (let i = 0; i < 10; i++) assert.strictEqual(send(), true)
+    assert.strictEqual(send(), false)
+    clock.now += 500
+    assert.strictEqual(send(), true)
+  })
+
+  it('keeps a separate rate limit per client', () => {
+    const other = { sessionId: 'other' } as Client
+    for (let i = 0; i < 10; i++) guard.accept(client, Message.ADD_CHAT_MESSAGE, { content: 'hi' })
+    assert.strictEqual(guard.accept(other, Message.ADD_CHAT_MESSAGE, { content: 'hi' }), true)
+  })
+
+  it('disconnects clients after repeated violations within a minute', () => {
+    for (let i = 0; i < 19; i++) guard.accept(client, Message.ADD_CHAT_MESSAGE, {})
+    assert.deepStrictEqual(disconnected, [])
+    guard.accept(client, Message.ADD_CHAT_MESSAGE, {})
+    assert.deepStrictEqual(disconnected, [client])
+  })
+
+  it('forgets violations older than a minute', () => {
+    for (let i = 0; i < 19; i++) guard.accept(client, Message.ADD_CHAT_MESSAGE, {})
+    clock.now += 60000
+    guard.accept(client, Message.ADD_CHAT_MESSAGE, {})
+    assert.deepStrictEqual(disconnected, [])
+  })
+
+  describe('position updates', () => {
+    const update = { x: 1, y: 1, anim: 'adam_idle_down' }
+
+    // sends updates at the given rate for a while, returns how many were accepted
+    const sendAt = (perSecond: number, seconds: number) => {
+      let accepted = 0
+      for (let i = 0; i < perSecond * seconds && !disconnected.length; i++) {
+        if (guard.accept(client, Message.UPDATE_PLAYER, update)) accepted++
+        clock.now += 1000 / perSecond
+      }
+      return accepted
+    }
+
+    it('accepts every update at the rate the client throttles them to', () => {
+      assert.strictEqual(sendAt(30, 60), 30 * 60)
+      assert.deepStrictEqual(disconnected, [])
+    })
+
+    it('drops a burst over the rate limit without disconnecting the client', () => {
+      let accepted = 0
+      for (let i = 0; i < 30; i++) {
+        if (guard.accept(client, Message.UPDATE_PLAYER, update)) accepted++
+      }
+      assert.strictEqual(accepted, 10)
+      clock.now += 1000 / 30
+      assert.strictEqual(sendAt(30, 60), 30 * 60)
+      assert.deepStrictEqual(disconnected, [])
+    })
+
+    it('disconnects clients that keep sending them every frame', () => {
+      sendAt(144, 5)
+      assert.deepStrictEqual(disconnected, [client])
+    })
+  })
+
+  it('still counts invalid position updates as violations', () => {
+    for (let i = 0; i < 20; i++) {
+      guard.accept(client, Message.UPDATE_PLAYER, { x: 'a' })
+      clock.now += 1000 / 30
+    }
+    assert.deepStrictEqual(disconnected, [client])
+  })
+})
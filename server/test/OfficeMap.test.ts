@@ -0,0 +1,60 @@
+import assert from 'assert'
+import { createTestMap } from './testMap'
+
+describe('OfficeMap', () => {
+  const officeMap = createTestMap()
+
+  describe('canWalk', () => {
+    it('lets players walk across the open floor', () => {
+      assert.strictEqual(officeMap.canWalk(40, 40, 100, 40), true)
+      assert.strictEqual(officeMap.canWalk(40, 140, 300, 140), true)
+    })
+
+    it('accepts standing still, even inside a collider', () => {
+      assert.strictEqual(officeMap.canWalk(64, 230, 64, 230), true)
+    })
+
+    it('stops players at walls, objects and the edge of the map', () => {
+      assert.strictEqual(officeMap.canWalk(140, 40, 220, 40), false)
+      assert.strictEqual(officeMap.canWalk(64, 140, 64, 215), false)
+      assert.strictEqual(officeMap.canWalk(20, 40, -10, 40), false)
+      assert.strictEqual(officeMap.canWalk(20, 40, 20, 300), false)
+    })
+
+    it('only closes doors of the closed zones', () => {
+      assert.strictEqual(officeMap.canWalk(240, 220, 240, 260), true)
+      assert.strictEqual(officeMap.canWalk(240, 220, 240, 260, ['Meeting']), false)
+      assert.strictEqual(officeMap.canWalk(240, 220, 240, 260, ['Other']), true)
+    })
+
+    describe('when the player is stuck in the desk next to their chair', () => {
+      it('lets them step out of it', () => {
+        assert.strictEqual(officeMap.collides(64, 208), true)
+        assert.strictEqual(officeMap.canWalk(64, 208, 64, 198), true)
+        assert.strictEqual(officeMap.canWalk(64, 208, 40, 198), true)
+      })
+
+      it('does not let them move deeper into it or stay inside it', () => {
+        assert.strictEqual(officeMap.canWalk(64, 208, 64, 215), false)
+        assert.strictEqual(officeMap.canWalk(64, 208, 70, 208), false)
+      })
+
+      it('does not let them cross it', () => {
+        assert.strictEqual(officeMap.canWalk(64, 208, 64, 270), false)
+        assert.strictEqual(officeMap.canWalk(64, 208, 140, 208), false)
+      })
+
+      it('does not let them walk through something else once out', () => {
+        assert.strictEqual(officeMap.canWalk(64, 208, 64, 130), false)
+      })
+    })
+  })
+
+  it('knows where the chairs and zones are', () => {
+    assert.strictEqual(officeMap.isNearChair(64, 208), true)
+    assert.strictEqual(officeMap.isNearChair(64, 240), false)
+    assert.strictEqual(officeMap.getZone(260, 300), 'Meeting')
+    assert.strictEqual(officeMap.getZone(40, 40), '')
+    assert.deepStrictEqual(officeMap.getLockableZones(), ['Meeting'])
+  })
+})
@@ -0,0 +1,100 @@
+import assert from 'assert'
+import { Client } from 'colyseus'
+import { Message } from '../../types/Messages'
+import PlayerUpdateCommand from '../rooms/commands/PlayerUpdateCommand'
+import { OfficeState } from '../rooms/schema/OfficeState'
+import type { SkyOffice } from '../rooms/SkyOffice'
+import { createTestMap } from './testMap'
+
+describe('PlayerUpdateCommand', () => {
+  const officeMap = createTestMap()
+  let player: { x: number; y: number; anim: string; texture: string; zone: string }
+  let sent: [Message, any][]
+  let client: Client
+  let command: PlayerUpdateCommand
+
+  beforeEach(() => {
+    player = { x: 64, y: 160, anim: 'adam_idle_down', texture: 'adam', zone: '' }
+    sent = []
+    client = {
+      sessionId: 'player',
+      send: (type: Message, message: any) => sent.push([type, message]),
+    } as unknown as Client
+    // the command only uses the players and the meeting rooms of the state
+    const state = { players: new Map([['player', player]]), meetingRooms: new Map() }
+    const room: Pick<SkyOffice, 'state'> = { state: state as unknown as OfficeState }
+    command = new PlayerUpdateCommand()
+    command.state = room.state
+    command.room = room as SkyOffice
+  })
+
+  const move = (x: number, y: number, anim = 'adam_run_down') =>
+    command.execute({ client, x, y, anim, officeMap })
+
+  const assertRejected = (x: number, y: number) => {
+    assert.deepStrictEqual(sent, [[Message.RESET_PLAYER_POSITION, { x, y }]])
+    assert.strictEqual(player.x, x)
+    assert.strictEqual(player.y, y)
+  }
+
+  it('accepts walking on the open floor', () => {
+    move(100, 140)
+    assert.deepStrictEqual(sent, [])
+    assert.deepStrictEqual(player, {
+      x: 100,
+      y: 140,
+      anim: 'adam_run_down',
+      texture: 'adam',
+      zone: '',
+    })
+  })
+
+  it('rejects walking into an object', () => {
+    move(64, 215)
+    assertRejected(64, 160)
+  })
+
+  it('rejects moves faster than a player can walk', () => {
+    player.x = 20
+    player.y = 140
+    move(300, 140)
+    assertRejected(20, 140)
+  })
+
+  it('rejects unknown animations and the animations of another character', () => {
+    move(70, 160, 'adam_fly_down')
+    assertRejected(64, 160)
+    sent = []
+    move(70, 160, 'ash_run_down')
+    assertRejected(64, 160)
+  })
+
+  it('lets players sit down on a chair and get back up', () => {
+    player.y = 196
+    move(64, 208, 'adam_sit_down')
+    assert.deepStrictEqual(sent, [])
+    assert.strictEqual(player.y, 208)
+
+    move(64, 196, 'adam_idle_down')
+    assert.deepStrictEqual(sent, [])
+    assert.strictEqual(player.y, 196)
+  })
+
+  it('rejects sitting away from a chair', () => {
+    move(120, 160, 'adam_sit_down')
+    assertRejected(64, 160)
+  })
+
+  it('rejects sitting on a chair from the other side of the desk', () => {
+    player.y = 270
+    move(64, 208, 'adam_sit_down')
+    assertRejected(64, 270)
+  })
+
+  it('keeps track of the zone the player is in', () => {
+    player.x = 270
+    player.y = 270
+    move(270, 290)
+    assert.strictEqual(player.zone, 'Meeting')
+  })
+})
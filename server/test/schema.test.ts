@@ -0,0 +1,99 @@
+import assert from 'assert'
+import {
+  string,
+  number,
+  boolean,
+  oneOf,
+  optional,
+  array,
+  object,
+  anyObject,
+} from '../validation/schema'
+
+describe('schema', () => {
+  describe('string', () => {
+    it('accepts strings within the bounds', () => {
+      assert.strictEqual(string({ min: 1, max: 3 })('abc'), null)
+    })
+
+    it('rejects other types, lengths and formats', () => {
+      assert.strictEqual(string()(1, 'name'), 'name should be a string')
+      assert.strictEqual(
+        string({ min: 1 })(''),
+        'payload should be between 1 and Infinity characters long'
+      )
+      assert.strictEqual(
+        string({ max: 2 })('abc', 'name'),
+        'name should be between 0 and 2 characters long'
+      )
+      assert.strictEqual(string({ pattern: /^#/ })('red', 'color'), 'color has an invalid format')
+    })
+  })
+
+  describe('number', () => {
+    it('accepts finite numbers within the bounds', () => {
+      assert.strictEqual(number({ min: 0, max: 1 })(0.5), null)
+    })
+
+    it('rejects non-finite numbers and numbers out of bounds', () => {
+      assert.strictEqual(number()('1', 'x'), 'x should be a finite number')
+      assert.strictEqual(number()(NaN, 'x'), 'x should be a finite number')
+      assert.strictEqual(number()(Infinity, 'x'), 'x should be a finite number')
+      assert.strictEqual(number({ max: 1 })(2, 'x'), 'x should be between -Infinity and 1')
+    })
+  })
+
+  it('checks booleans and enumerations', () => {
+    assert.strictEqual(boolean()(false), null)
+    assert.strictEqual(boolean()(0, 'muted'), 'muted should be a boolean')
+    assert.strictEqual(oneOf([1, 2])(2), null)
+    assert.strictEqual(oneOf([1, 2])('1', 'mode'), 'mode should be one of 1, 2')
+  })
+
+  it('lets optional values be missing but still checks them when present', () => {
+    const schema = optional(number())
+    assert.strictEqual(schema(undefined), null)
+    assert.strictEqual(schema(null), null)
+    assert.strictEqual(schema('1', 'x'), 'x should be a finite number')
+  })
+
+  it('checks every item of an array and its length', () => {
+    const schema = array(number(), { max: 2 })
+    assert.strictEqual(schema([1, 2]), null)
+    assert.strictEqual(schema([1, 'a'], 'points'), 'points[1] should be a finite number')
+    assert.strictEqual(schema([1, 2, 3], 'points'), 'points should have at most 2 items')
+    assert.strictEqual(schema({ length: 0 }, 'points'), 'points should be an array')
+  })
+
+  describe('object', () => {
+    const schema = object({ x: number(), name: optional(string()) })
+
+    it('accepts objects matching the shape', () => {
+      assert.strictEqual(schema({ x: 1 }), null)
+      assert.strictEqual(schema({ x: 1, name: 'a' }), null)
+    })
+
+    it('reports the path of the invalid value', () => {
+      assert.strictEqual(schema({ x: 'a' }), 'x should be a finite number')
+      assert.strictEqual(
+        object({ position: object({ x: number() }) })({ position: { x: null } }),
+        'position.x should be a finite number'
+      )
+    })
+
+    it('rejects unknown keys so that a payload cannot carry a client', () => {
+      assert.strictEqual(schema({ x: 1, client: {} }), 'payload has an unknown key client')
+    })
+
+    it('rejects anything that is not a plain object', () => {
+      assert.strictEqual(schema(null), 'payload should be an object')
+      assert.strictEqual(schema([]), 'payload should be an object')
+      assert.strictEqual(schema('{}'), 'payload should be an object')
+    })
+  })
+
+  it('accepts any object for free-form payloads', () => {
+    assert.strictEqual(anyObject()({ points: [1, 2], anything: true }), null)
+    assert.strictEqual(anyObject()([], 'stroke'), 'stroke should be an object')
+  })
+})
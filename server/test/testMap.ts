@@ -0,0 +1,66 @@
+import OfficeMap from '../map/OfficeMap'
+
+const TILE_SIZE = 32
+const COLUMNS = 10
+const ROWS = 10
+const FLOOR = 1
+const WALL = 2
+const collides = { name: 'collides', type: 'bool', value: true }
+
+/**
+ * 320x320 office used by the movement tests:
+ * - a wall (colliding ground tiles) at x 160-192, y 0-128
+ * - a desk at x 32-96, y 224-256 with a chair right above it, centered on (64, 208)
+ * - a shelf at x 32-96, y 176-192, above the chair
+ * - the "Meeting" room at x 224-320, y 288-320, its door at x 224-256, y 256-288
+ */
+export function createTestMap() {
+  const ground: number[] = []
+  for (let row = 0; row < ROWS; row++) {
+    for (let column = 0; column < COLUMNS; column++) {
+      ground.push(column === 5 && row < 4 ? WALL : FLOOR)
+    }
+  }
+  const object = (id: number, x: number, y: number, width: number, height: number) => ({
+    id,
+    name: '',
+    x,
+    y,
+    width,
+    height,
+  })
+
+  return new OfficeMap({
+    width: COLUMNS,
+    height: ROWS,
+    tilewidth: TILE_SIZE,
+    tileheight: TILE_SIZE,
+    tilesets: [{ name: 'FloorAndGround', firstgid: 1, tiles: [{ id: 1, properties: [collides] }] }],
+    layers: [
+      { name: 'Ground', type: 'tilelayer', data: ground },
+      // tile objects are anchored at their bottom-left corner
+      { name: 'ObjectsOnCollide', type: 'objectgroup', objects: [object(1, 32, 256, 64, 32)] },
+      {
+        name: 'GenericObjectsOnCollide',
+        type: 'objectgroup',
+        objects: [object(2, 32, 192, 64, 16)],
+      },
+      { name: 'Chair', type: 'objectgroup', objects: [object(3, 48, 224, 32, 32)] },
+      {
+        name: 'Zones',
+        type: 'objectgroup',
+        objects: [{ ...object(4, 224, 288, 96, 32), name: 'Meeting' }],
+      },
+      {
+        name: 'Doors',
+        type: 'objectgroup',
+        objects: [
+          {
+            ...object(5, 224, 256, 32, 32),
+            properties: [{ name: 'zone', type: 'string', value: 'Meeting' }],
+          },
+        ],
+      },
+    ],
+  })
+}
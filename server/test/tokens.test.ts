@@ -0,0 +1,46 @@
+import assert from 'assert'
+import { signToken, verifyToken, TOKEN_LIFETIME } from '../auth/tokens'
+
+describe('tokens', () => {
+  const realNow = Date.now
+
+  afterEach(() => {
+    Date.now = realNow
+  })
+
+  it('returns the account a token was issued for', () => {
+    assert.strictEqual(verifyToken(signToken('account')), 'account')
+  })
+
+  it('rejects tokens that are not strings or not in the token format', () => {
+    assert.strictEqual(verifyToken(undefined), null)
+    assert.strictEqual(verifyToken(42), null)
+    assert.strictEqual(verifyToken(''), null)
+    assert.strictEqual(verifyToken('no-signature'), null)
+    assert.strictEqual(verifyToken(`${signToken('account')}x`.repeat(10)), null)
+  })
+
+  it('rejects tokens whose content was changed', () => {
+    const [, signature] = signToken('account').split('.')
+    const payload = { sub: 'someone-else', exp: Date.now() + TOKEN_LIFETIME }
+    const content = Buffer.from(JSON.stringify(payload)).toString('base64url')
+    assert.strictEqual(verifyToken(`${content}.${signature}`), null)
+  })
+
+  it('rejects tokens with a different signature', () => {
+    const [content, signature] = signToken('account').split('.')
+    const forged = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`
+    assert.strictEqual(verifyToken(`${content}.${forged}`), null)
+  })
+
+  it('rejects expired tokens', () => {
+    const issuedAt = realNow()
+    Date.now = () => issuedAt
+    const token = signToken('account')
+
+    Date.now = () => issuedAt + TOKEN_LIFETIME - 1
+    assert.strictEqual(verifyToken(token), 'account')
+    Date.now = () => issuedAt + TOKEN_LIFETIME
+    assert.strictEqual(verifyToken(token), null)
+  })
+})
@@ -0,0 +1,25 @@
+/**
+ * Classic token bucket: holds at most `capacity` tokens and refills `refillPerSecond` tokens every
+ * second, every accepted action takes one token.
+ */
+export default class TokenBucket {
+  private tokens: number
+  private lastRefillAt = Date.now()
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity
+  }
+
+  take() {
+    const now = Date.now()
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefillAt) / 1000) * this.refillPerSecond
+    )
+    this.lastRefillAt = now
+
+    if (this.tokens < 1) return false
+    this.tokens -= 1
+    return true
+  }
+}
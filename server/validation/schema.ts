@@ -0,0 +1,95 @@
+/**
+ * Minimal schema validators for the payloads clients send to rooms. A schema returns a description
+ * of the first problem it finds, or null when the value is valid.
+ */
+export type Schema = (value: unknown, path?: string) => string | null
+
+const describe = (path: string) => path || 'payload'
+
+interface StringOptions {
+  min?: number
+  max?: number
+  pattern?: RegExp
+}
+
+export function string({ min = 0, max = Infinity, pattern }: StringOptions = {}): Schema {
+  return (value, path = '') => {
+    if (typeof value !== 'string') return `${describe(path)} should be a string`
+    if (value.length < min || value.length > max) {
+      return `${describe(path)} should be between ${min} and ${max} characters long`
+    }
+    if (pattern && !pattern.test(value)) return `${describe(path)} has an invalid format`
+    return null
+  }
+}
+
+export function number({ min = -Infinity, max = Infinity } = {}): Schema {
+  return (value, path = '') => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `${describe(path)} should be a finite number`
+    }
+    if (value < min || value > max) return `${describe(path)} should be between ${min} and ${max}`
+    return null
+  }
+}
+
+export function boolean(): Schema {
+  return (value, path = '') =>
+    typeof value === 'boolean' ? null : `${describe(path)} should be a boolean`
+}
+
+export function oneOf(values: unknown[]): Schema {
+  return (value, path = '') =>
+    values.indexOf(value) !== -1 ? null : `${describe(path)} should be one of ${values.join(', ')}`
+}
+
+export function optional(schema: Schema): Schema {
+  return (value, path = '') => (value === undefined || value === null ? null : schema(value, path))
+}
+
+export function array(item: Schema, { max = Infinity } = {}): Schema {
+  return (value, path = '') => {
+    if (!Array.isArray(value)) return `${describe(path)} should be an array`
+    if (value.length > max) return `${describe(path)} should have at most ${max} items`
+    for (let i = 0; i < value.length; i++) {
+      const error = item(value[i], `${path}[${i}]`)
+      if (error) return error
+    }
+    return null
+  }
+}
+
+const isObject = (value: unknown) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Unknown keys are rejected, the handlers spread some payloads into their commands and an extra
+ * key (e.g. `client`) must not be able to override what the room passes along.
+ */
+export function object(shape: { [key: string]: Schema } = {}): Schema {
+  return (value, path = '') => {
+    if (!isObject(value)) return `${describe(path)} should be an object`
+    const unknownKey = Object.keys(value as object).find(
+      (key) => !Object.prototype.hasOwnProperty.call(shape, key)
+    )
+    if (unknownKey !== undefined) {
+      return `${describe(path)} has an unknown key ${unknownKey}`
+    }
+    const keys = Object.keys(shape)
+    for (let i = 0; i < keys.length; i++) {
+      const error = shape[keys[i]]((value as any)[keys[i]], path ? `${path}.${keys[i]}` : keys[i])
+      if (error) return error
+    }
+    return null
+  }
+}
+
+// free-form objects checked in detail by whoever reads them (whiteboard strokes, SFU parameters)
+export function anyObject(): Schema {
+  return (value, path = '') => (isObject(value) ? null : `${describe(path)} should be an object`)
+}
+
+// for messages that do not carry a payload
+export function empty(): Schema {
+  return () => null
+}
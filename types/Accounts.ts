@@ -0,0 +1,30 @@
+import { BackgroundMode } from './BackgroundMode'
+
+export interface IProfilePreferences {
+  backgroundMode?: BackgroundMode
+}
+
+// what the player picked last time, the login dialog starts from it
+export interface IProfile {
+  name: string
+  // one of playerTextures, empty until the player picked an avatar
+  texture: string
+  preferences: IProfilePreferences
+}
+
+export interface IAccount {
+  id: string
+  // null for guest accounts, which can only be used through their token
+  username: string | null
+  profile: IProfile
+}
+
+// body of every successful sign in, the token is sent when joining rooms
+export interface IAuthResponse {
+  token: string
+  account: IAccount
+}
+
+export const USERNAME_PATTERN = /^[a-z0-9_.-]{3,24}$/i
+export const MIN_PASSWORD_LENGTH = 8
+export const MAX_PASSWORD_LENGTH = 72
@@ -0,0 +1,12 @@
+export const playerTextures = ['adam', 'ash', 'lucy', 'nancy']
+
+const animStates = ['idle', 'run', 'sit']
+const animDirections = ['right', 'up', 'left', 'down']
+
+// every animation key created in client/src/anims/CharacterAnims.ts, e.g. 'adam_run_left'
+export const playerAnims = new Set<string>()
+playerTextures.forEach((texture) => {
+  animStates.forEach((state) => {
+    animDirections.forEach((dir) => playerAnims.add(`${texture}_${state}_${dir}`))
+  })
+})
@@ -0,0 +1,4 @@
+export enum ChatMode {
+  ROOM,
+  NEARBY,
+}
@@ -1,4 +1,8 @@
 import { Schema, ArraySchema, SetSchema, MapSchema } from '@colyseus/schema'
+import { PlayerRole } from './PlayerRole'
+import { PlayerStatus } from './PlayerStatus'
+import { MediaMode } from './Media'
+import { RecordingScope, RecordingStatus } from './Recordings'
 
 export interface IPlayer extends Schema {
   name: string
@@ -7,10 +11,18 @@ export interface IPlayer extends Schema {
   anim: string
   readyToConnect: boolean
   videoConnected: boolean
+  role: PlayerRole
+  muted: boolean
+  username: string
+  status: PlayerStatus
+  texture: string
+  zone: string
 }
 
 export interface IComputer extends Schema {
   connectedUser: SetSchema<string>
+  // session id of the player controlling a shared screen, keyed by the presenter's session id
+  remoteControls: MapSchema<string>
 }
 
 export interface IWhiteboard extends Schema {
@@ -18,7 +30,31 @@ export interface IWhiteboard extends Schema {
   connectedUser: SetSchema<string>
 }
 
+export interface IMeetingRoom extends Schema {
+  locked: boolean
+  occupants: SetSchema<string>
+  // session id => when the knock or pass expires (server time in milliseconds)
+  knocks: MapSchema<number>
+  passes: MapSchema<number>
+}
+
+export interface IRecording extends Schema {
+  scope: RecordingScope
+  // computer id or zone name
+  target: string
+  // session id of the player who records, only their client records and uploads
+  recorder: string
+  status: RecordingStatus
+  // every player at the computer or in the zone has to consent
+  participants: SetSchema<string>
+  consents: SetSchema<string>
+  // when everyone first consented (server time in milliseconds), 0 until then
+  startedAt: number
+}
+
 export interface IChatMessage extends Schema {
+  // position of the message in the room's chat history
+  seq: number
   author: string
   createdAt: number
   content: string
@@ -28,5 +64,10 @@ export interface IOfficeState extends Schema {
   players: MapSchema<IPlayer>
   computers: MapSchema<IComputer>
   whiteboards: MapSchema<IWhiteboard>
+  meetingRooms: MapSchema<IMeetingRoom>
+  // keyed by getRecordingId()
+  recordings: MapSchema<IRecording>
+  // media mode in use, MESH when the room asked for the SFU but it is unavailable
+  mediaMode: MediaMode
   chatMessages: ArraySchema<IChatMessage>
 }
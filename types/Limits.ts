@@ -0,0 +1,5 @@
+// limits shared by the client and the server-side validation
+export const MAX_PLAYER_NAME_LENGTH = 32
+export const MAX_CHAT_MESSAGE_LENGTH = 1000
+// peers are silent at this distance (px), calls are hung up past it outside of private zones
+export const HEARING_DISTANCE = 240
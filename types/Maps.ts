@@ -0,0 +1,37 @@
+export enum MapId {
+  SMALL_TEAM_ROOM = 'small-team-room',
+  OPEN_PLAN_FLOOR = 'open-plan-floor',
+  CONFERENCE_FLOOR = 'conference-floor',
+}
+
+export interface IMapLayout {
+  name: string
+  // Tiled map file in client/public/assets/map
+  file: string
+  // where new players appear
+  spawn: { x: number; y: number }
+}
+
+export const DEFAULT_MAP_ID = MapId.OPEN_PLAN_FLOOR
+
+export const mapLayouts: Record<MapId, IMapLayout> = {
+  [MapId.SMALL_TEAM_ROOM]: {
+    name: 'Small team room',
+    file: 'small_team_room.json',
+    spawn: { x: 240, y: 80 },
+  },
+  [MapId.OPEN_PLAN_FLOOR]: {
+    name: 'Open-plan floor',
+    file: 'map.json',
+    spawn: { x: 705, y: 500 },
+  },
+  [MapId.CONFERENCE_FLOOR]: {
+    name: 'Conference floor',
+    file: 'conference_floor.json',
+    spawn: { x: 368, y: 144 },
+  },
+}
+
+export function isMapId(id: unknown): id is MapId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(mapLayouts, id)
+}
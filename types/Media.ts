@@ -0,0 +1,21 @@
+export enum MediaMode {
+  // every pair of players in a call is connected directly (PeerJS)
+  MESH = 'mesh',
+  // players send their stream once to the server, which forwards it to the nearby players
+  SFU = 'sfu',
+}
+
+export const mediaModes = [MediaMode.MESH, MediaMode.SFU]
+
+export interface IIceServer {
+  urls: string[]
+  username?: string
+  credential?: string
+}
+
+// answer of the /ice endpoint of the server, used by every peer connection of the client
+export interface IIceConfig {
+  iceServers: IIceServer[]
+  // seconds the TURN credentials stay valid, unset when the server has no TURN server configured
+  ttl?: number
+}
@@ -11,4 +11,45 @@ export enum Message {
   VIDEO_CONNECTED,
   ADD_CHAT_MESSAGE,
   SEND_ROOM_DATA,
+  RESET_PLAYER_POSITION,
+  LOAD_CHAT_HISTORY,
+  SEND_DIRECT_MESSAGE,
+  LOAD_WHITEBOARD,
+  ADD_WHITEBOARD_STROKE,
+  UNDO_WHITEBOARD_STROKE,
+  REMOVE_WHITEBOARD_STROKE,
+  IMPORT_WHITEBOARD,
+  KICK_PLAYER,
+  BAN_PLAYER,
+  MUTE_PLAYER,
+  TRANSFER_HOST,
+  PLAYER_RECONNECTED,
+  UPDATE_PLAYER_STATUS,
+  UPDATE_PLAYER_TEXTURE,
+  LOCK_MEETING_ROOM,
+  KNOCK_MEETING_ROOM,
+  ANSWER_KNOCK,
+  // SFU signaling, see server/media/MediaRoom.ts and client/src/web/SfuConnection.ts
+  SFU_JOIN,
+  SFU_CREATE_TRANSPORT,
+  SFU_CONNECT_TRANSPORT,
+  SFU_PRODUCE,
+  SFU_SUBSCRIBE,
+  SFU_UNSUBSCRIBE,
+  SFU_NEW_CONSUMER,
+  SFU_RESUME_CONSUMER,
+  SFU_CONSUMER_CLOSED,
+  SFU_UNAVAILABLE,
+  START_RECORDING,
+  ANSWER_RECORDING,
+  STOP_RECORDING,
+  RECORDING_UPLOAD,
+  // annotations and laser pointers over shared screens, relayed to the users of the computer
+  ANNOTATE_SCREEN,
+  MOVE_SCREEN_POINTER,
+  // remote control of shared screens, see RemoteControlCommand
+  REQUEST_REMOTE_CONTROL,
+  ANSWER_REMOTE_CONTROL,
+  REVOKE_REMOTE_CONTROL,
+  REMOTE_CONTROL_EVENT,
 }
@@ -0,0 +1,5 @@
+export enum PlayerRole {
+  MEMBER = 'member',
+  // the player who created a custom room (or was handed over the role), allowed to moderate it
+  HOST = 'host',
+}
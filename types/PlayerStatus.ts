@@ -0,0 +1,14 @@
+export enum PlayerStatus {
+  AVAILABLE = 'available',
+  BUSY = 'busy',
+  // other players do not start video calls with players in do-not-disturb
+  DO_NOT_DISTURB = 'dnd',
+  AWAY = 'away',
+}
+
+export const playerStatuses = [
+  PlayerStatus.AVAILABLE,
+  PlayerStatus.BUSY,
+  PlayerStatus.DO_NOT_DISTURB,
+  PlayerStatus.AWAY,
+]
@@ -0,0 +1,36 @@
+// what a recording covers: the users of a computer or the players in a private zone
+export enum RecordingScope {
+  COMPUTER = 'computer',
+  ZONE = 'zone',
+}
+
+export const recordingScopes = [RecordingScope.COMPUTER, RecordingScope.ZONE]
+
+export enum RecordingStatus {
+  // waiting for every participant to consent, nothing is recorded meanwhile
+  PENDING = 'pending',
+  RECORDING = 'recording',
+}
+
+// recordings are uploaded as a single file once stopped
+export const MAX_RECORDING_SIZE = 500 * 1024 * 1024
+
+// key of the recording in OfficeState.recordings, there is at most one per computer or zone
+export function getRecordingId(scope: RecordingScope, target: string) {
+  return `${scope}:${target}`
+}
+
+// what the recording is named after, computers only have an id
+export function getRecordingTitle(scope: RecordingScope, target: string) {
+  return scope === RecordingScope.COMPUTER ? `Computer ${target}` : target
+}
+
+// a recording saved on the server, listed per room
+export interface IRecordingInfo {
+  id: string
+  title: string
+  // when the recording started (ms)
+  createdAt: number
+  size: number
+  mimeType: string
+}
@@ -0,0 +1,36 @@
+export enum RemoteInputType {
+  POINTER_MOVE = 'pointermove',
+  POINTER_DOWN = 'pointerdown',
+  POINTER_UP = 'pointerup',
+  WHEEL = 'wheel',
+  KEY_DOWN = 'keydown',
+  KEY_UP = 'keyup',
+}
+
+export const remoteInputTypes = [
+  RemoteInputType.POINTER_MOVE,
+  RemoteInputType.POINTER_DOWN,
+  RemoteInputType.POINTER_UP,
+  RemoteInputType.WHEEL,
+  RemoteInputType.KEY_DOWN,
+  RemoteInputType.KEY_UP,
+]
+
+/**
+ * Input of the player controlling a shared screen, forwarded to the presenter. Pointer positions
+ * are relative to the shared screen (0 to 1), the other fields follow the DOM events.
+ */
+export interface IRemoteInputEvent {
+  type: RemoteInputType
+  x?: number
+  y?: number
+  button?: number
+  deltaX?: number
+  deltaY?: number
+  key?: string
+  code?: string
+  altKey?: boolean
+  ctrlKey?: boolean
+  metaKey?: boolean
+  shiftKey?: boolean
+}
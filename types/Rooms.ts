@@ -1,3 +1,6 @@
+import { MapId } from './Maps'
+import { MediaMode } from './Media'
+
 export enum RoomType {
   LOBBY = 'lobby',
   PUBLIC = 'skyoffice',
@@ -9,4 +12,14 @@ export interface IRoomData {
   description: string
   password: string | null
   autoDispose: boolean
+  mapId: MapId
+  mediaMode: MediaMode
+}
+
+// close codes sent when the server removes a player from a room
+export enum RoomLeaveCode {
+  KICKED = 4001,
+  BANNED = 4002,
+  // the client kept sending invalid or too many messages
+  TOO_MANY_VIOLATIONS = 4003,
 }
@@ -0,0 +1,24 @@
+// annotations fade out after a few seconds (ms), the server only relays them and stores nothing
+export const ANNOTATION_LIFETIME = 5000
+// x, y pairs per annotation stroke
+export const MAX_ANNOTATION_POINTS = 1000
+
+export const annotationColors = ['#f44336', '#ffeb3b', '#42eacb', '#1ea2df', '#ffffff']
+
+/**
+ * The coordinates are relative to the shared screen (0 to 1) so that they line up whatever size
+ * each viewer shows it at.
+ */
+export interface IScreenAnnotation {
+  // key of the shared screen in ComputerStore.peerStreams: the sanitized id of the presenter
+  streamId: string
+  color: string
+  // x, y pairs
+  points: number[]
+}
+
+export interface IScreenPointer {
+  streamId: string
+  x: number
+  y: number
+}
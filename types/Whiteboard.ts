@@ -0,0 +1,37 @@
+export enum WhiteboardTool {
+  PEN,
+  LINE,
+  RECTANGLE,
+  ELLIPSE,
+  TEXT,
+  ERASER,
+}
+
+// strokes are stored in board coordinates, the canvas scales them to whatever size it is shown at
+export const WHITEBOARD_WIDTH = 1600
+export const WHITEBOARD_HEIGHT = 900
+
+export interface IWhiteboardStroke {
+  id: string
+  // session id of the player who drew the stroke (set by the server)
+  author: string
+  tool: WhiteboardTool
+  color: string
+  size: number
+  /**
+   * flattened list of coordinates: [x0, y0, x1, y1, ...], freehand tools (pen, eraser) keep every
+   * point, shapes only keep their start and end points and text only keeps its position
+   */
+  points: number[]
+  text?: string
+}
+
+export const WHITEBOARD_DOCUMENT_VERSION = 1
+
+// JSON export of a board, importing it adds its strokes to another (or the same) board
+export interface IWhiteboardDocument {
+  version: number
+  width: number
+  height: number
+  strokes: IWhiteboardStroke[]
+}